@@ -1,27 +1,107 @@
-import type { ExtensionAPI, ToolDefinition } from "@mariozechner/pi-coding-agent";
+import type { ExtensionAPI, ExtensionContext, ToolDefinition } from "@mariozechner/pi-coding-agent";
+import { registerReplayCheckpoints } from "./src/checkpoint.js";
 import { registerReadcacheCommands } from "./src/commands.js";
-import { clearReplayRuntimeState, createReplayRuntimeState } from "./src/replay.js";
-import { pruneObjectsOlderThan } from "./src/object-store.js";
+import { registerCompactionManifest } from "./src/compaction-manifest.js";
+import { DEFAULT_READCACHE_CONFIG, loadReadcacheConfig, type ReadcacheConfig } from "./src/config.js";
+import { registerDerivedTrustHooks } from "./src/derived-trust.js";
+import { createEditOverrideTool } from "./src/edit-tool.js";
+import { registerExternalChangeNotices } from "./src/external-changes.js";
+import { createSessionLeaseKeeper } from "./src/leases.js";
+import {
+	buildKnowledgeForLeaf,
+	clearReplayRuntimeState,
+	createReplayRuntimeState,
+	setReplayCompactionBarrier,
+	setReplayMemoMaxEntries,
+} from "./src/replay.js";
+import { createConfiguredObjectStoreProvider } from "./src/store.js";
 import { createReadOverrideTool } from "./src/tool.js";
+import { createTrackedPathWatcher, type TrackedPathWatcher } from "./src/watcher.js";
 
 export default function (pi: ExtensionAPI): void {
 	const runtimeState = createReplayRuntimeState();
-	pi.registerTool(createReadOverrideTool(runtimeState) as unknown as ToolDefinition);
-	registerReadcacheCommands(pi, runtimeState);
+	let config: ReadcacheConfig = DEFAULT_READCACHE_CONFIG;
+	const getConfig = (): ReadcacheConfig => config;
+	let watcher: TrackedPathWatcher | undefined;
+	const getWatcher = (): TrackedPathWatcher | undefined => watcher;
+	const getStore = createConfiguredObjectStoreProvider(getConfig);
+	const leaseKeeper = createSessionLeaseKeeper(runtimeState);
+
+	pi.registerTool(createReadOverrideTool(runtimeState, getConfig, getStore) as unknown as ToolDefinition);
+	pi.registerTool(createEditOverrideTool(runtimeState, getConfig, getStore) as unknown as ToolDefinition);
+	registerReadcacheCommands(pi, runtimeState, getConfig, getWatcher, getStore);
+	registerDerivedTrustHooks(pi, runtimeState, getConfig, getStore);
+	registerExternalChangeNotices(pi, runtimeState, getWatcher);
+	registerReplayCheckpoints(pi, runtimeState);
+	registerCompactionManifest(pi, getConfig, getStore);
 
 	const clearCaches = (): void => {
 		clearReplayRuntimeState(runtimeState);
 	};
 
-	pi.on("session_start", (_event, ctx) => {
-		void pruneObjectsOlderThan(ctx.cwd).catch(() => {
-			// Fail-open: object pruning should never disrupt session startup.
-		});
+	const closeWatcher = (): void => {
+		watcher?.close();
+		watcher = undefined;
+	};
+
+	const renewLease = async (ctx: ExtensionContext): Promise<void> => {
+		try {
+			await leaseKeeper.renew(getStore(ctx.cwd), ctx.sessionManager);
+		} catch {
+			// Fail-open: without a lease, only another process's pruning can remove this session's bases.
+		}
+	};
+
+	pi.on("session_start", async (_event, ctx) => {
+		try {
+			const loaded = await loadReadcacheConfig(ctx.cwd);
+			config = loaded.config;
+			if (ctx.hasUI) {
+				for (const error of loaded.errors) {
+					ctx.ui.notify(error, "warning");
+				}
+			}
+		} catch {
+			// Fail-open: config loading problems fall back to defaults.
+			config = DEFAULT_READCACHE_CONFIG;
+		}
+		setReplayMemoMaxEntries(runtimeState, config.memoMaxEntries);
+		setReplayCompactionBarrier(runtimeState, config.compactionBarrier);
+
+		closeWatcher();
+		if (config.watch) {
+			watcher = createTrackedPathWatcher();
+			try {
+				watcher.sync(buildKnowledgeForLeaf(ctx.sessionManager, runtimeState).keys());
+			} catch {
+				// Fail-open: the watcher picks up tracked paths on the next context refresh.
+			}
+		}
+
+		// The lease must exist before any pruning, including this session's own.
+		await renewLease(ctx);
+
+		const { objectMaxAgeMs, objectQuotaBytes } = config;
+		void getStore(ctx.cwd)
+			.prune({ maxAgeMs: objectMaxAgeMs, quotaBytes: objectQuotaBytes })
+			.catch(() => {
+				// Fail-open: object pruning should never disrupt session startup.
+			});
+	});
+
+	pi.on("context", async (_event, ctx) => {
+		await renewLease(ctx);
 	});
 
 	pi.on("session_compact", clearCaches);
 	pi.on("session_tree", clearCaches);
 	pi.on("session_fork", clearCaches);
 	pi.on("session_switch", clearCaches);
-	pi.on("session_shutdown", clearCaches);
+	pi.on("session_shutdown", async () => {
+		clearCaches();
+		closeWatcher();
+		await leaseKeeper.release().catch(() => {
+			// Fail-open: a lease left by an exited pid is ignored and removed by the next prune.
+		});
+	});
 }
@@ -0,0 +1,27 @@
+import type { ExtensionAPI, ExtensionContext } from "@mariozechner/pi-coding-agent";
+import { READCACHE_CHECKPOINT_INTERVAL_ENTRIES, READCACHE_CUSTOM_TYPE } from "./constants.js";
+import { buildReplayCheckpointForLeaf, type ReplayRuntimeState } from "./replay.js";
+
+export function appendReplayCheckpointIfDue(
+	pi: Pick<ExtensionAPI, "appendEntry">,
+	runtimeState: ReplayRuntimeState,
+	sessionManager: ExtensionContext["sessionManager"],
+	minEntries = READCACHE_CHECKPOINT_INTERVAL_ENTRIES,
+): boolean {
+	const checkpoint = buildReplayCheckpointForLeaf(sessionManager, runtimeState, minEntries);
+	if (!checkpoint) {
+		return false;
+	}
+	pi.appendEntry(READCACHE_CUSTOM_TYPE, checkpoint);
+	return true;
+}
+
+export function registerReplayCheckpoints(pi: ExtensionAPI, runtimeState: ReplayRuntimeState): void {
+	pi.on("turn_end", async (_event, ctx) => {
+		try {
+			appendReplayCheckpointIfDue(pi, runtimeState, ctx.sessionManager);
+		} catch {
+			// Fail-open: without a checkpoint, the next restart replays the window from its start.
+		}
+	});
+}
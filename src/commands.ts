@@ -1,5 +1,6 @@
 import { constants as fsConstants } from "node:fs";
 import { access, readFile } from "node:fs/promises";
+import { relative } from "node:path";
 import type {
 	AgentToolResult,
 	ExtensionAPI,
@@ -8,17 +9,38 @@ import type {
 	ToolDefinition,
 } from "@mariozechner/pi-coding-agent";
 import { type Static, Type } from "@sinclair/typebox";
-import { READCACHE_CUSTOM_TYPE, SCOPE_FULL, scopeRange } from "./constants.js";
-import { buildInvalidationV1 } from "./meta.js";
-import { getStoreStats } from "./object-store.js";
+import { defaultReadcacheConfig, type ReadcacheConfigProvider } from "./config.js";
+import {
+	READCACHE_CUSTOM_TYPE,
+	READCACHE_QUARANTINE_DIR,
+	READCACHE_STATUS_TOP_PATHS,
+	SCOPE_FULL,
+	scopeRange,
+} from "./constants.js";
+import { buildInvalidationV1, buildModeChangeV1, isReadCacheRuntimeMode } from "./meta.js";
+import { runReadcacheGc, type ReadcacheGcReport } from "./gc.js";
+import type { PathStorageUsage } from "./object-index.js";
+import type { CheckObjectStoreResult, ObjectStoreStats } from "./object-store.js";
 import { normalizeOffsetLimit, parseTrailingRangeIfNeeded, resolveReadPath, scopeKeyForRange } from "./path.js";
-import { buildKnowledgeForLeaf, clearReplayRuntimeState, type ReplayRuntimeState } from "./replay.js";
+import {
+	buildKnowledgeForLeaf,
+	clearReplayRuntimeState,
+	getReadcacheModeForLeaf,
+	getReplayMemoStats,
+	type ReplayMemoStats,
+	type ReplayRuntimeState,
+} from "./replay.js";
+import { defaultReadcacheObjectStore, type ReadcacheObjectStoreProvider } from "./store.js";
 import { collectReplayTelemetry, summarizeKnowledge } from "./telemetry.js";
 import { splitLines } from "./text.js";
-import type { ScopeKey } from "./types.js";
+import type { ReadCacheRuntimeMode, ScopeKey } from "./types.js";
+import type { TrackedPathWatcher } from "./watcher.js";
 
 const STATUS_MESSAGE_TYPE = "pi-readcache-status";
 const REFRESH_MESSAGE_TYPE = "pi-readcache-refresh";
+const MODE_MESSAGE_TYPE = "pi-readcache-mode";
+const GC_MESSAGE_TYPE = "pi-readcache-gc";
+const FSCK_MESSAGE_TYPE = "pi-readcache-fsck";
 const UTF8_STRICT_DECODER = new TextDecoder("utf-8", { fatal: true });
 
 const readcacheRefreshSchema = Type.Object({
@@ -51,6 +73,8 @@ function formatModeCounts(modeCounts: ReturnType<typeof collectReplayTelemetry>[
 		`unchanged=${modeCounts.unchanged}`,
 		`unchanged_range=${modeCounts.unchanged_range}`,
 		`diff=${modeCounts.diff}`,
+		`diff_range=${modeCounts.diff_range}`,
+		`moved_range=${modeCounts.moved_range}`,
 		`baseline_fallback=${modeCounts.baseline_fallback}`,
 	].join(", ");
 }
@@ -79,6 +103,109 @@ function emitRefreshReport(pi: ExtensionAPI, ctx: ExtensionCommandContext, repor
 	}
 }
 
+function emitModeReport(pi: ExtensionAPI, ctx: ExtensionCommandContext, report: string, changed: boolean): void {
+	pi.sendMessage({
+		customType: MODE_MESSAGE_TYPE,
+		content: report,
+		display: true,
+	});
+
+	if (ctx.hasUI) {
+		ctx.ui.notify(changed ? "Readcache mode change appended" : "Readcache mode unchanged", "info");
+	}
+}
+
+function emitGcReport(pi: ExtensionAPI, ctx: ExtensionCommandContext, report: string, dryRun: boolean): void {
+	pi.sendMessage({
+		customType: GC_MESSAGE_TYPE,
+		content: report,
+		display: true,
+	});
+
+	if (ctx.hasUI) {
+		ctx.ui.notify(dryRun ? "Readcache GC dry run generated" : "Readcache GC completed", "info");
+	}
+}
+
+function emitFsckReport(pi: ExtensionAPI, ctx: ExtensionCommandContext, report: string): void {
+	pi.sendMessage({
+		customType: FSCK_MESSAGE_TYPE,
+		content: report,
+		display: true,
+	});
+
+	if (ctx.hasUI) {
+		ctx.ui.notify("Readcache fsck completed", "info");
+	}
+}
+
+function describeMode(mode: ReadCacheRuntimeMode): string {
+	if (mode === "off") {
+		return "off (baseline reads, trust not tracked)";
+	}
+	if (mode === "paused") {
+		return "paused (baseline reads, trust still tracked)";
+	}
+	return "on";
+}
+
+function parseModeCommandArgs(args: string): ReadCacheRuntimeMode | undefined {
+	const trimmed = args.trim().toLowerCase();
+	if (!trimmed) {
+		return undefined;
+	}
+	if (!isReadCacheRuntimeMode(trimmed)) {
+		throw new Error(`Invalid readcache mode "${args.trim()}". Usage: /readcache-mode [on|off|paused]`);
+	}
+	return trimmed;
+}
+
+function parseGcCommandArgs(args: string): { dryRun: boolean } {
+	const trimmed = args.trim().toLowerCase();
+	if (!trimmed || trimmed === "--dry-run") {
+		return { dryRun: true };
+	}
+	if (trimmed === "--apply") {
+		return { dryRun: false };
+	}
+	throw new Error(`Invalid readcache-gc arguments "${args.trim()}". Usage: /readcache-gc [--dry-run|--apply]`);
+}
+
+function formatGcReport(report: ReadcacheGcReport): string {
+	const retained = [
+		`${report.referenced} referenced`,
+		`${report.retainedBases} delta bases`,
+		`${report.retainedRecent} recently written`,
+	];
+	if (report.retainedShared > 0) {
+		retained.push(`${report.retainedShared} shared with other repos`);
+	}
+	if (report.retainedLeased > 0) {
+		retained.push(`${report.retainedLeased} leased by live sessions`);
+	}
+	const lines = [
+		report.dryRun ? "[readcache-gc] dry run (pass --apply to delete)" : "[readcache-gc] applied",
+		`references: ${report.referencedHashes} hashes from the active branch and ${report.sessionFiles} session files`,
+		`retained: ${retained.join(", ")}`,
+		`${report.dryRun ? "would delete" : "deleted"}: ${report.deleted} of ${report.scanned} object files (${formatBytes(report.freedBytes)})`,
+	];
+	if (report.released > 0) {
+		lines.push(`${report.dryRun ? "would release" : "released"}: this repo's claim on ${report.released} shared objects`);
+	}
+	return lines.join("\n");
+}
+
+function formatFsckReport(result: CheckObjectStoreResult): string {
+	return [
+		"[readcache-fsck]",
+		`objects: ${result.checked} checked, ${result.corrupt} corrupt, ${result.dangling} missing a delta base`,
+		`quarantined: ${result.quarantined}${result.quarantined > 0 ? ` (moved to ${READCACHE_QUARANTINE_DIR})` : ""}`,
+		`stale temp files removed: ${result.tempFilesRemoved}`,
+		`permissions fixed: ${result.permissionsFixed}`,
+		`index: rebuilt with ${result.indexed} object files`,
+	].join("\n");
+}
+
 function stripWrappingQuotes(value: string): string {
 	if (value.length < 2) {
 		return value;
@@ -250,6 +377,15 @@ export async function appendReadcacheInvalidation(
 	};
 }
 
+export function appendReadcacheModeChange(
+	pi: Pick<ExtensionAPI, "appendEntry">,
+	runtimeState: ReplayRuntimeState,
+	mode: ReadCacheRuntimeMode,
+): void {
+	pi.appendEntry(READCACHE_CUSTOM_TYPE, buildModeChangeV1(mode, Date.now()));
+	clearReplayRuntimeState(runtimeState);
+}
+
 export function createReadcacheRefreshTool(
 	pi: Pick<ExtensionAPI, "appendEntry">,
 	runtimeState: ReplayRuntimeState,
@@ -279,29 +415,96 @@ export function createReadcacheRefreshTool(
 	};
 }
 
-export function registerReadcacheCommands(pi: ExtensionAPI, runtimeState: ReplayRuntimeState): void {
+function describeQuota(stats: ObjectStoreStats, quotaBytes: number): string {
+	if (quotaBytes === 0) {
+		return "object quota: unlimited";
+	}
+	// In a shared store the quota only bounds this repo's own objects.
+	const bytes = stats.ownedBytes ?? stats.bytes;
+	const owner = stats.ownedBytes !== undefined ? " owned by this repo" : "";
+	const percent = Math.round((bytes / quotaBytes) * 100);
+	return `object quota: ${formatBytes(bytes)}${owner} of ${formatBytes(quotaBytes)} (${percent}%)`;
+}
+
+function describeReplayMemo(stats: ReplayMemoStats): string {
+	return `replay memo: ${stats.entries}/${stats.maxEntries} leaves (~${formatBytes(stats.estimatedBytes)}), ${stats.hits} hits, ${stats.misses} misses (${stats.extended} extended), ${stats.evictions} evictions`;
+}
+
+function describeStorageByPath(usage: readonly PathStorageUsage[], cwd: string): string[] {
+	if (usage.length === 0) {
+		return [];
+	}
+	const lines = ["largest paths:"];
+	for (const entry of usage) {
+		const label = entry.pathKey === undefined ? "(unknown origin)" : relative(cwd, entry.pathKey) || entry.pathKey;
+		lines.push(`- ${label}: ${formatBytes(entry.bytes)} on disk across ${entry.objects} objects`);
+	}
+	return lines;
+}
+
+function describeWatcher(watcher: TrackedPathWatcher | undefined, cwd: string): string[] {
+	if (!watcher) {
+		return ["watcher: off"];
+	}
+	const status = watcher.getStatus();
+	const details = [`${status.watchedPaths} paths watched`];
+	if (status.unwatchedPaths > 0) {
+		details.push(`${status.unwatchedPaths} unwatched`);
+	}
+	if (status.degraded) {
+		details.push("degraded (watch limit reached)");
+	}
+	const lines = [`watcher: ${details.join(", ")}`];
+	if (status.dirtyPaths.length === 0) {
+		lines.push("dirty files: none");
+	} else {
+		lines.push(`dirty files: ${status.dirtyPaths.length}`);
+		for (const pathKey of status.dirtyPaths) {
+			lines.push(`- ${relative(cwd, pathKey) || pathKey}`);
+		}
+	}
+	return lines;
+}
+
+export function registerReadcacheCommands(
+	pi: ExtensionAPI,
+	runtimeState: ReplayRuntimeState,
+	getConfig: ReadcacheConfigProvider = defaultReadcacheConfig,
+	getWatcher: () => TrackedPathWatcher | undefined = () => undefined,
+	getStore: ReadcacheObjectStoreProvider = defaultReadcacheObjectStore,
+): void {
 	pi.registerCommand("readcache-status", {
 		description: "Show replay-context readcache status and object store stats",
 		handler: async (_args, ctx) => {
 			const replayTelemetry = collectReplayTelemetry(ctx.sessionManager);
 			const knowledge = buildKnowledgeForLeaf(ctx.sessionManager, runtimeState);
 			const knowledgeSummary = summarizeKnowledge(knowledge);
+			const mode = getReadcacheModeForLeaf(ctx.sessionManager, runtimeState);
 
-			let storeLine = "object store: unavailable";
+			let storeLines = ["object store: unavailable"];
 			try {
-				const storeStats = await getStoreStats(ctx.cwd);
-				storeLine = `object store: ${storeStats.objects} objects, ${formatBytes(storeStats.bytes)}`;
+				const store = getStore(ctx.cwd);
+				const storeStats = await store.stats();
+				storeLines = [
+					`object store: ${storeStats.objects} objects, ${formatBytes(storeStats.logicalBytes)} logical, ${formatBytes(storeStats.bytes)} on disk`,
+					...(getConfig().objectStore === "user" ? ["object store location: user (~/.pi/readcache, shared across repos)"] : []),
+					describeQuota(storeStats, getConfig().objectQuotaBytes),
+					...describeStorageByPath(await store.usageByPath(READCACHE_STATUS_TOP_PATHS), ctx.cwd),
+				];
 			} catch {
 				// Best effort only.
 			}
 
 			const reportLines = [
 				"[readcache-status]",
+				`mode: ${describeMode(mode)}`,
 				`tracked scopes: ${knowledgeSummary.trackedScopes} across ${knowledgeSummary.trackedFiles} files`,
 				`replay window: ${replayTelemetry.replayEntryCount} entries (start index ${replayTelemetry.replayStartIndex})`,
+				describeReplayMemo(getReplayMemoStats(runtimeState)),
 				`mode counts: ${formatModeCounts(replayTelemetry.modeCounts)}`,
 				`estimated savings: ~${replayTelemetry.estimatedTokensSaved} tokens (${formatBytes(replayTelemetry.estimatedBytesSaved)})`,
-				storeLine,
+				...storeLines,
+				...describeWatcher(getWatcher(), ctx.cwd),
 			];
 
 			emitStatusReport(pi, ctx, reportLines.join("\n"));
@@ -325,5 +528,61 @@ export function registerReadcacheCommands(pi: ExtensionAPI, runtimeState: Replay
 		},
 	});
 
+	pi.registerCommand("readcache-mode", {
+		description: "Show or set readcache mode for this branch: on, off, or paused",
+		handler: async (args, ctx) => {
+			try {
+				const requested = parseModeCommandArgs(args);
+				const current = getReadcacheModeForLeaf(ctx.sessionManager, runtimeState);
+				if (requested === undefined || requested === current) {
+					emitModeReport(pi, ctx, `[readcache-mode] mode: ${describeMode(current)}`, false);
+					return;
+				}
+
+				appendReadcacheModeChange(pi, runtimeState, requested);
+				emitModeReport(pi, ctx, `[readcache-mode] mode set to ${describeMode(requested)}`, true);
+			} catch (error) {
+				const message = error instanceof Error ? error.message : String(error);
+				if (ctx.hasUI) {
+					ctx.ui.notify(message, "error");
+				}
+				throw error instanceof Error ? error : new Error(message);
+			}
+		},
+	});
+
+	pi.registerCommand("readcache-gc", {
+		description: "Delete objects not referenced by any session replay window (dry run unless --apply)",
+		handler: async (args, ctx) => {
+			try {
+				const { dryRun } = parseGcCommandArgs(args);
+				const report = await runReadcacheGc(getStore(ctx.cwd), ctx.sessionManager, runtimeState, dryRun);
+				emitGcReport(pi, ctx, formatGcReport(report), dryRun);
+			} catch (error) {
+				const message = error instanceof Error ? error.message : String(error);
+				if (ctx.hasUI) {
+					ctx.ui.notify(message, "error");
+				}
+				throw error instanceof Error ? error : new Error(message);
+			}
+		},
+	});
+
+	pi.registerCommand("readcache-fsck", {
+		description: "Verify object hashes, quarantine corrupt objects, remove stale temp files, and fix permissions",
+		handler: async (_args, ctx) => {
+			try {
+				const result = await getStore(ctx.cwd).check();
+				emitFsckReport(pi, ctx, formatFsckReport(result));
+			} catch (error) {
+				const message = error instanceof Error ? error.message : String(error);
+				if (ctx.hasUI) {
+					ctx.ui.notify(message, "error");
+				}
+				throw error instanceof Error ? error : new Error(message);
+			}
+		},
+	});
+
 	pi.registerTool(createReadcacheRefreshTool(pi, runtimeState) as unknown as ToolDefinition);
 }
@@ -0,0 +1,74 @@
+import type { CompactionEntry, ExtensionAPI, SessionEntry } from "@mariozechner/pi-coding-agent";
+import { defaultReadcacheConfig, type ReadcacheConfigProvider } from "./config.js";
+import { READCACHE_CUSTOM_TYPE, SCOPE_FULL } from "./constants.js";
+import { buildCompactionManifestV1 } from "./meta.js";
+import { findReplayStartIndex, replayKeptRegionKnowledge, replayKnowledgeFromBranch } from "./replay.js";
+import { defaultReadcacheObjectStore, type ReadcacheObjectStore, type ReadcacheObjectStoreProvider } from "./store.js";
+import type { ReadCacheCompactionManifestV1, ScopeKey } from "./types.js";
+
+export async function buildCompactionManifest(
+	branchEntries: SessionEntry[],
+	compaction: CompactionEntry,
+	store: ReadcacheObjectStore,
+): Promise<ReadCacheCompactionManifestV1 | undefined> {
+	const compactionIndex = branchEntries.findIndex((entry) => entry.id === compaction.id);
+	if (compactionIndex === -1) {
+		return undefined;
+	}
+	const beforeCompaction = branchEntries.slice(0, compactionIndex);
+	const carried: ReadCacheCompactionManifestV1["carried"] = [];
+	const carriedScopes = new Set<string>();
+	const carry = (pathKey: string, scopeKey: ScopeKey, hash: string): void => {
+		carriedScopes.add(`${pathKey}\0${scopeKey}`);
+		carried.push([pathKey, scopeKey, hash]);
+	};
+
+	// Entries from firstKeptEntryId on stay in context, so trust they establish on their own survives.
+	for (const [pathKey, scopes] of replayKeptRegionKnowledge(beforeCompaction, compaction.firstKeptEntryId)) {
+		for (const [scopeKey, trust] of scopes) {
+			carry(pathKey, scopeKey, trust.hash);
+		}
+	}
+
+	const windowKnowledge = replayKnowledgeFromBranch(
+		beforeCompaction,
+		findReplayStartIndex(beforeCompaction).startIndex,
+		"relaxed",
+	);
+	for (const [pathKey, scopes] of windowKnowledge) {
+		const fullTrust = scopes.get(SCOPE_FULL);
+		if (!fullTrust || carriedScopes.has(`${pathKey}\0${SCOPE_FULL}`)) {
+			continue;
+		}
+		const object = await store.get(fullTrust.hash);
+		if (object.status === "found" && object.text.length > 0 && compaction.summary.includes(object.text)) {
+			carry(pathKey, SCOPE_FULL, fullTrust.hash);
+		}
+	}
+
+	return carried.length > 0 ? buildCompactionManifestV1(compaction.id, carried) : undefined;
+}
+
+export function registerCompactionManifest(
+	pi: ExtensionAPI,
+	getConfig: ReadcacheConfigProvider = defaultReadcacheConfig,
+	getStore: ReadcacheObjectStoreProvider = defaultReadcacheObjectStore,
+): void {
+	pi.on("session_compact", async (event, ctx) => {
+		if (getConfig().compactionBarrier !== "relaxed") {
+			return;
+		}
+		try {
+			const manifest = await buildCompactionManifest(
+				ctx.sessionManager.getBranch(),
+				event.compactionEntry,
+				getStore(ctx.cwd),
+			);
+			if (manifest) {
+				pi.appendEntry(READCACHE_CUSTOM_TYPE, manifest);
+			}
+		} catch {
+			// Fail-open: without a manifest, the compaction barrier stays strict.
+		}
+	});
+}
@@ -0,0 +1,171 @@
+import { readFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { join, resolve as resolvePath } from "node:path";
+import { type Static, Type } from "@sinclair/typebox";
+import { Value } from "@sinclair/typebox/value";
+import {
+	DEFAULT_EXCLUDED_PATH_PATTERNS,
+	READCACHE_CONFIG_FILE,
+	READCACHE_MEMO_MAX_ENTRIES,
+	READCACHE_OBJECT_MAX_AGE_MS,
+	READCACHE_OBJECT_QUOTA_BYTES,
+} from "./constants.js";
+import { DEFAULT_DIFF_LIMITS, type DiffLimits } from "./diff.js";
+import type { CompactionBarrier, ObjectStoreLocation, PathPolicyRule } from "./types.js";
+
+const pathPolicySchema = Type.Union([
+	Type.Literal("default"),
+	Type.Literal("no_diff"),
+	Type.Literal("always_full"),
+	Type.Literal("unchanged_only"),
+]);
+
+export const readcacheConfigSchema = Type.Object(
+	{
+		diff: Type.Optional(
+			Type.Object(
+				{
+					maxFileBytes: Type.Optional(Type.Integer({ minimum: 1 })),
+					maxFileLines: Type.Optional(Type.Integer({ minimum: 1 })),
+					maxDiffToBaseRatio: Type.Optional(Type.Number({ exclusiveMinimum: 0 })),
+					maxDiffToBaseLineRatio: Type.Optional(Type.Number({ exclusiveMinimum: 0 })),
+				},
+				{ additionalProperties: false },
+			),
+		),
+		objectMaxAgeMs: Type.Optional(Type.Integer({ minimum: 0 })),
+		objectQuotaBytes: Type.Optional(Type.Integer({ minimum: 0 })),
+		objectStore: Type.Optional(Type.Union([Type.Literal("repo"), Type.Literal("user")])),
+		excludedPathPatterns: Type.Optional(Type.Array(Type.String({ minLength: 1 }))),
+		extraExcludedPathPatterns: Type.Optional(Type.Array(Type.String({ minLength: 1 }))),
+		pathPolicies: Type.Optional(Type.Record(Type.String(), pathPolicySchema)),
+		watch: Type.Optional(Type.Boolean()),
+		memoMaxEntries: Type.Optional(Type.Integer({ minimum: 1 })),
+		compactionBarrier: Type.Optional(Type.Union([Type.Literal("strict"), Type.Literal("relaxed")])),
+	},
+	{ additionalProperties: false },
+);
+
+export type ReadcacheConfigFile = Static<typeof readcacheConfigSchema>;
+
+export interface ReadcacheConfig {
+	diff: DiffLimits;
+	objectMaxAgeMs: number;
+	objectQuotaBytes: number;
+	objectStore: ObjectStoreLocation;
+	excludedPathPatterns: readonly string[];
+	pathPolicies: readonly PathPolicyRule[];
+	watch: boolean;
+	memoMaxEntries: number;
+	compactionBarrier: CompactionBarrier;
+}
+
+export type ReadcacheConfigProvider = () => ReadcacheConfig;
+
+export interface LoadedReadcacheConfig {
+	config: ReadcacheConfig;
+	sources: string[];
+	errors: string[];
+}
+
+export const DEFAULT_READCACHE_CONFIG: ReadcacheConfig = {
+	diff: DEFAULT_DIFF_LIMITS,
+	objectMaxAgeMs: READCACHE_OBJECT_MAX_AGE_MS,
+	objectQuotaBytes: READCACHE_OBJECT_QUOTA_BYTES,
+	objectStore: "repo",
+	excludedPathPatterns: DEFAULT_EXCLUDED_PATH_PATTERNS,
+	pathPolicies: [],
+	watch: false,
+	memoMaxEntries: READCACHE_MEMO_MAX_ENTRIES,
+	compactionBarrier: "strict",
+};
+
+export function defaultReadcacheConfig(): ReadcacheConfig {
+	return DEFAULT_READCACHE_CONFIG;
+}
+
+export function getConfigPaths(repoRoot: string, homeDir = homedir()): string[] {
+	const userPath = resolvePath(join(homeDir, READCACHE_CONFIG_FILE));
+	const projectPath = resolvePath(join(repoRoot, READCACHE_CONFIG_FILE));
+	return userPath === projectPath ? [projectPath] : [userPath, projectPath];
+}
+
+export function parseReadcacheConfig(value: unknown): { config?: ReadcacheConfigFile; error?: string } {
+	if (Value.Check(readcacheConfigSchema, value)) {
+		return { config: value };
+	}
+
+	const first = Value.Errors(readcacheConfigSchema, value).First();
+	if (!first) {
+		return { error: "does not match the readcache config schema" };
+	}
+	return { error: `${first.path || "/"}: ${first.message}` };
+}
+
+export function mergeReadcacheConfig(base: ReadcacheConfig, override: ReadcacheConfigFile): ReadcacheConfig {
+	return {
+		diff: { ...base.diff, ...override.diff },
+		objectMaxAgeMs: override.objectMaxAgeMs ?? base.objectMaxAgeMs,
+		objectQuotaBytes: override.objectQuotaBytes ?? base.objectQuotaBytes,
+		objectStore: override.objectStore ?? base.objectStore,
+		excludedPathPatterns: [
+			...(override.excludedPathPatterns ?? base.excludedPathPatterns),
+			...(override.extraExcludedPathPatterns ?? []),
+		],
+		pathPolicies: [
+			...base.pathPolicies,
+			...Object.entries(override.pathPolicies ?? {}).map(([pattern, policy]) => ({ pattern, policy })),
+		],
+		watch: override.watch ?? base.watch,
+		memoMaxEntries: override.memoMaxEntries ?? base.memoMaxEntries,
+		compactionBarrier: override.compactionBarrier ?? base.compactionBarrier,
+	};
+}
+
+async function readConfigFile(path: string): Promise<{ config?: ReadcacheConfigFile; error?: string }> {
+	let raw: string;
+	try {
+		raw = await readFile(path, "utf-8");
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+			return {};
+		}
+		const message = error instanceof Error ? error.message : String(error);
+		return { error: `Unable to read readcache config ${path}: ${message}` };
+	}
+
+	let json: unknown;
+	try {
+		json = JSON.parse(raw);
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		return { error: `Invalid JSON in readcache config ${path}: ${message}` };
+	}
+
+	const parsed = parseReadcacheConfig(json);
+	if (parsed.error !== undefined) {
+		return { error: `Invalid readcache config ${path} at ${parsed.error}` };
+	}
+	return parsed;
+}
+
+export async function loadReadcacheConfig(repoRoot: string, homeDir = homedir()): Promise<LoadedReadcacheConfig> {
+	let config = DEFAULT_READCACHE_CONFIG;
+	const sources: string[] = [];
+	const errors: string[] = [];
+
+	for (const path of getConfigPaths(repoRoot, homeDir)) {
+		const loaded = await readConfigFile(path);
+		if (loaded.error !== undefined) {
+			errors.push(`${loaded.error}; using defaults for this file`);
+			continue;
+		}
+		if (loaded.config === undefined) {
+			continue;
+		}
+		config = mergeReadcacheConfig(config, loaded.config);
+		sources.push(path);
+	}
+
+	return { config, sources, errors };
+}
@@ -27,7 +27,27 @@ export const DEFAULT_EXCLUDED_PATH_PATTERNS = [
 export const READCACHE_ROOT_DIR = ".pi/readcache";
 export const READCACHE_OBJECTS_DIR = `${READCACHE_ROOT_DIR}/objects`;
 export const READCACHE_TMP_DIR = `${READCACHE_ROOT_DIR}/tmp`;
+export const READCACHE_QUARANTINE_DIR = `${READCACHE_ROOT_DIR}/quarantine`;
+export const READCACHE_INDEX_FILE = `${READCACHE_ROOT_DIR}/index.jsonl`;
+export const READCACHE_INDEX_COMPACT_MIN_RECORDS = 1000;
+export const READCACHE_LOCK_FILE = `${READCACHE_ROOT_DIR}/store.lock`;
+export const READCACHE_LOCK_STALE_MS = 10 * 60 * 1000;
+export const READCACHE_LEASES_DIR = `${READCACHE_ROOT_DIR}/leases`;
+export const READCACHE_OBJECT_SUFFIX = ".txt.gz";
+export const READCACHE_PLAIN_OBJECT_SUFFIX = ".txt";
+export const READCACHE_DELTA_OBJECT_SUFFIX = ".delta.gz";
+export const READCACHE_DELTA_MAX_CHAIN = 16;
+export const READCACHE_CONFIG_FILE = `${READCACHE_ROOT_DIR}/config.json`;
 export const READCACHE_OBJECT_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+export const READCACHE_OBJECT_QUOTA_BYTES = 256 * 1024 * 1024;
+export const READCACHE_EVICTION_MIN_INTERVAL_MS = 30 * 1000;
+export const READCACHE_GC_GRACE_MS = 10 * 60 * 1000;
+export const READCACHE_TMP_STALE_MS = 10 * 60 * 1000;
+export const READCACHE_STALE_NOTICE_MAX_PATHS = 20;
+export const READCACHE_WATCH_MAX_PATHS = 4096;
+export const READCACHE_STATUS_TOP_PATHS = 5;
+export const READCACHE_MEMO_MAX_ENTRIES = 256;
+export const READCACHE_CHECKPOINT_INTERVAL_ENTRIES = 500;
 
 export function scopeRange(start: number, end: number): `r:${number}:${number}` {
 	return `r:${start}:${end}`;
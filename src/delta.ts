@@ -0,0 +1,51 @@
+import { diffLines } from "diff";
+
+// Positive numbers copy base characters, negative numbers skip them, strings insert text.
+export type TextDeltaOp = number | string;
+
+export function encodeTextDelta(baseText: string, text: string): TextDeltaOp[] {
+	const ops: TextDeltaOp[] = [];
+	for (const change of diffLines(baseText, text)) {
+		if (change.value.length === 0) {
+			continue;
+		}
+		if (change.added) {
+			ops.push(change.value);
+		} else if (change.removed) {
+			ops.push(-change.value.length);
+		} else {
+			ops.push(change.value.length);
+		}
+	}
+	return ops;
+}
+
+export function applyTextDelta(baseText: string, ops: readonly TextDeltaOp[]): string {
+	const parts: string[] = [];
+	let cursor = 0;
+	for (const op of ops) {
+		if (typeof op === "string") {
+			parts.push(op);
+			continue;
+		}
+		const length = Math.abs(op);
+		if (!Number.isInteger(op) || cursor + length > baseText.length) {
+			throw new Error("Delta does not match its base object.");
+		}
+		if (op > 0) {
+			parts.push(baseText.slice(cursor, cursor + length));
+		}
+		cursor += length;
+	}
+	if (cursor !== baseText.length) {
+		throw new Error("Delta does not match its base object.");
+	}
+	return parts.join("");
+}
+
+export function isTextDeltaOps(value: unknown): value is TextDeltaOp[] {
+	return (
+		Array.isArray(value) &&
+		value.every((op) => typeof op === "string" || (typeof op === "number" && Number.isInteger(op) && op !== 0))
+	);
+}
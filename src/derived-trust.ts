@@ -0,0 +1,126 @@
+import { readFile } from "node:fs/promises";
+import type { ExtensionAPI, ExtensionContext } from "@mariozechner/pi-coding-agent";
+import { defaultReadcacheConfig, type ReadcacheConfigProvider } from "./config.js";
+import { READCACHE_CUSTOM_TYPE, SCOPE_FULL } from "./constants.js";
+import { buildDerivedTrustV1 } from "./meta.js";
+import { hashBytes } from "./object-store.js";
+import { resolveToCwd } from "./path.js";
+import { findExclusionPattern } from "./policy.js";
+import { selectLatestTrust } from "./range-index.js";
+import { buildKnowledgeForLeaf, getReadcacheModeForLeaf, type ReplayRuntimeState } from "./replay.js";
+import { defaultReadcacheObjectStore, type ReadcacheObjectStoreProvider } from "./store.js";
+import type { ReadCacheDerivedSource } from "./types.js";
+
+const UTF8_STRICT_DECODER = new TextDecoder("utf-8", { fatal: true });
+
+interface FileSnapshot {
+	text: string;
+	hash: string;
+}
+
+async function readFileSnapshot(absolutePath: string): Promise<FileSnapshot | undefined> {
+	try {
+		const bytes = await readFile(absolutePath);
+		return {
+			text: UTF8_STRICT_DECODER.decode(bytes),
+			hash: hashBytes(bytes),
+		};
+	} catch {
+		return undefined;
+	}
+}
+
+function getInputPath(input: Record<string, unknown>): string | undefined {
+	return typeof input.path === "string" && input.path.length > 0 ? input.path : undefined;
+}
+
+async function recordDerivedTrust(
+	pi: Pick<ExtensionAPI, "appendEntry">,
+	runtimeState: ReplayRuntimeState,
+	getConfig: ReadcacheConfigProvider,
+	getStore: ReadcacheObjectStoreProvider,
+	ctx: ExtensionContext,
+	source: ReadCacheDerivedSource,
+	input: Record<string, unknown>,
+	baseHash: string | undefined,
+): Promise<void> {
+	const inputPath = getInputPath(input);
+	if (!inputPath) {
+		return;
+	}
+
+	const pathKey = resolveToCwd(inputPath, ctx.cwd);
+	if (findExclusionPattern(pathKey, ctx.cwd, getConfig().excludedPathPatterns) !== undefined) {
+		return;
+	}
+	if (getReadcacheModeForLeaf(ctx.sessionManager, runtimeState) === "off") {
+		return;
+	}
+
+	const snapshot = await readFileSnapshot(pathKey);
+	if (!snapshot) {
+		return;
+	}
+
+	const pathKnowledge = buildKnowledgeForLeaf(ctx.sessionManager, runtimeState).get(pathKey);
+	if (source === "write") {
+		if (input.content !== snapshot.text) {
+			return;
+		}
+	} else if (!baseHash || pathKnowledge?.get(SCOPE_FULL)?.hash !== baseHash) {
+		return;
+	}
+
+	const deltaBaseHash = baseHash ?? selectLatestTrust(...(pathKnowledge?.values() ?? []))?.hash;
+	try {
+		await getStore(ctx.cwd).put(snapshot.hash, snapshot.text, {
+			quotaBytes: getConfig().objectQuotaBytes,
+			pathKey,
+			...(deltaBaseHash !== undefined ? { deltaBaseHash } : {}),
+		});
+	} catch {
+		// Object persistence failures are fail-open.
+	}
+	pi.appendEntry(READCACHE_CUSTOM_TYPE, buildDerivedTrustV1(source, pathKey, snapshot.hash, baseHash, Date.now()));
+}
+
+export function registerDerivedTrustHooks(
+	pi: ExtensionAPI,
+	runtimeState: ReplayRuntimeState,
+	getConfig: ReadcacheConfigProvider = defaultReadcacheConfig,
+	getStore: ReadcacheObjectStoreProvider = defaultReadcacheObjectStore,
+): void {
+	const preEditHashes = new Map<string, string>();
+
+	pi.on("tool_call", async (event, ctx) => {
+		if (event.toolName !== "edit") {
+			return;
+		}
+		const inputPath = getInputPath(event.input);
+		if (!inputPath) {
+			return;
+		}
+		const snapshot = await readFileSnapshot(resolveToCwd(inputPath, ctx.cwd));
+		if (snapshot) {
+			preEditHashes.set(event.toolCallId, snapshot.hash);
+		}
+	});
+
+	pi.on("tool_result", async (event, ctx) => {
+		if (event.toolName !== "edit" && event.toolName !== "write") {
+			return;
+		}
+
+		const baseHash = preEditHashes.get(event.toolCallId);
+		preEditHashes.delete(event.toolCallId);
+		if (event.isError) {
+			return;
+		}
+
+		try {
+			await recordDerivedTrust(pi, runtimeState, getConfig, getStore, ctx, event.toolName, event.input, baseHash);
+		} catch {
+			// Fail-open: derived trust is an optimization and must never affect edit/write results.
+		}
+	});
+}
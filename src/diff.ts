@@ -74,7 +74,12 @@ function countChangedLinesFromPatch(diffText: string): { added: number; removed:
 	return { added, removed };
 }
 
-export function computeUnifiedDiff(baseText: string, currentText: string, pathDisplay: string): DiffComputation | undefined {
+function buildUnifiedDiff(
+	baseText: string,
+	currentText: string,
+	pathDisplay: string,
+	lineOffset: number,
+): DiffComputation | undefined {
 	const safePath = sanitizePathForPatch(pathDisplay);
 	const patch = structuredPatch(`a/${safePath}`, `b/${safePath}`, baseText, currentText, "", "", {
 		context: 3,
@@ -83,6 +88,11 @@ export function computeUnifiedDiff(baseText: string, currentText: string, pathDi
 		return undefined;
 	}
 
+	for (const hunk of patch.hunks) {
+		hunk.oldStart += lineOffset;
+		hunk.newStart += lineOffset;
+	}
+
 	const diffText = stripPatchSeparator(formatPatch(patch));
 	if (!diffText.includes("@@")) {
 		return undefined;
@@ -98,6 +108,23 @@ export function computeUnifiedDiff(baseText: string, currentText: string, pathDi
 	};
 }
 
+export function computeUnifiedDiff(baseText: string, currentText: string, pathDisplay: string): DiffComputation | undefined {
+	return buildUnifiedDiff(baseText, currentText, pathDisplay, 0);
+}
+
+export function computeRangeUnifiedDiff(
+	baseSlice: string,
+	currentSlice: string,
+	pathDisplay: string,
+	startLine: number,
+): DiffComputation | undefined {
+	if (!Number.isInteger(startLine) || startLine <= 0) {
+		throw new Error(`Invalid start line "${startLine}". Line numbers must be positive integers.`);
+	}
+	// Slices are diffed as complete lines so a slice ending mid-file is not reported as missing a final newline.
+	return buildUnifiedDiff(`${baseSlice}\n`, `${currentSlice}\n`, pathDisplay, startLine - 1);
+}
+
 export function isDiffUseful(
 	diffText: string,
 	selectedBaseText: string,
@@ -0,0 +1,153 @@
+import { readFile } from "node:fs/promises";
+import {
+	createEditTool,
+	type AgentToolResult,
+	type EditToolDetails,
+	type ExtensionContext,
+} from "@mariozechner/pi-coding-agent";
+import { type Static, Type } from "@sinclair/typebox";
+import { defaultReadcacheConfig, type ReadcacheConfig, type ReadcacheConfigProvider } from "./config.js";
+import { SCOPE_FULL } from "./constants.js";
+import { computeUnifiedDiff, isDiffUseful } from "./diff.js";
+import { hashBytes } from "./object-store.js";
+import { resolveToCwd } from "./path.js";
+import { findExclusionPattern } from "./policy.js";
+import { selectLatestTrust } from "./range-index.js";
+import {
+	buildKnowledgeForLeaf,
+	createReplayRuntimeState,
+	getReadcacheModeForLeaf,
+	type ReplayRuntimeState,
+} from "./replay.js";
+import { defaultReadcacheObjectStore, type ReadcacheObjectStore, type ReadcacheObjectStoreProvider } from "./store.js";
+import { splitLines, truncateForReadcache } from "./text.js";
+
+const UTF8_STRICT_DECODER = new TextDecoder("utf-8", { fatal: true });
+
+export const editToolSchema = Type.Object({
+	path: Type.String({ description: "Path to the file to edit (relative or absolute)" }),
+	oldText: Type.String({ description: "Exact text to find and replace (must match exactly)" }),
+	newText: Type.String({ description: "New text to replace the old text with" }),
+});
+
+export type EditToolParams = Static<typeof editToolSchema>;
+
+function buildEditDescription(): string {
+	return "Edit a file by replacing exact text. The oldText must match exactly (including whitespace). Use this for precise, surgical edits. If oldText is not found and the file changed since you last read it, the error includes a unified diff from the content you last saw to the current file; use it to correct oldText before retrying.";
+}
+
+function normalizeForMatch(text: string): string {
+	return text.replace(/^\uFEFF/, "").replace(/\r\n/g, "\n");
+}
+
+async function describeEditDrift(
+	runtimeState: ReplayRuntimeState,
+	config: ReadcacheConfig,
+	store: ReadcacheObjectStore,
+	ctx: ExtensionContext,
+	params: EditToolParams,
+): Promise<string | undefined> {
+	const pathKey = resolveToCwd(params.path, ctx.cwd);
+	if (findExclusionPattern(pathKey, ctx.cwd, config.excludedPathPatterns) !== undefined) {
+		return undefined;
+	}
+	if (getReadcacheModeForLeaf(ctx.sessionManager, runtimeState) === "off") {
+		return undefined;
+	}
+
+	let currentBytes: Buffer;
+	let currentText: string;
+	try {
+		currentBytes = await readFile(pathKey);
+		currentText = UTF8_STRICT_DECODER.decode(currentBytes);
+	} catch {
+		return undefined;
+	}
+
+	if (normalizeForMatch(currentText).includes(normalizeForMatch(params.oldText))) {
+		return undefined;
+	}
+
+	const pathKnowledge = buildKnowledgeForLeaf(ctx.sessionManager, runtimeState).get(pathKey);
+	const trust = pathKnowledge?.get(SCOPE_FULL) ?? selectLatestTrust(...(pathKnowledge?.values() ?? []));
+	if (!trust) {
+		return undefined;
+	}
+
+	if (trust.hash === hashBytes(currentBytes)) {
+		return `[readcache: ${params.path} is unchanged since you last read it; oldText does not match that content]`;
+	}
+
+	let baseText: string | undefined;
+	try {
+		const baseObject = await store.get(trust.hash);
+		baseText = baseObject.status === "found" ? baseObject.text : undefined;
+	} catch {
+		baseText = undefined;
+	}
+	if (baseText === undefined) {
+		return undefined;
+	}
+
+	const largestBytes = Math.max(Buffer.byteLength(baseText, "utf-8"), currentBytes.byteLength);
+	const maxLines = Math.max(splitLines(baseText).length, splitLines(currentText).length);
+	if (largestBytes > config.diff.maxFileBytes || maxLines > config.diff.maxFileLines) {
+		return undefined;
+	}
+
+	const diff = computeUnifiedDiff(baseText, currentText, params.path);
+	if (!diff || !isDiffUseful(diff.diffText, baseText, currentText, config.diff)) {
+		return undefined;
+	}
+
+	const payload = `[readcache: ${params.path} changed since you last read it; ${diff.changedLines} lines differ]\n${diff.diffText}`;
+	const truncation = truncateForReadcache(payload);
+	return truncation.truncated ? undefined : truncation.content;
+}
+
+export function createEditOverrideTool(
+	runtimeState: ReplayRuntimeState = createReplayRuntimeState(),
+	getConfig: ReadcacheConfigProvider = defaultReadcacheConfig,
+	getStore: ReadcacheObjectStoreProvider = defaultReadcacheObjectStore,
+) {
+	return {
+		name: "edit",
+		label: "edit",
+		description: buildEditDescription(),
+		parameters: editToolSchema,
+		execute: async (
+			toolCallId: string,
+			params: EditToolParams,
+			signal?: AbortSignal,
+			onUpdate?: (partial: AgentToolResult<EditToolDetails | undefined>) => void,
+			ctx?: ExtensionContext,
+		): Promise<AgentToolResult<EditToolDetails | undefined>> => {
+			if (!ctx) {
+				throw new Error("edit override requires extension context");
+			}
+
+			const baseline = createEditTool(ctx.cwd);
+			try {
+				return await baseline.execute(toolCallId, params, signal, onUpdate);
+			} catch (error) {
+				if (signal?.aborted) {
+					throw error;
+				}
+
+				let drift: string | undefined;
+				try {
+					drift = await describeEditDrift(runtimeState, getConfig(), getStore(ctx.cwd), ctx, params);
+				} catch {
+					// Fail-open: drift reporting must never mask the original edit error.
+					drift = undefined;
+				}
+				if (drift === undefined) {
+					throw error;
+				}
+
+				const message = error instanceof Error ? error.message : String(error);
+				throw new Error(`${message}\n${drift}`);
+			}
+		},
+	};
+}
@@ -0,0 +1,175 @@
+import { readFile, stat } from "node:fs/promises";
+import { relative } from "node:path";
+import type { ExtensionAPI } from "@mariozechner/pi-coding-agent";
+import { READCACHE_STALE_NOTICE_MAX_PATHS } from "./constants.js";
+import { hashBytes } from "./object-store.js";
+import { resolveToCwd } from "./path.js";
+import { selectLatestTrust } from "./range-index.js";
+import { buildKnowledgeForLeaf, type ReplayRuntimeState } from "./replay.js";
+import type { KnowledgeView } from "./types.js";
+import type { TrackedPathWatcher } from "./watcher.js";
+
+const STALE_MESSAGE_TYPE = "pi-readcache-stale";
+
+export interface ExternalChange {
+	pathKey: string;
+	trustedHash: string;
+	kind: "modified" | "deleted";
+}
+
+interface FileFingerprint {
+	mtimeMs: number;
+	size: number;
+	hash: string;
+	watchVersion?: number;
+}
+
+export interface ExternalChangeState {
+	fingerprints: Map<string, FileFingerprint>;
+	// Content the agent's own edit or write left on disk, which is not an external change even without trust for it.
+	agentWrittenHashes: Map<string, string>;
+}
+
+export function createExternalChangeState(): ExternalChangeState {
+	return {
+		fingerprints: new Map(),
+		agentWrittenHashes: new Map(),
+	};
+}
+
+async function hashCurrentFile(
+	state: ExternalChangeState,
+	pathKey: string,
+	watcher: TrackedPathWatcher | undefined,
+): Promise<string | null | undefined> {
+	const watchVersion = watcher?.getVersion(pathKey);
+	const known = state.fingerprints.get(pathKey);
+	if (known && watchVersion !== undefined && known.watchVersion === watchVersion) {
+		return known.hash;
+	}
+
+	let stats: Awaited<ReturnType<typeof stat>>;
+	try {
+		stats = await stat(pathKey);
+	} catch (error) {
+		state.fingerprints.delete(pathKey);
+		return (error as NodeJS.ErrnoException).code === "ENOENT" ? null : undefined;
+	}
+
+	const cached = state.fingerprints.get(pathKey);
+	let hash: string;
+	if (cached && cached.mtimeMs === stats.mtimeMs && cached.size === stats.size) {
+		hash = cached.hash;
+	} else {
+		try {
+			hash = hashBytes(await readFile(pathKey));
+		} catch {
+			return undefined;
+		}
+	}
+
+	state.fingerprints.set(pathKey, {
+		mtimeMs: stats.mtimeMs,
+		size: stats.size,
+		hash,
+		...(watchVersion !== undefined ? { watchVersion } : {}),
+	});
+	return hash;
+}
+
+export async function detectExternalChanges(
+	knowledge: KnowledgeView,
+	state: ExternalChangeState,
+	watcher?: TrackedPathWatcher,
+): Promise<ExternalChange[]> {
+	const changes: ExternalChange[] = [];
+	const pathKeys = [...knowledge.keys()].sort();
+	for (const pathKey of pathKeys) {
+		const trust = selectLatestTrust(...(knowledge.get(pathKey)?.values() ?? []));
+		if (!trust) {
+			continue;
+		}
+
+		const currentHash = await hashCurrentFile(state, pathKey, watcher);
+		if (currentHash === trust.hash) {
+			state.agentWrittenHashes.delete(pathKey);
+			watcher?.markClean(pathKey);
+		} else if (currentHash !== undefined && currentHash === state.agentWrittenHashes.get(pathKey)) {
+			watcher?.markClean(pathKey);
+		} else if (currentHash === null) {
+			changes.push({ pathKey, trustedHash: trust.hash, kind: "deleted" });
+		} else if (currentHash !== undefined && currentHash !== trust.hash) {
+			changes.push({ pathKey, trustedHash: trust.hash, kind: "modified" });
+		}
+	}
+	return changes;
+}
+
+export function formatExternalChangeNotice(changes: readonly ExternalChange[], cwd: string): string {
+	const shown = changes.slice(0, READCACHE_STALE_NOTICE_MAX_PATHS);
+	const lines = [`[readcache: ${changes.length} previously read file(s) changed on disk since last read; re-read before relying on earlier content]`];
+	for (const change of shown) {
+		lines.push(`- ${relative(cwd, change.pathKey) || change.pathKey} (${change.kind})`);
+	}
+	if (changes.length > shown.length) {
+		lines.push(`- ... and ${changes.length - shown.length} more`);
+	}
+	return lines.join("\n");
+}
+
+async function recordAgentWrite(state: ExternalChangeState, pathKey: string): Promise<void> {
+	try {
+		state.agentWrittenHashes.set(pathKey, hashBytes(await readFile(pathKey)));
+	} catch {
+		state.agentWrittenHashes.delete(pathKey);
+	}
+}
+
+export function registerExternalChangeNotices(
+	pi: ExtensionAPI,
+	runtimeState: ReplayRuntimeState,
+	getWatcher: () => TrackedPathWatcher | undefined = () => undefined,
+	state: ExternalChangeState = createExternalChangeState(),
+): void {
+	// Another branch never made this session's edits, so its trust gets no pass for them.
+	const forgetAgentWrites = (): void => {
+		state.agentWrittenHashes.clear();
+	};
+	pi.on("session_tree", forgetAgentWrites);
+	pi.on("session_fork", forgetAgentWrites);
+	pi.on("session_switch", forgetAgentWrites);
+
+	pi.on("tool_result", async (event, ctx) => {
+		if ((event.toolName !== "edit" && event.toolName !== "write") || event.isError) {
+			return;
+		}
+		const inputPath = event.input.path;
+		if (typeof inputPath === "string" && inputPath.length > 0) {
+			await recordAgentWrite(state, resolveToCwd(inputPath, ctx.cwd));
+		}
+	});
+
+	// Checked once as each user turn starts; the notice then stays in that turn's context for every LLM call.
+	pi.on("before_agent_start", async (_event, ctx) => {
+		try {
+			const knowledge = buildKnowledgeForLeaf(ctx.sessionManager, runtimeState);
+			const watcher = getWatcher();
+			watcher?.sync(knowledge.keys());
+			const changes = await detectExternalChanges(knowledge, state, watcher);
+			if (changes.length === 0) {
+				return undefined;
+			}
+
+			return {
+				message: {
+					customType: STALE_MESSAGE_TYPE,
+					content: formatExternalChangeNotice(changes, ctx.cwd),
+					display: false,
+				},
+			};
+		} catch {
+			// Fail-open: change detection must never block a turn.
+			return undefined;
+		}
+	});
+}
@@ -0,0 +1,126 @@
+import { readdir, readFile } from "node:fs/promises";
+import { join } from "node:path";
+import {
+	migrateSessionEntries,
+	parseSessionEntries,
+	type ExtensionContext,
+	type FileEntry,
+	type SessionEntry,
+} from "@mariozechner/pi-coding-agent";
+import {
+	extractCompactionManifestFromSessionEntry,
+	extractDerivedTrustFromSessionEntry,
+	extractReadMetaFromSessionEntry,
+} from "./meta.js";
+import type { CollectGarbageResult } from "./object-store.js";
+import { buildKnowledgeForLeaf, type ReplayRuntimeState } from "./replay.js";
+import type { ReadcacheObjectStore } from "./store.js";
+
+const SESSION_FILE_SUFFIX = ".jsonl";
+
+export interface ReferencedHashes {
+	hashes: Set<string>;
+	sessionFiles: number;
+}
+
+export interface ReadcacheGcReport extends CollectGarbageResult {
+	referencedHashes: number;
+	sessionFiles: number;
+}
+
+function isSessionEntry(entry: FileEntry): entry is SessionEntry {
+	return entry.type !== "session";
+}
+
+function addServedHash(entry: SessionEntry, hashes: Set<string>): void {
+	const meta = extractReadMetaFromSessionEntry(entry);
+	if (meta) {
+		hashes.add(meta.servedHash);
+		return;
+	}
+	const derived = extractDerivedTrustFromSessionEntry(entry);
+	if (derived) {
+		hashes.add(derived.servedHash);
+		return;
+	}
+	const manifest = extractCompactionManifestFromSessionEntry(entry);
+	for (const [, , hash] of manifest?.carried ?? []) {
+		hashes.add(hash);
+	}
+}
+
+export function collectReplayWindowHashes(entries: readonly SessionEntry[], hashes = new Set<string>()): Set<string> {
+	const byId = new Map(entries.map((entry) => [entry.id, entry]));
+	const parentIds = new Set(entries.map((entry) => entry.parentId));
+	const visited = new Set<string>();
+
+	// Any leaf can become the active branch again via /tree, so every leaf's replay window counts.
+	for (const leaf of entries) {
+		if (parentIds.has(leaf.id)) {
+			continue;
+		}
+		let current: SessionEntry | undefined = leaf;
+		while (current && current.type !== "compaction" && !visited.has(current.id)) {
+			visited.add(current.id);
+			addServedHash(current, hashes);
+			current = current.parentId ? byId.get(current.parentId) : undefined;
+		}
+	}
+	return hashes;
+}
+
+async function listSessionFiles(sessionDir: string): Promise<string[]> {
+	if (!sessionDir) {
+		return [];
+	}
+	try {
+		const entries = await readdir(sessionDir, { withFileTypes: true });
+		return entries
+			.filter((entry) => entry.isFile() && entry.name.endsWith(SESSION_FILE_SUFFIX))
+			.map((entry) => join(sessionDir, entry.name))
+			.sort();
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+			return [];
+		}
+		throw error;
+	}
+}
+
+export async function collectReferencedHashes(
+	sessionManager: ExtensionContext["sessionManager"],
+	runtimeState: ReplayRuntimeState,
+): Promise<ReferencedHashes> {
+	const hashes = new Set<string>();
+	for (const scopes of buildKnowledgeForLeaf(sessionManager, runtimeState).values()) {
+		for (const trust of scopes.values()) {
+			hashes.add(trust.hash);
+		}
+	}
+	collectReplayWindowHashes(sessionManager.getEntries(), hashes);
+
+	// Unreadable session files abort the scan: collecting without them could delete live objects.
+	const sessionFiles = await listSessionFiles(sessionManager.getSessionDir());
+	for (const sessionFile of sessionFiles) {
+		const fileEntries = parseSessionEntries(await readFile(sessionFile, "utf-8"));
+		migrateSessionEntries(fileEntries);
+		collectReplayWindowHashes(fileEntries.filter(isSessionEntry), hashes);
+	}
+
+	return { hashes, sessionFiles: sessionFiles.length };
+}
+
+export async function runReadcacheGc(
+	store: ReadcacheObjectStore,
+	sessionManager: ExtensionContext["sessionManager"],
+	runtimeState: ReplayRuntimeState,
+	dryRun: boolean,
+): Promise<ReadcacheGcReport> {
+	const referenced = await collectReferencedHashes(sessionManager, runtimeState);
+	const result = await store.collectGarbage(referenced.hashes, { dryRun });
+	return {
+		...result,
+		referencedHashes: referenced.hashes.size,
+		sessionFiles: referenced.sessionFiles,
+	};
+}
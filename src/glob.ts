@@ -0,0 +1,184 @@
+import { relative, sep } from "node:path";
+
+export interface CompiledPathPattern {
+	source: string;
+	negated: boolean;
+	directoryOnly: boolean;
+	regex: RegExp;
+}
+
+const REGEX_SPECIAL_RE = /[.+^${}()|\\]/;
+
+function escapeRegexChar(char: string): string {
+	return REGEX_SPECIAL_RE.test(char) ? `\\${char}` : char;
+}
+
+function translateCharClass(glob: string, openIndex: number): { source: string; nextIndex: number } | undefined {
+	let index = openIndex + 1;
+	let negated = false;
+	if (glob[index] === "!" || glob[index] === "^") {
+		negated = true;
+		index += 1;
+	}
+
+	let body = "";
+	let first = true;
+	for (; index < glob.length; index += 1) {
+		const char = glob[index];
+		if (char === "]" && !first) {
+			return { source: `[${negated ? "^" : ""}${body}]`, nextIndex: index + 1 };
+		}
+		if (char === "/") {
+			return undefined;
+		}
+		body += char === "\\" || char === "]" || char === "[" || char === "^" ? `\\${char}` : char;
+		first = false;
+	}
+	return undefined;
+}
+
+function translateGlob(glob: string): string {
+	let source = "";
+	let index = 0;
+
+	while (index < glob.length) {
+		const char = glob[index] as string;
+
+		if (char === "*") {
+			if (glob[index + 1] === "*") {
+				const atSegmentStart = index === 0 || glob[index - 1] === "/";
+				const next = glob[index + 2];
+				if (atSegmentStart && next === "/") {
+					source += "(?:.*/)?";
+					index += 3;
+					continue;
+				}
+				if (atSegmentStart && next === undefined) {
+					source += ".*";
+					index += 2;
+					continue;
+				}
+				source += "[^/]*";
+				index += 2;
+				continue;
+			}
+			source += "[^/]*";
+			index += 1;
+			continue;
+		}
+
+		if (char === "?") {
+			source += "[^/]";
+			index += 1;
+			continue;
+		}
+
+		if (char === "[") {
+			const charClass = translateCharClass(glob, index);
+			if (charClass) {
+				source += charClass.source;
+				index = charClass.nextIndex;
+				continue;
+			}
+			source += "\\[";
+			index += 1;
+			continue;
+		}
+
+		if (char === "\\" && index + 1 < glob.length) {
+			source += escapeRegexChar(glob[index + 1] as string);
+			index += 2;
+			continue;
+		}
+
+		source += escapeRegexChar(char);
+		index += 1;
+	}
+
+	return source;
+}
+
+export function compilePathPattern(pattern: string): CompiledPathPattern | undefined {
+	let body = pattern.trim();
+	let negated = false;
+	if (body.startsWith("!")) {
+		negated = true;
+		body = body.slice(1);
+	} else if (body.startsWith("\\!")) {
+		body = body.slice(1);
+	}
+
+	let directoryOnly = false;
+	if (body.endsWith("/")) {
+		directoryOnly = true;
+		body = body.replace(/\/+$/, "");
+	}
+
+	let anchored = body.includes("/");
+	if (body.startsWith("/")) {
+		anchored = true;
+		body = body.replace(/^\/+/, "");
+	}
+
+	if (body.length === 0) {
+		return undefined;
+	}
+
+	const translated = translateGlob(body);
+	const regex = new RegExp(anchored ? `^${translated}$` : `^(?:.*/)?${translated}$`, "i");
+	return {
+		source: pattern,
+		negated,
+		directoryOnly,
+		regex,
+	};
+}
+
+export function compilePathPatterns(patterns: readonly string[]): CompiledPathPattern[] {
+	const compiled: CompiledPathPattern[] = [];
+	for (const pattern of patterns) {
+		const entry = compilePathPattern(pattern);
+		if (entry) {
+			compiled.push(entry);
+		}
+	}
+	return compiled;
+}
+
+export function toPatternPath(absolutePath: string, repoRoot: string): string {
+	return relative(repoRoot, absolutePath).split(sep).join("/");
+}
+
+function ancestorDirectories(patternPath: string): string[] {
+	const segments = patternPath.split("/");
+	const ancestors: string[] = [];
+	for (let index = 1; index < segments.length; index += 1) {
+		const last = segments[index - 1];
+		if (last === "." || last === ".." || last === "") {
+			continue;
+		}
+		ancestors.push(segments.slice(0, index).join("/"));
+	}
+	return ancestors;
+}
+
+function patternMatches(pattern: CompiledPathPattern, patternPath: string, ancestors: string[]): boolean {
+	if (!pattern.directoryOnly && pattern.regex.test(patternPath)) {
+		return true;
+	}
+	return ancestors.some((ancestor) => pattern.regex.test(ancestor));
+}
+
+export function matchPathPatterns(
+	patternPath: string,
+	patterns: readonly CompiledPathPattern[],
+): CompiledPathPattern | undefined {
+	const ancestors = ancestorDirectories(patternPath);
+	let matched: CompiledPathPattern | undefined;
+	for (const pattern of patterns) {
+		if (patternMatches(pattern, patternPath, ancestors)) {
+			matched = pattern;
+		}
+	}
+	return matched;
+}
@@ -0,0 +1,166 @@
+import { mkdir, open, readdir, readFile, rename, unlink } from "node:fs/promises";
+import { join } from "node:path";
+import type { ExtensionContext } from "@mariozechner/pi-coding-agent";
+import { READCACHE_LEASES_DIR } from "./constants.js";
+import { buildKnowledgeForLeaf, type ReplayRuntimeState } from "./replay.js";
+import type { ReadcacheObjectStore } from "./store.js";
+import { isProcessAlive } from "./store-lock.js";
+
+const HASH_HEX_RE = /^[a-f0-9]{64}$/;
+const LEASE_FILE_SUFFIX = ".json";
+
+export interface ReadcacheLeaseV1 {
+	v: 1;
+	pid: number;
+	sessionId: string;
+	updatedAt: number;
+	hashes: string[];
+}
+
+export interface LeasedHashes {
+	hashes: Set<string>;
+	liveLeases: number;
+	staleLeasesRemoved: number;
+}
+
+function isReadcacheLeaseV1(value: unknown): value is ReadcacheLeaseV1 {
+	if (!value || typeof value !== "object") {
+		return false;
+	}
+	const candidate = value as Partial<ReadcacheLeaseV1>;
+	return (
+		candidate.v === 1 &&
+		typeof candidate.pid === "number" &&
+		Number.isInteger(candidate.pid) &&
+		candidate.pid > 0 &&
+		typeof candidate.sessionId === "string" &&
+		typeof candidate.updatedAt === "number" &&
+		Array.isArray(candidate.hashes) &&
+		candidate.hashes.every((hash) => typeof hash === "string" && HASH_HEX_RE.test(hash))
+	);
+}
+
+export function leasePathFor(storeRoot: string, pid: number, sessionId: string): string {
+	const safeSessionId = sessionId.replace(/[^A-Za-z0-9_-]/g, "_");
+	return join(storeRoot, READCACHE_LEASES_DIR, `${pid}-${safeSessionId}${LEASE_FILE_SUFFIX}`);
+}
+
+export async function writeLease(storeRoot: string, lease: ReadcacheLeaseV1): Promise<void> {
+	const leasesDir = join(storeRoot, READCACHE_LEASES_DIR);
+	await mkdir(leasesDir, { recursive: true, mode: 0o700 });
+	const leasePath = leasePathFor(storeRoot, lease.pid, lease.sessionId);
+	const tempPath = `${leasePath}.${Math.random().toString(16).slice(2)}.tmp`;
+	try {
+		const handle = await open(tempPath, "wx", 0o600);
+		try {
+			await handle.writeFile(JSON.stringify(lease), "utf-8");
+		} finally {
+			await handle.close();
+		}
+		await rename(tempPath, leasePath);
+	} catch (error) {
+		await unlink(tempPath).catch(() => undefined);
+		throw error;
+	}
+}
+
+export async function removeLease(storeRoot: string, pid: number, sessionId: string): Promise<void> {
+	try {
+		await unlink(leasePathFor(storeRoot, pid, sessionId));
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+			throw error;
+		}
+	}
+}
+
+export async function collectLeasedHashes(
+	storeRoot: string,
+	isAlive: (pid: number) => boolean = isProcessAlive,
+): Promise<LeasedHashes> {
+	const leasesDir = join(storeRoot, READCACHE_LEASES_DIR);
+	const result: LeasedHashes = { hashes: new Set(), liveLeases: 0, staleLeasesRemoved: 0 };
+	let names: string[];
+	try {
+		names = await readdir(leasesDir);
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+			return result;
+		}
+		throw error;
+	}
+
+	for (const name of names) {
+		if (!name.endsWith(LEASE_FILE_SUFFIX)) {
+			continue;
+		}
+		const leasePath = join(leasesDir, name);
+		let lease: unknown;
+		try {
+			lease = JSON.parse(await readFile(leasePath, "utf-8"));
+		} catch {
+			// A lease removed or replaced mid-scan belongs to a session that is still moving.
+			continue;
+		}
+		if (!isReadcacheLeaseV1(lease)) {
+			continue;
+		}
+		if (!isAlive(lease.pid)) {
+			await unlink(leasePath).then(
+				() => {
+					result.staleLeasesRemoved += 1;
+				},
+				() => undefined,
+			);
+			continue;
+		}
+		result.liveLeases += 1;
+		for (const hash of lease.hashes) {
+			result.hashes.add(hash);
+		}
+	}
+	return result;
+}
+
+export async function refreshSessionLease(
+	store: ReadcacheObjectStore,
+	sessionManager: ExtensionContext["sessionManager"],
+	runtimeState: ReplayRuntimeState,
+): Promise<void> {
+	const hashes = new Set<string>();
+	for (const scopes of buildKnowledgeForLeaf(sessionManager, runtimeState).values()) {
+		for (const trust of scopes.values()) {
+			hashes.add(trust.hash);
+		}
+	}
+	await store.renewLease(sessionManager.getSessionId(), [...hashes].sort());
+}
+
+export interface SessionLeaseKeeper {
+	renew(store: ReadcacheObjectStore, sessionManager: ExtensionContext["sessionManager"]): Promise<void>;
+	release(): Promise<void>;
+}
+
+export function createSessionLeaseKeeper(runtimeState: ReplayRuntimeState): SessionLeaseKeeper {
+	let held: { store: ReadcacheObjectStore; sessionId: string } | undefined;
+
+	const release = async (): Promise<void> => {
+		const current = held;
+		held = undefined;
+		if (current) {
+			await current.store.releaseLease(current.sessionId);
+		}
+	};
+
+	return {
+		async renew(store, sessionManager) {
+			const sessionId = sessionManager.getSessionId();
+			if (held && (held.store.location !== store.location || held.sessionId !== sessionId)) {
+				await release();
+			}
+			await refreshSessionLease(store, sessionManager, runtimeState);
+			held = { store, sessionId };
+		},
+		release,
+	};
+}
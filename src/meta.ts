@@ -1,11 +1,19 @@
 import type { SessionEntry } from "@mariozechner/pi-coding-agent";
 import { READCACHE_CUSTOM_TYPE, READCACHE_META_VERSION, SCOPE_FULL } from "./constants.js";
 import type {
+	PathPolicy,
+	ReadCacheCheckpointV1,
+	ReadCacheCompactionManifestV1,
 	ReadCacheDebugV1,
+	ReadCacheDerivedSource,
+	ReadCacheDerivedTrustV1,
 	ReadCacheInvalidationV1,
 	ReadCacheMetaV1,
 	ReadCacheMode,
+	ReadCacheModeChangeV1,
+	ReadCacheRuntimeMode,
 	ScopeKey,
+	ScopeRangeKey,
 } from "./types.js";
 
 const RANGE_SCOPE_RE = /^r:(\d+):(\d+)$/;
@@ -35,6 +43,12 @@ function normalizeReadCacheMode(value: unknown): ReadCacheMode | undefined {
 	if (value === "diff") {
 		return "diff";
 	}
+	if (value === "diff_range") {
+		return "diff_range";
+	}
+	if (value === "moved_range") {
+		return "moved_range";
+	}
 	if (value === "baseline_fallback") {
 		return "baseline_fallback";
 	}
@@ -46,15 +60,31 @@ function isReadCacheDebugReason(value: unknown): value is ReadCacheDebugV1["reas
 		value === "no_base_hash" ||
 		value === "hash_match" ||
 		value === "base_object_missing" ||
+		value === "base_object_corrupt" ||
 		value === "range_slice_unchanged" ||
 		value === "range_slice_changed" ||
+		value === "range_slice_moved" ||
 		value === "diff_file_too_large_bytes" ||
 		value === "diff_file_too_large_lines" ||
 		value === "diff_unavailable_or_empty" ||
 		value === "diff_not_useful" ||
 		value === "diff_payload_truncated" ||
 		value === "diff_emitted" ||
-		value === "bypass_cache"
+		value === "bypass_cache" ||
+		value === "path_excluded" ||
+		value === "path_policy" ||
+		value === "mode_off" ||
+		value === "mode_paused"
+	);
+}
+
+function isOptionalPathPolicy(value: unknown): value is PathPolicy | undefined {
+	return (
+		value === undefined ||
+		value === "default" ||
+		value === "no_diff" ||
+		value === "always_full" ||
+		value === "unchanged_only"
 	);
 }
 
@@ -62,6 +92,10 @@ function isOptionalBoolean(value: unknown): value is boolean | undefined {
 	return value === undefined || typeof value === "boolean";
 }
 
+function isOptionalNonEmptyString(value: unknown): value is string | undefined {
+	return value === undefined || (typeof value === "string" && value.length > 0);
+}
+
 function isOptionalPositiveInteger(value: unknown): value is number | undefined {
 	return value === undefined || isPositiveInteger(value);
 }
@@ -93,7 +127,10 @@ function isReadCacheDebugV1(value: unknown): value is ReadCacheDebugV1 {
 		isOptionalPositiveInteger(value.largestBytes) &&
 		isOptionalPositiveInteger(value.maxLines) &&
 		isOptionalNonNegativeInteger(value.diffBytes) &&
-		isOptionalNonNegativeInteger(value.diffChangedLines)
+		isOptionalNonNegativeInteger(value.diffChangedLines) &&
+		isOptionalNonEmptyString(value.excludedBy) &&
+		isOptionalPathPolicy(value.policy) &&
+		isOptionalNonEmptyString(value.policyPattern)
 	);
 }
 
@@ -121,6 +158,10 @@ export function isScopeKey(value: unknown): value is ScopeKey {
 	return Number.isInteger(start) && Number.isInteger(end) && start > 0 && end >= start;
 }
 
+function isRangeScopeKey(value: unknown): value is ScopeRangeKey {
+	return value !== SCOPE_FULL && isScopeKey(value);
+}
+
 function parseReadCacheMetaV1(value: unknown): ReadCacheMetaV1 | undefined {
 	if (!isRecord(value)) {
 		return undefined;
@@ -147,7 +188,24 @@ function parseReadCacheMetaV1(value: unknown): ReadCacheMetaV1 | undefined {
 		return undefined;
 	}
 
-	const requiresBaseHash = mode === "unchanged" || mode === "unchanged_range" || mode === "diff";
+	if ((mode === "diff_range" || mode === "moved_range") && value.scopeKey === SCOPE_FULL) {
+		return undefined;
+	}
+
+	if (mode === "moved_range") {
+		if (!isRangeScopeKey(value.movedFromScopeKey) || value.movedFromScopeKey === value.scopeKey) {
+			return undefined;
+		}
+	} else if (value.movedFromScopeKey !== undefined) {
+		return undefined;
+	}
+
+	const requiresBaseHash =
+		mode === "unchanged" ||
+		mode === "unchanged_range" ||
+		mode === "diff" ||
+		mode === "diff_range" ||
+		mode === "moved_range";
 	if (requiresBaseHash) {
 		if (typeof value.baseHash !== "string" || value.baseHash.length === 0) {
 			return undefined;
@@ -173,6 +231,7 @@ function parseReadCacheMetaV1(value: unknown): ReadCacheMetaV1 | undefined {
 		scopeKey: value.scopeKey,
 		servedHash: value.servedHash,
 		...(typeof value.baseHash === "string" ? { baseHash: value.baseHash } : {}),
+		...(isRangeScopeKey(value.movedFromScopeKey) ? { movedFromScopeKey: value.movedFromScopeKey } : {}),
 		mode,
 		totalLines: value.totalLines,
 		rangeStart: value.rangeStart,
@@ -201,6 +260,125 @@ export function isReadCacheInvalidationV1(value: unknown): value is ReadCacheInv
 	);
 }
 
+export function isReadCacheRuntimeMode(value: unknown): value is ReadCacheRuntimeMode {
+	return value === "on" || value === "off" || value === "paused";
+}
+
+export function isReadCacheModeChangeV1(value: unknown): value is ReadCacheModeChangeV1 {
+	if (!isRecord(value)) {
+		return false;
+	}
+
+	return (
+		value.v === READCACHE_META_VERSION &&
+		value.kind === "mode" &&
+		isReadCacheRuntimeMode(value.mode) &&
+		isPositiveInteger(value.at)
+	);
+}
+
+export function isReadCacheDerivedTrustV1(value: unknown): value is ReadCacheDerivedTrustV1 {
+	if (!isRecord(value)) {
+		return false;
+	}
+
+	if (value.v !== READCACHE_META_VERSION || value.kind !== "derived") {
+		return false;
+	}
+
+	if (value.source !== "edit" && value.source !== "write") {
+		return false;
+	}
+
+	if (value.source === "edit" && (typeof value.baseHash !== "string" || value.baseHash.length === 0)) {
+		return false;
+	}
+
+	return (
+		typeof value.pathKey === "string" &&
+		value.pathKey.length > 0 &&
+		typeof value.servedHash === "string" &&
+		value.servedHash.length > 0 &&
+		isOptionalNonEmptyString(value.baseHash) &&
+		isPositiveInteger(value.at)
+	);
+}
+
+function isCheckpointTrustTuple(value: unknown, checkpointSeq: number): boolean {
+	if (!Array.isArray(value) || value.length !== 4) {
+		return false;
+	}
+	const [pathKey, scopeKey, hash, seq] = value as unknown[];
+	return (
+		typeof pathKey === "string" &&
+		pathKey.length > 0 &&
+		isScopeKey(scopeKey) &&
+		typeof hash === "string" &&
+		hash.length > 0 &&
+		isPositiveInteger(seq) &&
+		seq <= checkpointSeq
+	);
+}
+
+function isCheckpointBlockerTuple(value: unknown): boolean {
+	if (!Array.isArray(value) || value.length !== 2) {
+		return false;
+	}
+	const [pathKey, scopeKey] = value as unknown[];
+	return typeof pathKey === "string" && pathKey.length > 0 && isRangeScopeKey(scopeKey);
+}
+
+export function isReadCacheCheckpointV1(value: unknown): value is ReadCacheCheckpointV1 {
+	if (!isRecord(value)) {
+		return false;
+	}
+
+	if (value.v !== READCACHE_META_VERSION || value.kind !== "checkpoint" || !isReadCacheRuntimeMode(value.mode)) {
+		return false;
+	}
+
+	const checkpointSeq = value.seq;
+	if (!isNonNegativeInteger(checkpointSeq) || !Array.isArray(value.trust) || !Array.isArray(value.blocked)) {
+		return false;
+	}
+
+	// Turning readcache off drops all trust, so an "off" checkpoint carrying any is not one replay produced.
+	if (value.mode === "off" && (value.trust.length > 0 || value.blocked.length > 0)) {
+		return false;
+	}
+
+	return (
+		value.trust.every((tuple) => isCheckpointTrustTuple(tuple, checkpointSeq)) &&
+		value.blocked.every(isCheckpointBlockerTuple) &&
+		(value.relaxed === undefined || value.relaxed === true) &&
+		isPositiveInteger(value.at)
+	);
+}
+
+function isCarriedTrustTuple(value: unknown): boolean {
+	if (!Array.isArray(value) || value.length !== 3) {
+		return false;
+	}
+	const [pathKey, scopeKey, hash] = value as unknown[];
+	return typeof pathKey === "string" && pathKey.length > 0 && isScopeKey(scopeKey) && typeof hash === "string" && hash.length > 0;
+}
+
+export function isReadCacheCompactionManifestV1(value: unknown): value is ReadCacheCompactionManifestV1 {
+	if (!isRecord(value)) {
+		return false;
+	}
+
+	return (
+		value.v === READCACHE_META_VERSION &&
+		value.kind === "compaction_manifest" &&
+		typeof value.compactionId === "string" &&
+		value.compactionId.length > 0 &&
+		Array.isArray(value.carried) &&
+		value.carried.every(isCarriedTrustTuple) &&
+		isPositiveInteger(value.at)
+	);
+}
+
 export function buildReadCacheMetaV1(meta: Omit<ReadCacheMetaV1, "v">): ReadCacheMetaV1 {
 	return {
 		v: READCACHE_META_VERSION,
@@ -218,6 +396,67 @@ export function buildInvalidationV1(pathKey: string, scopeKey: ScopeKey, at = Da
 	};
 }
 
+export function buildModeChangeV1(mode: ReadCacheRuntimeMode, at = Date.now()): ReadCacheModeChangeV1 {
+	return {
+		v: READCACHE_META_VERSION,
+		kind: "mode",
+		mode,
+		at,
+	};
+}
+
+export function buildDerivedTrustV1(
+	source: ReadCacheDerivedSource,
+	pathKey: string,
+	servedHash: string,
+	baseHash?: string,
+	at = Date.now(),
+): ReadCacheDerivedTrustV1 {
+	return {
+		v: READCACHE_META_VERSION,
+		kind: "derived",
+		source,
+		pathKey,
+		servedHash,
+		...(baseHash !== undefined ? { baseHash } : {}),
+		at,
+	};
+}
+
+export function buildCheckpointV1(
+	mode: ReadCacheRuntimeMode,
+	seq: number,
+	trust: ReadCacheCheckpointV1["trust"],
+	blocked: ReadCacheCheckpointV1["blocked"],
+	relaxed = false,
+	at = Date.now(),
+): ReadCacheCheckpointV1 {
+	return {
+		v: READCACHE_META_VERSION,
+		kind: "checkpoint",
+		mode,
+		seq,
+		trust,
+		blocked,
+		...(relaxed ? { relaxed: true as const } : {}),
+		at,
+	};
+}
+
+export function buildCompactionManifestV1(
+	compactionId: string,
+	carried: ReadCacheCompactionManifestV1["carried"],
+	at = Date.now(),
+): ReadCacheCompactionManifestV1 {
+	return {
+		v: READCACHE_META_VERSION,
+		kind: "compaction_manifest",
+		compactionId,
+		carried,
+		at,
+	};
+}
+
 export function extractReadMetaFromSessionEntry(entry: SessionEntry): ReadCacheMetaV1 | undefined {
 	if (entry.type !== "message") {
 		return undefined;
@@ -247,3 +486,51 @@ export function extractInvalidationFromSessionEntry(entry: SessionEntry): ReadCa
 
 	return entry.data;
 }
+
+export function extractModeChangeFromSessionEntry(entry: SessionEntry): ReadCacheModeChangeV1 | undefined {
+	if (entry.type !== "custom" || entry.customType !== READCACHE_CUSTOM_TYPE) {
+		return undefined;
+	}
+
+	if (!isReadCacheModeChangeV1(entry.data)) {
+		return undefined;
+	}
+
+	return entry.data;
+}
+
+export function extractDerivedTrustFromSessionEntry(entry: SessionEntry): ReadCacheDerivedTrustV1 | undefined {
+	if (entry.type !== "custom" || entry.customType !== READCACHE_CUSTOM_TYPE) {
+		return undefined;
+	}
+
+	if (!isReadCacheDerivedTrustV1(entry.data)) {
+		return undefined;
+	}
+
+	return entry.data;
+}
+
+export function extractCheckpointFromSessionEntry(entry: SessionEntry): ReadCacheCheckpointV1 | undefined {
+	if (entry.type !== "custom" || entry.customType !== READCACHE_CUSTOM_TYPE) {
+		return undefined;
+	}
+
+	if (!isReadCacheCheckpointV1(entry.data)) {
+		return undefined;
+	}
+
+	return entry.data;
+}
+
+export function extractCompactionManifestFromSessionEntry(entry: SessionEntry): ReadCacheCompactionManifestV1 | undefined {
+	if (entry.type !== "custom" || entry.customType !== READCACHE_CUSTOM_TYPE) {
+		return undefined;
+	}
+
+	if (!isReadCacheCompactionManifestV1(entry.data)) {
+		return undefined;
+	}
+
+	return entry.data;
+}
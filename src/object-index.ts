@@ -0,0 +1,266 @@
+import { appendFile, open, readFile, rename, unlink } from "node:fs/promises";
+import { join } from "node:path";
+
+export type ObjectFileKind = "keyframe" | "plain" | "delta";
+
+export interface ObjectIndexEntry {
+	hash: string;
+	kind: ObjectFileKind;
+	bytes: number;
+	logicalBytes: number;
+	pathKey?: string;
+	origins?: string[];
+	lastUsedByOrigin?: Record<string, number>;
+	firstSeenAt: number;
+	lastUsedAt: number;
+}
+
+export type ObjectIndexRecordV1 =
+	| {
+			v: 1;
+			op: "put";
+			hash: string;
+			kind: ObjectFileKind;
+			bytes: number;
+			logicalBytes: number;
+			pathKey?: string;
+			origins?: string[];
+			at: number;
+	  }
+	| { v: 1; op: "use"; hash: string; origin?: string; at: number }
+	| { v: 1; op: "release"; hash: string; origin: string; at: number }
+	| { v: 1; op: "delete"; hash: string; kind: ObjectFileKind; at: number };
+
+export interface ObjectIndex {
+	entries: Map<string, ObjectIndexEntry>;
+	records: number;
+}
+
+export interface PathStorageUsage {
+	pathKey: string | undefined;
+	objects: number;
+	bytes: number;
+	logicalBytes: number;
+}
+
+const OBJECT_FILE_KINDS = new Set<unknown>(["keyframe", "plain", "delta"]);
+
+function isNonNegativeInteger(value: unknown): value is number {
+	return typeof value === "number" && Number.isInteger(value) && value >= 0;
+}
+
+function isObjectIndexRecordV1(value: unknown): value is ObjectIndexRecordV1 {
+	if (!value || typeof value !== "object") {
+		return false;
+	}
+	const candidate = value as Record<string, unknown>;
+	if (candidate.v !== 1 || typeof candidate.hash !== "string" || !isNonNegativeInteger(candidate.at)) {
+		return false;
+	}
+	if (candidate.op === "use") {
+		return candidate.origin === undefined || typeof candidate.origin === "string";
+	}
+	if (candidate.op === "release") {
+		return typeof candidate.origin === "string";
+	}
+	if (candidate.op === "delete") {
+		return OBJECT_FILE_KINDS.has(candidate.kind);
+	}
+	return (
+		candidate.op === "put" &&
+		OBJECT_FILE_KINDS.has(candidate.kind) &&
+		isNonNegativeInteger(candidate.bytes) &&
+		isNonNegativeInteger(candidate.logicalBytes) &&
+		(candidate.pathKey === undefined || typeof candidate.pathKey === "string") &&
+		(candidate.origins === undefined ||
+			(Array.isArray(candidate.origins) && candidate.origins.every((origin) => typeof origin === "string")))
+	);
+}
+
+export function objectIndexKey(hash: string, kind: ObjectFileKind): string {
+	return `${hash}:${kind}`;
+}
+
+function mergeOrigins(existing: readonly string[] | undefined, added: readonly string[]): string[] | undefined {
+	const merged = new Set([...(existing ?? []), ...added]);
+	return merged.size > 0 ? [...merged].sort() : undefined;
+}
+
+function recordOriginUse(
+	lastUsedByOrigin: Record<string, number> | undefined,
+	origins: readonly string[],
+	at: number,
+): Record<string, number> | undefined {
+	if (origins.length === 0) {
+		return lastUsedByOrigin;
+	}
+	const updated = { ...lastUsedByOrigin };
+	for (const origin of origins) {
+		updated[origin] = Math.max(updated[origin] ?? at, at);
+	}
+	return updated;
+}
+
+export function applyObjectIndexRecord(entries: Map<string, ObjectIndexEntry>, record: ObjectIndexRecordV1): void {
+	if (record.op === "delete") {
+		entries.delete(objectIndexKey(record.hash, record.kind));
+		return;
+	}
+	if (record.op === "use") {
+		const used = record.origin !== undefined ? [record.origin] : [];
+		for (const kind of OBJECT_FILE_KINDS as Set<ObjectFileKind>) {
+			const entry = entries.get(objectIndexKey(record.hash, kind));
+			if (entry) {
+				entry.lastUsedAt = Math.max(entry.lastUsedAt, record.at);
+				const origins = mergeOrigins(entry.origins, used);
+				if (origins !== undefined) {
+					entry.origins = origins;
+				}
+				const lastUsedByOrigin = recordOriginUse(entry.lastUsedByOrigin, used, record.at);
+				if (lastUsedByOrigin !== undefined) {
+					entry.lastUsedByOrigin = lastUsedByOrigin;
+				}
+			}
+		}
+		return;
+	}
+	if (record.op === "release") {
+		// A later use by the released repo claims the object again.
+		for (const kind of OBJECT_FILE_KINDS as Set<ObjectFileKind>) {
+			const entry = entries.get(objectIndexKey(record.hash, kind));
+			const lastUse = entry?.lastUsedByOrigin?.[record.origin] ?? entry?.lastUsedAt;
+			if (!entry?.origins?.includes(record.origin) || (lastUse !== undefined && lastUse > record.at)) {
+				continue;
+			}
+			entry.origins = entry.origins.filter((origin) => origin !== record.origin);
+			if (entry.lastUsedByOrigin !== undefined) {
+				const remaining = { ...entry.lastUsedByOrigin };
+				delete remaining[record.origin];
+				entry.lastUsedByOrigin = remaining;
+			}
+		}
+		return;
+	}
+
+	const key = objectIndexKey(record.hash, record.kind);
+	const existing = entries.get(key);
+	const pathKey = record.pathKey ?? existing?.pathKey;
+	const origins = mergeOrigins(existing?.origins, record.origins ?? []);
+	const lastUsedByOrigin = recordOriginUse(existing?.lastUsedByOrigin, record.origins ?? [], record.at);
+	entries.set(key, {
+		hash: record.hash,
+		kind: record.kind,
+		bytes: record.bytes,
+		logicalBytes: record.logicalBytes,
+		...(pathKey !== undefined ? { pathKey } : {}),
+		...(origins !== undefined ? { origins } : {}),
+		...(lastUsedByOrigin !== undefined ? { lastUsedByOrigin } : {}),
+		firstSeenAt: Math.min(existing?.firstSeenAt ?? record.at, record.at),
+		lastUsedAt: Math.max(existing?.lastUsedAt ?? record.at, record.at),
+	});
+}
+
+export function parseObjectIndex(content: string): ObjectIndex {
+	const entries = new Map<string, ObjectIndexEntry>();
+	let records = 0;
+	for (const line of content.split("\n")) {
+		if (!line.trim()) {
+			continue;
+		}
+		let parsed: unknown;
+		try {
+			parsed = JSON.parse(line);
+		} catch {
+			// A torn final line from an interrupted append is skipped, not fatal.
+			continue;
+		}
+		if (isObjectIndexRecordV1(parsed)) {
+			applyObjectIndexRecord(entries, parsed);
+			records += 1;
+		}
+	}
+	return { entries, records };
+}
+
+export async function readObjectIndex(indexPath: string): Promise<ObjectIndex | undefined> {
+	try {
+		return parseObjectIndex(await readFile(indexPath, "utf-8"));
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+			return undefined;
+		}
+		throw error;
+	}
+}
+
+function serializeRecords(records: readonly ObjectIndexRecordV1[]): string {
+	return records.map((record) => `${JSON.stringify(record)}\n`).join("");
+}
+
+export async function appendObjectIndexRecords(indexPath: string, records: readonly ObjectIndexRecordV1[]): Promise<void> {
+	if (records.length === 0) {
+		return;
+	}
+	await appendFile(indexPath, serializeRecords(records), { encoding: "utf-8", mode: 0o600 });
+}
+
+export function snapshotObjectIndexRecords(entries: Iterable<ObjectIndexEntry>): ObjectIndexRecordV1[] {
+	const records: ObjectIndexRecordV1[] = [];
+	for (const entry of entries) {
+		records.push({
+			v: 1,
+			op: "put",
+			hash: entry.hash,
+			kind: entry.kind,
+			bytes: entry.bytes,
+			logicalBytes: entry.logicalBytes,
+			...(entry.pathKey !== undefined ? { pathKey: entry.pathKey } : {}),
+			...(entry.origins !== undefined ? { origins: entry.origins } : {}),
+			at: entry.firstSeenAt,
+		});
+		if (entry.lastUsedAt > entry.firstSeenAt) {
+			records.push({ v: 1, op: "use", hash: entry.hash, at: entry.lastUsedAt });
+		}
+		for (const [origin, lastUsedAt] of Object.entries(entry.lastUsedByOrigin ?? {})) {
+			if (lastUsedAt > entry.firstSeenAt) {
+				records.push({ v: 1, op: "use", hash: entry.hash, origin, at: lastUsedAt });
+			}
+		}
+	}
+	return records;
+}
+
+export async function writeObjectIndex(
+	indexPath: string,
+	tmpDir: string,
+	entries: Iterable<ObjectIndexEntry>,
+): Promise<void> {
+	const tempPath = join(tmpDir, `index-${process.pid}-${Date.now()}-${Math.random().toString(16).slice(2)}.tmp`);
+	try {
+		const handle = await open(tempPath, "wx", 0o600);
+		try {
+			await handle.writeFile(serializeRecords(snapshotObjectIndexRecords(entries)), "utf-8");
+			await handle.sync();
+		} finally {
+			await handle.close();
+		}
+		await rename(tempPath, indexPath);
+	} catch (error) {
+		await unlink(tempPath).catch(() => undefined);
+		throw error;
+	}
+}
+
+export function summarizeStorageByPath(entries: Iterable<ObjectIndexEntry>, limit: number): PathStorageUsage[] {
+	const byPath = new Map<string | undefined, PathStorageUsage>();
+	for (const entry of entries) {
+		const usage = byPath.get(entry.pathKey) ?? { pathKey: entry.pathKey, objects: 0, bytes: 0, logicalBytes: 0 };
+		usage.objects += 1;
+		usage.bytes += entry.bytes;
+		usage.logicalBytes += entry.logicalBytes;
+		byPath.set(entry.pathKey, usage);
+	}
+	return [...byPath.values()]
+		.sort((left, right) => right.bytes - left.bytes || (left.pathKey ?? "").localeCompare(right.pathKey ?? ""))
+		.slice(0, limit);
+}
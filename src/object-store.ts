@@ -1,14 +1,65 @@
 import { createHash } from "node:crypto";
 import { constants } from "node:fs";
-import { access, mkdir, open, readdir, readFile, rename, stat, unlink } from "node:fs/promises";
-import { join } from "node:path";
-import { READCACHE_OBJECT_MAX_AGE_MS, READCACHE_OBJECTS_DIR, READCACHE_TMP_DIR } from "./constants.js";
+import { access, chmod, mkdir, open, readdir, readFile, rename, stat, unlink, utimes } from "node:fs/promises";
+import { basename, join } from "node:path";
+import { promisify } from "node:util";
+import { gunzip, gzip } from "node:zlib";
+import {
+	MAX_DIFF_FILE_BYTES,
+	READCACHE_DELTA_MAX_CHAIN,
+	READCACHE_DELTA_OBJECT_SUFFIX,
+	READCACHE_EVICTION_MIN_INTERVAL_MS,
+	READCACHE_GC_GRACE_MS,
+	READCACHE_INDEX_COMPACT_MIN_RECORDS,
+	READCACHE_INDEX_FILE,
+	READCACHE_OBJECT_MAX_AGE_MS,
+	READCACHE_OBJECT_SUFFIX,
+	READCACHE_OBJECTS_DIR,
+	READCACHE_PLAIN_OBJECT_SUFFIX,
+	READCACHE_QUARANTINE_DIR,
+	READCACHE_TMP_DIR,
+	READCACHE_TMP_STALE_MS,
+} from "./constants.js";
+import { applyTextDelta, encodeTextDelta, isTextDeltaOps, type TextDeltaOp } from "./delta.js";
+import {
+	appendObjectIndexRecords,
+	applyObjectIndexRecord,
+	objectIndexKey,
+	readObjectIndex,
+	summarizeStorageByPath,
+	writeObjectIndex,
+	type ObjectFileKind,
+	type ObjectIndexEntry,
+	type ObjectIndexRecordV1,
+	type PathStorageUsage,
+} from "./object-index.js";
+import { collectLeasedHashes } from "./leases.js";
+import { withStoreLock } from "./store-lock.js";
 
 const HASH_HEX_RE = /^[a-f0-9]{64}$/;
+const OBJECT_FILE_RE = /^sha256-([a-f0-9]{64})(\.txt\.gz|\.txt|\.delta\.gz)$/;
+const GZIP_TRAILER_BYTES = 4;
+const MAX_DELTA_TO_TEXT_RATIO = 0.5;
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+const lastEvictionByRoot = new Map<string, number>();
 
 export interface ObjectStorePaths {
 	objectsDir: string;
 	tmpDir: string;
+	quarantineDir: string;
+	indexPath: string;
+}
+
+export interface PersistObjectOptions {
+	deltaBaseHash?: string;
+	quotaBytes?: number;
+	pathKey?: string;
+	origin?: string;
+}
+
+export interface ReadObjectOptions {
+	origin?: string;
 }
 
 export interface PersistObjectResult {
@@ -20,22 +71,113 @@ export interface PersistObjectResult {
 export interface ObjectStoreStats {
 	objects: number;
 	bytes: number;
+	logicalBytes: number;
+	// Only for a store shared across repos: the on-disk bytes of objects only this repo uses, which its quota bounds.
+	ownedBytes?: number;
 }
 
 export interface PruneObjectsResult {
 	scanned: number;
 	deleted: number;
+	released: number;
 	cutoffMs: number;
 }
 
+export interface EvictObjectsResult {
+	scanned: number;
+	deleted: number;
+	bytesBefore: number;
+	bytesAfter: number;
+	quotaBytes: number;
+}
+
+export interface StoreMaintenanceOptions {
+	origin?: string;
+}
+
+export interface CollectGarbageOptions {
+	origin?: string;
+	dryRun?: boolean;
+	graceMs?: number;
+	nowMs?: number;
+}
+
+export interface CollectGarbageResult {
+	scanned: number;
+	referenced: number;
+	retainedBases: number;
+	retainedRecent: number;
+	retainedShared: number;
+	retainedLeased: number;
+	released: number;
+	deleted: number;
+	freedBytes: number;
+	dryRun: boolean;
+}
+
+export interface CheckObjectStoreOptions {
+	nowMs?: number;
+	tmpStaleMs?: number;
+}
+
+export interface CheckObjectStoreResult {
+	checked: number;
+	corrupt: number;
+	dangling: number;
+	quarantined: number;
+	tempFilesRemoved: number;
+	permissionsFixed: number;
+	indexed: number;
+}
+
+interface ObjectFileName {
+	hash: string;
+	kind: ObjectFileKind;
+}
+
+interface DeltaObjectV1 {
+	v: 1;
+	base: string;
+	depth: number;
+	size: number;
+	ops: TextDeltaOp[];
+}
+
+export type ObjectReadResult = { status: "found"; text: string } | { status: "missing" } | { status: "corrupt" };
+
+type LoadedObject = { status: "found"; text: string; depth: number } | { status: "missing" } | { status: "corrupt" };
+
 function ensureValidHash(hash: string): void {
 	if (!HASH_HEX_RE.test(hash)) {
 		throw new Error(`Invalid sha256 hash "${hash}".`);
 	}
 }
 
-function isObjectFileName(name: string): boolean {
-	return name.startsWith("sha256-") && name.endsWith(".txt");
+function parseObjectFileName(name: string): ObjectFileName | undefined {
+	const match = OBJECT_FILE_RE.exec(name);
+	if (!match?.[1] || !match[2]) {
+		return undefined;
+	}
+	const kind: ObjectFileKind =
+		match[2] === READCACHE_OBJECT_SUFFIX ? "keyframe" : match[2] === READCACHE_PLAIN_OBJECT_SUFFIX ? "plain" : "delta";
+	return { hash: match[1], kind };
+}
+
+function isDeltaObjectV1(value: unknown): value is DeltaObjectV1 {
+	if (!value || typeof value !== "object") {
+		return false;
+	}
+	const candidate = value as Partial<DeltaObjectV1>;
+	return (
+		candidate.v === 1 &&
+		typeof candidate.base === "string" &&
+		HASH_HEX_RE.test(candidate.base) &&
+		typeof candidate.depth === "number" &&
+		Number.isInteger(candidate.depth) &&
+		candidate.depth >= 1 &&
+		typeof candidate.size === "number" &&
+		isTextDeltaOps(candidate.ops)
+	);
 }
 
 export function hashBytes(buffer: Buffer): string {
@@ -50,13 +192,27 @@ export function getStorePaths(repoRoot: string): ObjectStorePaths {
 	return {
 		objectsDir: join(repoRoot, READCACHE_OBJECTS_DIR),
 		tmpDir: join(repoRoot, READCACHE_TMP_DIR),
+		quarantineDir: join(repoRoot, READCACHE_QUARANTINE_DIR),
+		indexPath: join(repoRoot, READCACHE_INDEX_FILE),
 	};
 }
 
 export function objectPathForHash(repoRoot: string, hash: string): string {
 	ensureValidHash(hash);
 	const { objectsDir } = getStorePaths(repoRoot);
-	return join(objectsDir, `sha256-${hash}.txt`);
+	return join(objectsDir, `sha256-${hash}${READCACHE_OBJECT_SUFFIX}`);
+}
+
+export function plainObjectPathForHash(repoRoot: string, hash: string): string {
+	ensureValidHash(hash);
+	const { objectsDir } = getStorePaths(repoRoot);
+	return join(objectsDir, `sha256-${hash}${READCACHE_PLAIN_OBJECT_SUFFIX}`);
+}
+
+export function deltaObjectPathForHash(repoRoot: string, hash: string): string {
+	ensureValidHash(hash);
+	const { objectsDir } = getStorePaths(repoRoot);
+	return join(objectsDir, `sha256-${hash}${READCACHE_DELTA_OBJECT_SUFFIX}`);
 }
 
 export async function ensureStoreDirs(repoRoot: string): Promise<ObjectStorePaths> {
@@ -75,15 +231,196 @@ async function exists(path: string): Promise<boolean> {
 	}
 }
 
-export async function persistObjectIfAbsent(repoRoot: string, hash: string, text: string): Promise<PersistObjectResult> {
+async function readIfPresent(path: string): Promise<Buffer | undefined> {
+	try {
+		return await readFile(path);
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+			return undefined;
+		}
+		throw error;
+	}
+}
+
+// The index is a cache of the objects dir. A missed record skews stats until store maintenance (pruning,
+// eviction, GC) folds unindexed object files back in, or fsck rebuilds the index.
+async function recordObjectIndex(repoRoot: string, records: readonly ObjectIndexRecordV1[]): Promise<void> {
+	if (records.length === 0) {
+		return;
+	}
+	try {
+		const { indexPath } = getStorePaths(repoRoot);
+		if (!(await exists(indexPath))) {
+			await rebuildObjectIndex(repoRoot);
+		}
+		await appendObjectIndexRecords(indexPath, records);
+	} catch {
+		// Fail-open: index bookkeeping must never fail a read or write.
+	}
+}
+
+async function touchObject(repoRoot: string, hash: string, path: string, origin: string | undefined): Promise<void> {
+	const now = new Date();
+	try {
+		await utimes(path, now, now);
+	} catch {
+		// Fail-open: a missed touch only makes the object look older.
+	}
+	await recordObjectIndex(repoRoot, [
+		{ v: 1, op: "use", hash, ...(origin !== undefined ? { origin } : {}), at: now.getTime() },
+	]);
+}
+
+async function readDeltaObject(path: string): Promise<DeltaObjectV1 | undefined> {
+	const compressed = await readIfPresent(path);
+	if (compressed === undefined) {
+		return undefined;
+	}
+	const parsed: unknown = JSON.parse((await gunzipAsync(compressed)).toString("utf-8"));
+	if (!isDeltaObjectV1(parsed)) {
+		throw new Error(`Invalid delta object "${path}".`);
+	}
+	return parsed;
+}
+
+interface DecodeOptions {
+	remainingDepth: number;
+	touch: boolean;
+	origin?: string;
+}
+
+async function decodeObjectFile(
+	repoRoot: string,
+	hash: string,
+	kind: ObjectFileKind,
+	path: string,
+	options: DecodeOptions,
+): Promise<LoadedObject | undefined> {
+	const bytes = await readIfPresent(path);
+	if (bytes === undefined) {
+		return undefined;
+	}
+
+	let text: string;
+	let depth = 0;
+	try {
+		if (kind === "plain") {
+			text = bytes.toString("utf-8");
+		} else if (kind === "keyframe") {
+			text = (await gunzipAsync(bytes)).toString("utf-8");
+		} else {
+			const parsed: unknown = JSON.parse((await gunzipAsync(bytes)).toString("utf-8"));
+			if (!isDeltaObjectV1(parsed) || options.remainingDepth <= 0) {
+				return { status: "corrupt" };
+			}
+			const base = await loadObjectWithDepth(repoRoot, parsed.base, {
+				...options,
+				remainingDepth: options.remainingDepth - 1,
+			});
+			if (base.status !== "found") {
+				return base;
+			}
+			text = applyTextDelta(base.text, parsed.ops);
+			depth = base.depth + 1;
+		}
+	} catch {
+		return { status: "corrupt" };
+	}
+
+	if (hashText(text) !== hash) {
+		return { status: "corrupt" };
+	}
+	if (options.touch) {
+		await touchObject(repoRoot, hash, path, options.origin);
+	}
+	return { status: "found", text, depth };
+}
+
+async function loadObjectWithDepth(repoRoot: string, hash: string, options: DecodeOptions): Promise<LoadedObject> {
+	let corrupt = false;
+	for (const [kind, path] of [
+		["keyframe", objectPathForHash(repoRoot, hash)],
+		["plain", plainObjectPathForHash(repoRoot, hash)],
+		["delta", deltaObjectPathForHash(repoRoot, hash)],
+	] as const) {
+		const loaded = await decodeObjectFile(repoRoot, hash, kind, path, options);
+		if (loaded?.status === "found") {
+			return loaded;
+		}
+		corrupt ||= loaded?.status === "corrupt";
+	}
+	return { status: corrupt ? "corrupt" : "missing" };
+}
+
+async function encodeDeltaObject(
+	repoRoot: string,
+	baseHash: string,
+	text: string,
+	textBytes: number,
+): Promise<Buffer | undefined> {
+	if (textBytes > MAX_DIFF_FILE_BYTES) {
+		return undefined;
+	}
+	// Encoding is not a use: dependents already keep their bases from being pruned or evicted.
+	const base = await loadObjectWithDepth(repoRoot, baseHash, { remainingDepth: READCACHE_DELTA_MAX_CHAIN, touch: false });
+	if (base.status !== "found" || base.depth + 1 > READCACHE_DELTA_MAX_CHAIN || Buffer.byteLength(base.text, "utf-8") > MAX_DIFF_FILE_BYTES) {
+		return undefined;
+	}
+
+	const delta: DeltaObjectV1 = {
+		v: 1,
+		base: baseHash,
+		depth: base.depth + 1,
+		size: textBytes,
+		ops: encodeTextDelta(base.text, text),
+	};
+	const serialized = JSON.stringify(delta);
+	if (Buffer.byteLength(serialized, "utf-8") > textBytes * MAX_DELTA_TO_TEXT_RATIO) {
+		return undefined;
+	}
+	return gzipAsync(Buffer.from(serialized, "utf-8"));
+}
+
+export async function persistObjectIfAbsent(
+	repoRoot: string,
+	hash: string,
+	text: string,
+	options: PersistObjectOptions = {},
+): Promise<PersistObjectResult> {
 	ensureValidHash(hash);
 	const { tmpDir } = await ensureStoreDirs(repoRoot);
-	const objectPath = objectPathForHash(repoRoot, hash);
 
-	if (await exists(objectPath)) {
-		return { hash, path: objectPath, written: false };
+	for (const existingPath of [
+		objectPathForHash(repoRoot, hash),
+		plainObjectPathForHash(repoRoot, hash),
+		deltaObjectPathForHash(repoRoot, hash),
+	]) {
+		if (await exists(existingPath)) {
+			// Re-persisting is a use: unchanged re-reads never load the object, so this keeps it fresh.
+			await touchObject(repoRoot, hash, existingPath, options.origin);
+			return { hash, path: existingPath, written: false };
+		}
 	}
 
+	const textBytes = Buffer.from(text, "utf-8");
+	let payload: Buffer | undefined;
+	let objectPath = objectPathForHash(repoRoot, hash);
+	let kind: ObjectFileKind = "keyframe";
+	if (options.deltaBaseHash !== undefined && options.deltaBaseHash !== hash) {
+		ensureValidHash(options.deltaBaseHash);
+		try {
+			payload = await encodeDeltaObject(repoRoot, options.deltaBaseHash, text, textBytes.byteLength);
+		} catch {
+			// Unreadable bases fall back to a keyframe.
+			payload = undefined;
+		}
+		if (payload !== undefined) {
+			objectPath = deltaObjectPathForHash(repoRoot, hash);
+			kind = "delta";
+		}
+	}
+	payload ??= await gzipAsync(textBytes);
+
 	const tempPath = join(tmpDir, `sha256-${hash}-${process.pid}-${Date.now()}-${Math.random().toString(16).slice(2)}.tmp`);
 	let tempFileCreated = false;
 
@@ -91,13 +428,32 @@ export async function persistObjectIfAbsent(repoRoot: string, hash: string, text
 		const handle = await open(tempPath, "wx", 0o600);
 		tempFileCreated = true;
 		try {
-			await handle.writeFile(text, "utf-8");
+			await handle.writeFile(payload);
 			await handle.sync();
 		} finally {
 			await handle.close();
 		}
 
 		await rename(tempPath, objectPath);
+		await recordObjectIndex(repoRoot, [
+			{
+				v: 1,
+				op: "put",
+				hash,
+				kind,
+				bytes: payload.byteLength,
+				logicalBytes: textBytes.byteLength,
+				...(options.pathKey !== undefined ? { pathKey: options.pathKey } : {}),
+				...(options.origin !== undefined ? { origins: [options.origin] } : {}),
+				at: Date.now(),
+			},
+		]);
+		if (options.quotaBytes !== undefined) {
+			const owner = options.origin !== undefined ? { origin: options.origin } : {};
+			void evictObjectsOverQuotaIfDue(repoRoot, options.quotaBytes, Date.now(), owner).catch(() => {
+				// Fail-open: opportunistic eviction must never fail a write.
+			});
+		}
 		return { hash, path: objectPath, written: true };
 	} catch (error) {
 		const errorCode = (error as NodeJS.ErrnoException).code;
@@ -115,76 +471,639 @@ export async function persistObjectIfAbsent(repoRoot: string, hash: string, text
 	}
 }
 
-export async function loadObject(repoRoot: string, hash: string): Promise<string | undefined> {
+export async function hasObject(repoRoot: string, hash: string): Promise<boolean> {
 	ensureValidHash(hash);
-	const objectPath = objectPathForHash(repoRoot, hash);
-	try {
-		return await readFile(objectPath, "utf-8");
-	} catch (error) {
-		if ((error as NodeJS.ErrnoException).code === "ENOENT") {
-			return undefined;
+	for (const path of [
+		objectPathForHash(repoRoot, hash),
+		plainObjectPathForHash(repoRoot, hash),
+		deltaObjectPathForHash(repoRoot, hash),
+	]) {
+		if (await exists(path)) {
+			return true;
 		}
-		throw error;
 	}
+	return false;
 }
 
-export async function getStoreStats(repoRoot: string): Promise<ObjectStoreStats> {
-	const { objectsDir } = await ensureStoreDirs(repoRoot);
-	const entries = await readdir(objectsDir, { withFileTypes: true });
+export async function readObject(
+	repoRoot: string,
+	hash: string,
+	options: ReadObjectOptions = {},
+): Promise<ObjectReadResult> {
+	ensureValidHash(hash);
+	const loaded = await loadObjectWithDepth(repoRoot, hash, {
+		remainingDepth: READCACHE_DELTA_MAX_CHAIN,
+		touch: true,
+		...(options.origin !== undefined ? { origin: options.origin } : {}),
+	});
+	return loaded.status === "found" ? { status: "found", text: loaded.text } : loaded;
+}
+
+export async function loadObject(repoRoot: string, hash: string): Promise<string | undefined> {
+	const loaded = await readObject(repoRoot, hash);
+	return loaded.status === "found" ? loaded.text : undefined;
+}
+
+// gzip stores the uncompressed size (mod 2^32) in its last four bytes, so stats never inflate objects.
+async function readGzipLogicalSize(path: string, size: number): Promise<number> {
+	if (size < GZIP_TRAILER_BYTES) {
+		return 0;
+	}
+	const handle = await open(path, "r");
+	try {
+		const trailer = Buffer.alloc(GZIP_TRAILER_BYTES);
+		await handle.read(trailer, 0, GZIP_TRAILER_BYTES, size - GZIP_TRAILER_BYTES);
+		return trailer.readUInt32LE(0);
+	} finally {
+		await handle.close();
+	}
+}
+
+async function readLogicalSize(path: string, kind: ObjectFileKind, size: number): Promise<number> {
+	if (kind === "plain") {
+		return size;
+	}
+	if (kind === "keyframe") {
+		return readGzipLogicalSize(path, size);
+	}
+	return (await readDeltaObject(path))?.size ?? 0;
+}
 
+export async function getStoreStats(repoRoot: string, options: StoreMaintenanceOptions = {}): Promise<ObjectStoreStats> {
+	const entries = await loadObjectIndex(repoRoot);
 	let objects = 0;
 	let bytes = 0;
+	let logicalBytes = 0;
+	for (const entry of entries.values()) {
+		objects += 1;
+		bytes += entry.bytes;
+		logicalBytes += entry.logicalBytes;
+	}
+	if (options.origin === undefined) {
+		return { objects, bytes, logicalBytes };
+	}
+
+	const { owned } = collectOriginClaims(entries.values(), options.origin);
+	let ownedBytes = 0;
+	for (const entry of entries.values()) {
+		ownedBytes += owned.has(entry.hash) ? entry.bytes : 0;
+	}
+	return { objects, bytes, logicalBytes, ownedBytes };
+}
+
+export async function getStorageByPath(repoRoot: string, limit: number): Promise<PathStorageUsage[]> {
+	return summarizeStorageByPath((await loadObjectIndex(repoRoot)).values(), limit);
+}
+
+interface ObjectFileEntry {
+	path: string;
+	hash: string;
+	kind: ObjectFileKind;
+	mtimeMs: number;
+	bytes: number;
+}
 
+async function collectObjectFiles(objectsDir: string): Promise<ObjectFileEntry[]> {
+	const entries = await readdir(objectsDir, { withFileTypes: true });
+	const files: ObjectFileEntry[] = [];
 	for (const entry of entries) {
-		if (!entry.isFile() || !isObjectFileName(entry.name)) {
+		const objectFile = entry.isFile() ? parseObjectFileName(entry.name) : undefined;
+		if (!objectFile) {
+			continue;
+		}
+		const filePath = join(objectsDir, entry.name);
+		try {
+			const info = await stat(filePath);
+			files.push({ path: filePath, ...objectFile, mtimeMs: info.mtimeMs, bytes: info.size });
+		} catch {
 			continue;
 		}
-		objects += 1;
-		const info = await stat(join(objectsDir, entry.name));
-		bytes += info.size;
 	}
+	return files;
+}
 
-	return { objects, bytes };
+function pathForObjectFile(repoRoot: string, hash: string, kind: ObjectFileKind): string {
+	if (kind === "plain") {
+		return plainObjectPathForHash(repoRoot, hash);
+	}
+	return kind === "delta" ? deltaObjectPathForHash(repoRoot, hash) : objectPathForHash(repoRoot, hash);
 }
 
-export async function pruneObjectsOlderThan(
+export async function rebuildObjectIndex(repoRoot: string): Promise<Map<string, ObjectIndexEntry>> {
+	const { objectsDir, tmpDir, indexPath } = await ensureStoreDirs(repoRoot);
+	let previous: Map<string, ObjectIndexEntry> | undefined;
+	try {
+		previous = (await readObjectIndex(indexPath))?.entries;
+	} catch {
+		previous = undefined;
+	}
+
+	// Rebuilding keeps what only the index knows (origin path, first-seen time) for objects still on disk.
+	const entries = new Map<string, ObjectIndexEntry>();
+	for (const file of await collectObjectFiles(objectsDir)) {
+		const key = objectIndexKey(file.hash, file.kind);
+		const known = previous?.get(key);
+		const mtimeMs = Math.floor(file.mtimeMs);
+		let logicalBytes: number;
+		try {
+			logicalBytes = await readLogicalSize(file.path, file.kind, file.bytes);
+		} catch {
+			logicalBytes = known?.logicalBytes ?? 0;
+		}
+		entries.set(key, {
+			hash: file.hash,
+			kind: file.kind,
+			bytes: file.bytes,
+			logicalBytes,
+			...(known?.pathKey !== undefined ? { pathKey: known.pathKey } : {}),
+			...(known?.origins !== undefined ? { origins: known.origins } : {}),
+			...(known?.lastUsedByOrigin !== undefined ? { lastUsedByOrigin: known.lastUsedByOrigin } : {}),
+			firstSeenAt: Math.min(known?.firstSeenAt ?? mtimeMs, mtimeMs),
+			lastUsedAt: Math.max(known?.lastUsedAt ?? mtimeMs, mtimeMs),
+		});
+	}
+	await writeObjectIndex(indexPath, tmpDir, entries.values());
+	return entries;
+}
+
+async function loadObjectIndex(repoRoot: string): Promise<Map<string, ObjectIndexEntry>> {
+	const { indexPath } = await ensureStoreDirs(repoRoot);
+	return (await readObjectIndex(indexPath))?.entries ?? rebuildObjectIndex(repoRoot);
+}
+
+async function indexUnindexedObjectFiles(repoRoot: string, entries: Map<string, ObjectIndexEntry>): Promise<void> {
+	const { objectsDir } = getStorePaths(repoRoot);
+	const records: ObjectIndexRecordV1[] = [];
+	for (const entry of await readdir(objectsDir, { withFileTypes: true })) {
+		const objectFile = entry.isFile() ? parseObjectFileName(entry.name) : undefined;
+		if (!objectFile || entries.has(objectIndexKey(objectFile.hash, objectFile.kind))) {
+			continue;
+		}
+		const filePath = join(objectsDir, entry.name);
+		let info: Awaited<ReturnType<typeof stat>>;
+		try {
+			info = await stat(filePath);
+		} catch {
+			continue;
+		}
+		let logicalBytes: number;
+		try {
+			logicalBytes = await readLogicalSize(filePath, objectFile.kind, info.size);
+		} catch {
+			logicalBytes = 0;
+		}
+		const record: ObjectIndexRecordV1 = {
+			v: 1,
+			op: "put",
+			...objectFile,
+			bytes: info.size,
+			logicalBytes,
+			at: Math.floor(info.mtimeMs),
+		};
+		applyObjectIndexRecord(entries, record);
+		records.push(record);
+	}
+	await recordObjectIndex(repoRoot, records);
+}
+
+// Callers hold the store lock. Appends from puts and touches are unlocked, so a record can still be lost (a failed
+// append, or one racing a compaction); object files the index does not know are folded back in so they stay
+// subject to pruning, eviction, and GC.
+async function loadObjectIndexForMaintenance(repoRoot: string): Promise<Map<string, ObjectIndexEntry>> {
+	const { tmpDir, indexPath } = await ensureStoreDirs(repoRoot);
+	const index = await readObjectIndex(indexPath);
+	if (index === undefined) {
+		return rebuildObjectIndex(repoRoot);
+	}
+	await indexUnindexedObjectFiles(repoRoot, index.entries);
+	if (index.records > index.entries.size * 2 + READCACHE_INDEX_COMPACT_MIN_RECORDS) {
+		await writeObjectIndex(indexPath, tmpDir, index.entries.values());
+	}
+	return index.entries;
+}
+
+interface IndexedObjectFiles {
+	files: ObjectFileEntry[];
+	isOwned: (hash: string) => boolean;
+	shared: ReadonlyMap<string, number>;
+}
+
+// In a shared store, objects another repo used (or of unknown origin) are only aged out or evicted under that
+// repo's own settings, never this one's.
+async function collectIndexedObjectFiles(repoRoot: string, origin: string | undefined): Promise<IndexedObjectFiles> {
+	const entries = await loadObjectIndexForMaintenance(repoRoot);
+	const claims = origin !== undefined ? collectOriginClaims(entries.values(), origin) : undefined;
+	const owned = claims?.owned;
+	return {
+		files: [...entries.values()].map((entry) => ({
+			path: pathForObjectFile(repoRoot, entry.hash, entry.kind),
+			hash: entry.hash,
+			kind: entry.kind,
+			mtimeMs: entry.lastUsedAt,
+			bytes: entry.bytes,
+		})),
+		isOwned: (hash) => owned === undefined || owned.has(hash),
+		shared: claims?.shared ?? new Map(),
+	};
+}
+
+async function unlinkObjectFile(file: ObjectFileEntry, deletions: ObjectIndexRecordV1[]): Promise<boolean> {
+	try {
+		await unlink(file.path);
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+			deletions.push({ v: 1, op: "delete", hash: file.hash, kind: file.kind, at: Date.now() });
+		}
+		return false;
+	}
+	deletions.push({ v: 1, op: "delete", hash: file.hash, kind: file.kind, at: Date.now() });
+	return true;
+}
+
+async function readDeltaBaseHash(path: string): Promise<string | undefined> {
+	try {
+		return (await readDeltaObject(path))?.base;
+	} catch {
+		return undefined;
+	}
+}
+
+async function retainDeltaBases(files: readonly ObjectFileEntry[], keep: Set<string>): Promise<void> {
+	const deltaPaths = new Map(files.filter((file) => file.kind === "delta").map((file) => [file.hash, file.path]));
+	const pending = [...keep];
+	while (pending.length > 0) {
+		const hash = pending.pop();
+		const deltaPath = hash === undefined ? undefined : deltaPaths.get(hash);
+		if (deltaPath === undefined) {
+			continue;
+		}
+		const baseHash = await readDeltaBaseHash(deltaPath);
+		if (baseHash !== undefined && !keep.has(baseHash)) {
+			keep.add(baseHash);
+			pending.push(baseHash);
+		}
+	}
+}
+
+async function pruneObjectsOlderThanUnlocked(
 	repoRoot: string,
-	maxAgeMs = READCACHE_OBJECT_MAX_AGE_MS,
-	nowMs = Date.now(),
+	maxAgeMs: number,
+	nowMs: number,
+	options: StoreMaintenanceOptions,
 ): Promise<PruneObjectsResult> {
 	if (!Number.isFinite(maxAgeMs) || maxAgeMs < 0) {
 		throw new Error(`Invalid maxAgeMs "${String(maxAgeMs)}".`);
 	}
 
-	const { objectsDir } = await ensureStoreDirs(repoRoot);
-	const entries = await readdir(objectsDir, { withFileTypes: true });
+	const { files: candidates, isOwned, shared } = await collectIndexedObjectFiles(repoRoot, options.origin);
 	const cutoffMs = nowMs - maxAgeMs;
 
-	let scanned = 0;
+	// Leases of live sessions and surviving deltas keep whole base chains alive, even past the cutoff.
+	const keep = new Set(
+		candidates
+			.filter((candidate) => candidate.mtimeMs > cutoffMs || !isOwned(candidate.hash))
+			.map((candidate) => candidate.hash),
+	);
+	const leased = (await collectLeasedHashes(repoRoot)).hashes;
+	for (const hash of leased) {
+		keep.add(hash);
+	}
+	await retainDeltaBases(candidates, keep);
+
+	// A shared object past this repo's own cutoff only loses this repo's claim; the last repo holding it deletes it.
+	const released = [...shared]
+		.filter(([hash, lastUsedAt]) => lastUsedAt <= cutoffMs && !leased.has(hash))
+		.map(([hash]) => hash);
+
 	let deleted = 0;
+	const deletions: ObjectIndexRecordV1[] = [];
+	for (const candidate of candidates) {
+		if (keep.has(candidate.hash)) {
+			continue;
+		}
+		// Fail-open: stale-object pruning must not break extension startup.
+		deleted += (await unlinkObjectFile(candidate, deletions)) ? 1 : 0;
+	}
+	await recordObjectIndex(repoRoot, [...deletions, ...buildReleaseRecords(released, options.origin)]);
+
+	return { scanned: candidates.length, deleted, released: released.length, cutoffMs };
+}
+
+interface EvictionGroup {
+	hash: string;
+	files: ObjectFileEntry[];
+	bytes: number;
+	lastUsedMs: number;
+	baseHash?: string;
+	evicted: boolean;
+}
+
+export async function pruneObjectsOlderThan(
+	repoRoot: string,
+	maxAgeMs = READCACHE_OBJECT_MAX_AGE_MS,
+	nowMs = Date.now(),
+	options: StoreMaintenanceOptions = {},
+): Promise<PruneObjectsResult> {
+	return withStoreLock(repoRoot, () => pruneObjectsOlderThanUnlocked(repoRoot, maxAgeMs, nowMs, options));
+}
+
+async function evictObjectsOverQuotaUnlocked(
+	repoRoot: string,
+	quotaBytes: number,
+	options: StoreMaintenanceOptions,
+): Promise<EvictObjectsResult> {
+	if (!Number.isFinite(quotaBytes) || quotaBytes < 0) {
+		throw new Error(`Invalid quotaBytes "${String(quotaBytes)}".`);
+	}
+
+	// The quota bounds the bytes this repo owns; shared objects neither count against it nor get evicted for it.
+	const { files, isOwned } = await collectIndexedObjectFiles(repoRoot, options.origin);
+	const bytesBefore = files.reduce((total, file) => total + (isOwned(file.hash) ? file.bytes : 0), 0);
+	let bytes = bytesBefore;
+	let deleted = 0;
+	if (quotaBytes === 0 || bytes <= quotaBytes) {
+		return { scanned: files.length, deleted, bytesBefore, bytesAfter: bytes, quotaBytes };
+	}
+
+	const groups = new Map<string, EvictionGroup>();
+	for (const file of files) {
+		const group = groups.get(file.hash) ?? { hash: file.hash, files: [], bytes: 0, lastUsedMs: 0, evicted: false };
+		group.files.push(file);
+		group.bytes += file.bytes;
+		group.lastUsedMs = Math.max(group.lastUsedMs, file.mtimeMs);
+		groups.set(file.hash, group);
+	}
+
+	const dependents = new Map<string, number>();
+	for (const group of groups.values()) {
+		const deltaFile = group.files.find((file) => file.kind === "delta");
+		const baseHash = deltaFile ? await readDeltaBaseHash(deltaFile.path) : undefined;
+		if (baseHash !== undefined) {
+			group.baseHash = baseHash;
+			dependents.set(baseHash, (dependents.get(baseHash) ?? 0) + 1);
+		}
+	}
 
+	// Least recently used first; a base is only evictable once no remaining delta depends on it.
+	const leased = (await collectLeasedHashes(repoRoot)).hashes;
+	const ordered = [...groups.values()].sort((left, right) => left.lastUsedMs - right.lastUsedMs);
+	const deletions: ObjectIndexRecordV1[] = [];
+	let progressed = true;
+	while (bytes > quotaBytes && progressed) {
+		progressed = false;
+		for (const group of ordered) {
+			if (bytes <= quotaBytes) {
+				break;
+			}
+			if (group.evicted || !isOwned(group.hash) || leased.has(group.hash) || (dependents.get(group.hash) ?? 0) > 0) {
+				continue;
+			}
+			for (const file of group.files) {
+				// Fail-open: a concurrently removed object still frees its bytes.
+				deleted += (await unlinkObjectFile(file, deletions)) ? 1 : 0;
+			}
+			group.evicted = true;
+			progressed = true;
+			bytes -= group.bytes;
+			if (group.baseHash !== undefined) {
+				dependents.set(group.baseHash, (dependents.get(group.baseHash) ?? 1) - 1);
+			}
+		}
+	}
+	await recordObjectIndex(repoRoot, deletions);
+
+	return { scanned: files.length, deleted, bytesBefore, bytesAfter: bytes, quotaBytes };
+}
+
+export async function evictObjectsOverQuota(
+	repoRoot: string,
+	quotaBytes: number,
+	options: StoreMaintenanceOptions = {},
+): Promise<EvictObjectsResult> {
+	return withStoreLock(repoRoot, () => evictObjectsOverQuotaUnlocked(repoRoot, quotaBytes, options));
+}
+
+export async function evictObjectsOverQuotaIfDue(
+	repoRoot: string,
+	quotaBytes: number,
+	nowMs = Date.now(),
+	options: StoreMaintenanceOptions = {},
+): Promise<EvictObjectsResult | undefined> {
+	const lastEvictionMs = lastEvictionByRoot.get(repoRoot);
+	if (quotaBytes === 0 || (lastEvictionMs !== undefined && nowMs - lastEvictionMs < READCACHE_EVICTION_MIN_INTERVAL_MS)) {
+		return undefined;
+	}
+	lastEvictionByRoot.set(repoRoot, nowMs);
+	return evictObjectsOverQuota(repoRoot, quotaBytes, options);
+}
+
+interface OriginClaims {
+	owned: Set<string>;
+	// This repo's last use of each object it shares with other repos.
+	shared: Map<string, number>;
+}
+
+function collectOriginClaims(entries: Iterable<ObjectIndexEntry>, origin: string): OriginClaims {
+	const owned = new Map<string, boolean>();
+	const shared = new Map<string, number>();
 	for (const entry of entries) {
-		if (!entry.isFile() || !isObjectFileName(entry.name)) {
+		const ownedHere = entry.origins !== undefined && entry.origins.every((candidate) => candidate === origin);
+		owned.set(entry.hash, (owned.get(entry.hash) ?? true) && ownedHere);
+		if (!ownedHere && entry.origins?.includes(origin)) {
+			const lastUsedAt = entry.lastUsedByOrigin?.[origin] ?? entry.lastUsedAt;
+			shared.set(entry.hash, Math.max(shared.get(entry.hash) ?? lastUsedAt, lastUsedAt));
+		}
+	}
+	return {
+		owned: new Set([...owned].filter(([, ownedHere]) => ownedHere).map(([hash]) => hash)),
+		shared,
+	};
+}
+
+function buildReleaseRecords(hashes: readonly string[], origin: string | undefined): ObjectIndexRecordV1[] {
+	if (origin === undefined) {
+		return [];
+	}
+	return hashes.map((hash) => ({ v: 1, op: "release", hash, origin, at: Date.now() }));
+}
+
+async function collectGarbageObjectsUnlocked(
+	repoRoot: string,
+	referencedHashes: ReadonlySet<string>,
+	options: CollectGarbageOptions,
+): Promise<CollectGarbageResult> {
+	const dryRun = options.dryRun ?? false;
+	const graceMs = options.graceMs ?? READCACHE_GC_GRACE_MS;
+	const nowMs = options.nowMs ?? Date.now();
+
+	const { objectsDir, indexPath } = await ensureStoreDirs(repoRoot);
+	const files = await collectObjectFiles(objectsDir);
+	const presentHashes = new Set(files.map((file) => file.hash));
+
+	const referenced = new Set([...referencedHashes].filter((hash) => presentHashes.has(hash)));
+	// Recently written objects may belong to a read whose session entry has not been appended yet.
+	const recent = new Set(
+		files.filter((file) => file.mtimeMs > nowMs - graceMs && !referenced.has(file.hash)).map((file) => file.hash),
+	);
+	// In a shared store, objects another repo used (or of unknown origin) are not this repo's to collect.
+	const shared = new Set<string>();
+	let sharedClaims: ReadonlyMap<string, number> = new Map();
+	if (options.origin !== undefined) {
+		// A dry run holds no lock, so it reads the index as is instead of folding in or compacting records.
+		const entries = dryRun
+			? ((await readObjectIndex(indexPath))?.entries ?? new Map<string, ObjectIndexEntry>())
+			: await loadObjectIndexForMaintenance(repoRoot);
+		const claims = collectOriginClaims(entries.values(), options.origin);
+		sharedClaims = claims.shared;
+		for (const file of files) {
+			if (!claims.owned.has(file.hash) && !referenced.has(file.hash) && !recent.has(file.hash)) {
+				shared.add(file.hash);
+			}
+		}
+	}
+	// Another live session may be about to diff against an object it has not yet recorded in a session file.
+	const leasedHashes = (await collectLeasedHashes(repoRoot)).hashes;
+	// This repo drops its claim on shared objects it no longer references; the last repo holding one collects it.
+	const released = [...sharedClaims.keys()].filter(
+		(hash) => presentHashes.has(hash) && !referenced.has(hash) && !recent.has(hash) && !leasedHashes.has(hash),
+	);
+	const leased = new Set(
+		[...leasedHashes].filter(
+			(hash) => presentHashes.has(hash) && !referenced.has(hash) && !recent.has(hash) && !shared.has(hash),
+		),
+	);
+	const keep = new Set([...referenced, ...recent, ...shared, ...leased]);
+	await retainDeltaBases(files, keep);
+
+	let deleted = 0;
+	let freedBytes = 0;
+	const deletions: ObjectIndexRecordV1[] = [];
+	for (const file of files) {
+		if (keep.has(file.hash)) {
 			continue;
 		}
-		scanned += 1;
-		const filePath = join(objectsDir, entry.name);
-		let info;
+		// Fail-open: a concurrently removed object is already collected.
+		if (dryRun || (await unlinkObjectFile(file, deletions))) {
+			deleted += 1;
+			freedBytes += file.bytes;
+		}
+	}
+	await recordObjectIndex(repoRoot, dryRun ? deletions : [...deletions, ...buildReleaseRecords(released, options.origin)]);
+
+	return {
+		scanned: files.length,
+		referenced: referenced.size,
+		retainedBases: keep.size - referenced.size - recent.size - shared.size - leased.size,
+		retainedRecent: recent.size,
+		retainedShared: shared.size,
+		retainedLeased: leased.size,
+		released: released.length,
+		deleted,
+		freedBytes,
+		dryRun,
+	};
+}
+
+export async function collectGarbageObjects(
+	repoRoot: string,
+	referencedHashes: ReadonlySet<string>,
+	options: CollectGarbageOptions = {},
+): Promise<CollectGarbageResult> {
+	if (options.dryRun) {
+		return collectGarbageObjectsUnlocked(repoRoot, referencedHashes, options);
+	}
+	return withStoreLock(repoRoot, () => collectGarbageObjectsUnlocked(repoRoot, referencedHashes, options));
+}
+
+async function fixMode(path: string, mode: number): Promise<boolean> {
+	const info = await stat(path);
+	if ((info.mode & 0o777) === mode) {
+		return false;
+	}
+	await chmod(path, mode);
+	return true;
+}
+
+async function removeStaleTempFiles(tmpDir: string, cutoffMs: number): Promise<number> {
+	let removed = 0;
+	for (const entry of await readdir(tmpDir, { withFileTypes: true })) {
+		if (!entry.isFile() || !entry.name.endsWith(".tmp")) {
+			continue;
+		}
+		const tempPath = join(tmpDir, entry.name);
 		try {
-			info = await stat(filePath);
+			// In-flight writes from live processes are younger than the cutoff.
+			if ((await stat(tempPath)).mtimeMs > cutoffMs) {
+				continue;
+			}
+			await unlink(tempPath);
+			removed += 1;
 		} catch {
-			continue;
+			// Fail-open: a concurrently renamed temp file is not a leftover.
 		}
-		if (info.mtimeMs > cutoffMs) {
-			continue;
+	}
+	return removed;
+}
+
+export async function checkObjectStore(
+	repoRoot: string,
+	options: CheckObjectStoreOptions = {},
+): Promise<CheckObjectStoreResult> {
+	return withStoreLock(repoRoot, () => checkObjectStoreUnlocked(repoRoot, options));
+}
+
+async function checkObjectStoreUnlocked(
+	repoRoot: string,
+	options: CheckObjectStoreOptions,
+): Promise<CheckObjectStoreResult> {
+	const nowMs = options.nowMs ?? Date.now();
+	const tmpStaleMs = options.tmpStaleMs ?? READCACHE_TMP_STALE_MS;
+	const { objectsDir, tmpDir, quarantineDir } = await ensureStoreDirs(repoRoot);
+	const files = await collectObjectFiles(objectsDir);
+
+	// Verify everything before moving anything, so deltas are judged against their original bases.
+	const verdicts: Array<{ file: ObjectFileEntry; status: "corrupt" | "missing" }> = [];
+	for (const file of files) {
+		const loaded = await decodeObjectFile(repoRoot, file.hash, file.kind, file.path, {
+			remainingDepth: READCACHE_DELTA_MAX_CHAIN,
+			touch: false,
+		});
+		if (loaded && loaded.status !== "found") {
+			verdicts.push({ file, status: loaded.status });
 		}
+	}
+
+	let quarantined = 0;
+	if (verdicts.length > 0) {
+		await mkdir(quarantineDir, { recursive: true, mode: 0o700 });
+	}
+	for (const { file } of verdicts) {
 		try {
-			await unlink(filePath);
-			deleted += 1;
+			await rename(file.path, join(quarantineDir, basename(file.path)));
+			quarantined += 1;
 		} catch {
-			// Fail-open: stale-object pruning must not break extension startup.
+			// Fail-open: the object may have been removed concurrently.
 		}
 	}
 
-	return { scanned, deleted, cutoffMs };
+	const tempFilesRemoved = await removeStaleTempFiles(tmpDir, nowMs - tmpStaleMs);
+
+	let permissionsFixed = 0;
+	for (const dir of [objectsDir, tmpDir, ...(verdicts.length > 0 ? [quarantineDir] : [])]) {
+		permissionsFixed += (await fixMode(dir, 0o700)) ? 1 : 0;
+	}
+	for (const file of await collectObjectFiles(objectsDir)) {
+		permissionsFixed += (await fixMode(file.path, 0o600)) ? 1 : 0;
+	}
+	const indexed = (await rebuildObjectIndex(repoRoot)).size;
+
+	return {
+		checked: files.length,
+		corrupt: verdicts.filter((verdict) => verdict.status === "corrupt").length,
+		dangling: verdicts.filter((verdict) => verdict.status === "missing").length,
+		quarantined,
+		tempFilesRemoved,
+		permissionsFixed,
+		indexed,
+	};
 }
@@ -0,0 +1,67 @@
+import { compilePathPatterns, matchPathPatterns, toPatternPath, type CompiledPathPattern } from "./glob.js";
+import type { PathPolicyRule } from "./types.js";
+
+interface CompiledPathPolicies {
+	patterns: CompiledPathPattern[];
+	ruleByPattern: Map<CompiledPathPattern, PathPolicyRule>;
+}
+
+const compiledPoliciesByRules = new WeakMap<readonly PathPolicyRule[], CompiledPathPolicies>();
+const compiledExclusionsByList = new WeakMap<readonly string[], CompiledPathPattern[]>();
+
+function compilePathPolicies(rules: readonly PathPolicyRule[]): CompiledPathPolicies {
+	const cached = compiledPoliciesByRules.get(rules);
+	if (cached) {
+		return cached;
+	}
+
+	const patterns: CompiledPathPattern[] = [];
+	const ruleByPattern = new Map<CompiledPathPattern, PathPolicyRule>();
+	for (const rule of rules) {
+		const [compiled] = compilePathPatterns([rule.pattern]);
+		if (!compiled) {
+			continue;
+		}
+		patterns.push(compiled);
+		ruleByPattern.set(compiled, rule);
+	}
+
+	const created = { patterns, ruleByPattern };
+	compiledPoliciesByRules.set(rules, created);
+	return created;
+}
+
+export function findExclusionPattern(
+	pathKey: string,
+	repoRoot: string,
+	patterns: readonly string[],
+): string | undefined {
+	let compiled = compiledExclusionsByList.get(patterns);
+	if (!compiled) {
+		compiled = compilePathPatterns(patterns);
+		compiledExclusionsByList.set(patterns, compiled);
+	}
+
+	const matched = matchPathPatterns(toPatternPath(pathKey, repoRoot), compiled);
+	if (!matched || matched.negated) {
+		return undefined;
+	}
+	return matched.source;
+}
+
+export function resolvePathPolicy(
+	pathKey: string,
+	repoRoot: string,
+	rules: readonly PathPolicyRule[],
+): PathPolicyRule | undefined {
+	if (rules.length === 0) {
+		return undefined;
+	}
+
+	const compiled = compilePathPolicies(rules);
+	const matched = matchPathPatterns(toPatternPath(pathKey, repoRoot), compiled.patterns);
+	if (!matched || matched.negated) {
+		return undefined;
+	}
+	return compiled.ruleByPattern.get(matched);
+}
@@ -0,0 +1,92 @@
+import { SCOPE_FULL } from "./constants.js";
+import type { ScopeKey, ScopeRangeKey, ScopeTrust } from "./types.js";
+
+const RANGE_SCOPE_RE = /^r:(\d+):(\d+)$/;
+
+export interface RangeTrustInterval {
+	scopeKey: ScopeRangeKey;
+	start: number;
+	end: number;
+	trust: ScopeTrust;
+}
+
+export function parseRangeScope(scopeKey: ScopeRangeKey): { start: number; end: number } {
+	const match = RANGE_SCOPE_RE.exec(scopeKey);
+	if (!match?.[1] || !match[2]) {
+		throw new Error(`Invalid range scope "${scopeKey}"`);
+	}
+	return {
+		start: Number.parseInt(match[1], 10),
+		end: Number.parseInt(match[2], 10),
+	};
+}
+
+export function buildRangeIndex(scopes: ReadonlyMap<ScopeKey, ScopeTrust>): RangeTrustInterval[] {
+	const index: RangeTrustInterval[] = [];
+	for (const [scopeKey, trust] of scopes.entries()) {
+		if (scopeKey === SCOPE_FULL) {
+			continue;
+		}
+		const { start, end } = parseRangeScope(scopeKey);
+		index.push({ scopeKey, start, end, trust });
+	}
+	return index.sort((left, right) => left.start - right.start || right.end - left.end);
+}
+
+function isNewer(candidate: ScopeTrust, current: ScopeTrust | undefined): boolean {
+	return current === undefined || candidate.seq > current.seq;
+}
+
+export function findContainingRangeTrust(
+	index: readonly RangeTrustInterval[],
+	start: number,
+	end: number,
+	hash?: string,
+): ScopeTrust | undefined {
+	let selected: ScopeTrust | undefined;
+	for (const interval of index) {
+		if (interval.start > start) {
+			break;
+		}
+		if (interval.end < end || (hash !== undefined && interval.trust.hash !== hash)) {
+			continue;
+		}
+		if (isNewer(interval.trust, selected)) {
+			selected = interval.trust;
+		}
+	}
+	return selected;
+}
+
+export function findComposedFullTrust(
+	index: readonly RangeTrustInterval[],
+	hash: string,
+	totalLines: number,
+): ScopeTrust | undefined {
+	let coveredEnd = 0;
+	let seq = 0;
+	for (const interval of index) {
+		if (interval.trust.hash !== hash || interval.end <= coveredEnd) {
+			continue;
+		}
+		if (interval.start > coveredEnd + 1) {
+			return undefined;
+		}
+		coveredEnd = interval.end;
+		seq = Math.max(seq, interval.trust.seq);
+		if (coveredEnd >= totalLines) {
+			return { hash, seq };
+		}
+	}
+	return undefined;
+}
+
+export function selectLatestTrust(...candidates: Array<ScopeTrust | undefined>): ScopeTrust | undefined {
+	let selected: ScopeTrust | undefined;
+	for (const candidate of candidates) {
+		if (candidate && isNewer(candidate, selected)) {
+			selected = candidate;
+		}
+	}
+	return selected;
+}
@@ -1,10 +1,24 @@
 import type { ExtensionContext, SessionEntry } from "@mariozechner/pi-coding-agent";
-import { SCOPE_FULL } from "./constants.js";
-import { extractInvalidationFromSessionEntry, extractReadMetaFromSessionEntry } from "./meta.js";
+import { READCACHE_MEMO_MAX_ENTRIES, SCOPE_FULL } from "./constants.js";
+import {
+	buildCheckpointV1,
+	extractCheckpointFromSessionEntry,
+	extractCompactionManifestFromSessionEntry,
+	extractDerivedTrustFromSessionEntry,
+	extractInvalidationFromSessionEntry,
+	extractModeChangeFromSessionEntry,
+	extractReadMetaFromSessionEntry,
+} from "./meta.js";
+import { buildRangeIndex, findComposedFullTrust, findContainingRangeTrust, parseRangeScope } from "./range-index.js";
 import type {
+	CompactionBarrier,
 	KnowledgeMap,
+	KnowledgeView,
+	ReadCacheCheckpointV1,
+	ReadCacheDerivedTrustV1,
 	ReadCacheInvalidationV1,
 	ReadCacheMetaV1,
+	ReadCacheRuntimeMode,
 	ScopeKey,
 	ScopeRangeKey,
 	ScopeTrust,
@@ -15,10 +29,17 @@ type SessionManagerView = ExtensionContext["sessionManager"];
 type RangeBlockersByPath = Map<string, Set<ScopeRangeKey>>;
 
 const OVERLAY_SEQ_START = 1_000_000_000;
+// Rough V8 heap cost of one map entry: key string, trust object, and hash string.
+const MEMO_PATH_ENTRY_BYTES = 96;
+const MEMO_SCOPE_ENTRY_BYTES = 208;
 
 interface ReplayMemoEntry {
 	knowledge: KnowledgeMap;
 	blockedRangesByPath: RangeBlockersByPath;
+	mode: ReadCacheRuntimeMode;
+	seq: number;
+	entriesSinceCheckpoint: number;
+	seededByManifest: boolean;
 }
 
 interface OverlayState {
@@ -26,9 +47,32 @@ interface OverlayState {
 	knowledge: KnowledgeMap;
 }
 
+interface ChildIndex {
+	indexedEntries: number;
+	parentIds: Set<string>;
+}
+
+export interface ReplayMemoCounters {
+	hits: number;
+	misses: number;
+	extended: number;
+	evictions: number;
+}
+
+export interface ReplayMemoStats extends ReplayMemoCounters {
+	entries: number;
+	maxEntries: number;
+	estimatedBytes: number;
+}
+
 export interface ReplayRuntimeState {
 	memoByLeaf: Map<string, ReplayMemoEntry>;
+	memoMaxEntries: number;
+	memoCounters: ReplayMemoCounters;
+	compactionBarrier: CompactionBarrier;
+	lastResolvedMemoKey: string | undefined;
 	overlayBySession: Map<string, OverlayState>;
+	childIndexBySession: Map<string, ChildIndex>;
 	nextOverlaySeq: number;
 }
 
@@ -37,35 +81,9 @@ export interface ReplayBoundary {
 	boundaryKey: string;
 }
 
-function cloneKnowledgeMap(source: KnowledgeMap): KnowledgeMap {
-	const cloned: KnowledgeMap = new Map();
-	for (const [pathKey, scopes] of source.entries()) {
-		const clonedScopes = new Map<ScopeKey, ScopeTrust>();
-		for (const [scopeKey, trust] of scopes.entries()) {
-			clonedScopes.set(scopeKey, { ...trust });
-		}
-		cloned.set(pathKey, clonedScopes);
-	}
-	return cloned;
-}
-
-function cloneRangeBlockersByPath(source: RangeBlockersByPath): RangeBlockersByPath {
-	const cloned: RangeBlockersByPath = new Map();
-	for (const [pathKey, scopes] of source.entries()) {
-		cloned.set(pathKey, new Set(scopes));
-	}
-	return cloned;
-}
-
-function cloneReplayMemoEntry(source: ReplayMemoEntry): ReplayMemoEntry {
-	return {
-		knowledge: cloneKnowledgeMap(source.knowledge),
-		blockedRangesByPath: cloneRangeBlockersByPath(source.blockedRangesByPath),
-	};
-}
-
-function getMemoKey(sessionId: string, leafId: string | null, boundaryKey: string): string {
-	return `${sessionId}:${leafId ?? "null"}:${boundaryKey}`;
+// Session entries are append-only, so a leaf's branch (and its compaction boundary) never changes.
+function getMemoKey(sessionId: string, leafId: string | null): string {
+	return `${sessionId}:${leafId ?? "null"}`;
 }
 
 function ensureScopeMap(knowledge: KnowledgeMap, pathKey: string): Map<ScopeKey, ScopeTrust> {
@@ -117,15 +135,77 @@ export function setTrust(knowledge: KnowledgeMap, pathKey: string, scopeKey: Sco
 	scopes.set(scopeKey, { hash, seq });
 }
 
-function mergeKnowledge(base: KnowledgeMap, overlay: KnowledgeMap): KnowledgeMap {
-	const merged = cloneKnowledgeMap(base);
-	for (const [pathKey, overlayScopes] of overlay.entries()) {
-		const targetScopes = ensureScopeMap(merged, pathKey);
-		for (const [scopeKey, trust] of overlayScopes.entries()) {
-			targetScopes.set(scopeKey, { ...trust });
+function hasRangeAnchor(
+	scopes: ReadonlyMap<ScopeKey, ScopeTrust> | undefined,
+	scopeKey: ScopeRangeKey,
+	baseHash: string,
+	composedTotalLines?: number,
+): boolean {
+	if (!scopes) {
+		return false;
+	}
+	if (scopes.get(SCOPE_FULL)?.hash === baseHash) {
+		return true;
+	}
+	const { start, end } = parseRangeScope(scopeKey);
+	const index = buildRangeIndex(scopes);
+	if (findContainingRangeTrust(index, start, end, baseHash)) {
+		return true;
+	}
+	return composedTotalLines !== undefined && findComposedFullTrust(index, baseHash, composedTotalLines) !== undefined;
+}
+
+function createKnowledgeView(base: KnowledgeMap, overlay: KnowledgeMap): KnowledgeView {
+	if (overlay.size === 0) {
+		return base;
+	}
+
+	const mergedByPath = new Map<string, ReadonlyMap<ScopeKey, ScopeTrust>>();
+	const get = (pathKey: string): ReadonlyMap<ScopeKey, ScopeTrust> | undefined => {
+		const overlayScopes = overlay.get(pathKey);
+		const baseScopes = base.get(pathKey);
+		if (!overlayScopes || !baseScopes) {
+			return overlayScopes ?? baseScopes;
+		}
+		let merged = mergedByPath.get(pathKey);
+		if (!merged) {
+			merged = new Map([...baseScopes, ...overlayScopes]);
+			mergedByPath.set(pathKey, merged);
+		}
+		return merged;
+	};
+	function* keys(): Generator<string> {
+		yield* base.keys();
+		for (const pathKey of overlay.keys()) {
+			if (!base.has(pathKey)) {
+				yield pathKey;
+			}
+		}
+	}
+
+	let overlayOnlyPaths = 0;
+	for (const pathKey of overlay.keys()) {
+		if (!base.has(pathKey)) {
+			overlayOnlyPaths += 1;
 		}
 	}
-	return merged;
+
+	return {
+		size: base.size + overlayOnlyPaths,
+		get,
+		has: (pathKey) => base.has(pathKey) || overlay.has(pathKey),
+		keys,
+		*values() {
+			for (const pathKey of keys()) {
+				yield get(pathKey) as ReadonlyMap<ScopeKey, ScopeTrust>;
+			}
+		},
+		*entries() {
+			for (const pathKey of keys()) {
+				yield [pathKey, get(pathKey) as ReadonlyMap<ScopeKey, ScopeTrust>];
+			}
+		},
+	};
 }
 
 function ensureOverlayForLeaf(runtimeState: ReplayRuntimeState, sessionId: string, leafId: string | null): OverlayState {
@@ -141,60 +221,286 @@ function ensureOverlayForLeaf(runtimeState: ReplayRuntimeState, sessionId: strin
 	return existing;
 }
 
-function leafHasChildren(sessionManager: SessionManagerView, leafId: string | null): boolean {
+function leafHasChildren(
+	sessionManager: SessionManagerView,
+	runtimeState: ReplayRuntimeState,
+	sessionId: string,
+	leafId: string | null,
+): boolean {
 	if (!leafId) {
 		return false;
 	}
-	return sessionManager.getEntries().some((entry) => entry.parentId === leafId);
+	let childIndex = runtimeState.childIndexBySession.get(sessionId);
+	if (!childIndex) {
+		childIndex = { indexedEntries: 0, parentIds: new Set() };
+		runtimeState.childIndexBySession.set(sessionId, childIndex);
+	}
+	// Entries are append-only and returned in append order, so only entries added since the last check are indexed.
+	const entries = sessionManager.getEntries();
+	for (let index = childIndex.indexedEntries; index < entries.length; index += 1) {
+		const parentId = entries[index]?.parentId;
+		if (parentId) {
+			childIndex.parentIds.add(parentId);
+		}
+	}
+	childIndex.indexedEntries = entries.length;
+	return childIndex.parentIds.has(leafId);
 }
 
-function replaySnapshotFromBranch(branchEntries: SessionEntry[], startIndex: number): ReplayMemoEntry {
-	const knowledge: KnowledgeMap = new Map();
-	const blockedRangesByPath: RangeBlockersByPath = new Map();
-	const normalizedStart = Math.max(0, Math.min(startIndex, branchEntries.length));
-	let seq = 0;
-
-	for (let index = normalizedStart; index < branchEntries.length; index += 1) {
-		const entry = branchEntries[index];
+function findModeBeforeIndex(branchEntries: SessionEntry[], index: number): ReadCacheRuntimeMode {
+	for (let cursor = index - 1; cursor >= 0; cursor -= 1) {
+		const entry = branchEntries[cursor];
 		if (!entry) {
 			continue;
 		}
+		const modeChange = extractModeChangeFromSessionEntry(entry);
+		if (modeChange) {
+			return modeChange.mode;
+		}
+	}
+	return "on";
+}
 
-		const meta = extractReadMetaFromSessionEntry(entry);
-		if (meta) {
-			seq += 1;
-			applyReadMetaTransition(knowledge, meta, seq, blockedRangesByPath);
-			continue;
+// Manifest trust only counts while the relaxed barrier is active, so strict replay skips checkpoints holding it.
+function isCheckpointUsable(checkpoint: ReadCacheCheckpointV1, compactionBarrier: CompactionBarrier): boolean {
+	return compactionBarrier === "relaxed" || checkpoint.relaxed !== true;
+}
+
+function applyReplayEntry(
+	snapshot: ReplayMemoEntry,
+	entry: SessionEntry,
+	compactionBarrier: CompactionBarrier,
+	beforePathChange?: (pathKey: string) => void,
+): void {
+	// A checkpoint on the replayed path already matches this snapshot, so it only restarts the count.
+	const checkpoint = extractCheckpointFromSessionEntry(entry);
+	if (checkpoint && isCheckpointUsable(checkpoint, compactionBarrier)) {
+		snapshot.entriesSinceCheckpoint = 0;
+		return;
+	}
+	snapshot.entriesSinceCheckpoint += 1;
+	if (checkpoint) {
+		return;
+	}
+
+	const manifest = extractCompactionManifestFromSessionEntry(entry);
+	if (manifest) {
+		// Only a manifest directly under its own compaction describes what that compaction carried across.
+		if (compactionBarrier === "relaxed" && snapshot.mode !== "off" && entry.parentId === manifest.compactionId) {
+			for (const [pathKey, scopeKey, hash] of manifest.carried) {
+				beforePathChange?.(pathKey);
+				snapshot.seq += 1;
+				setTrust(snapshot.knowledge, pathKey, scopeKey, hash, snapshot.seq);
+			}
+			snapshot.seededByManifest ||= manifest.carried.length > 0;
 		}
+		return;
+	}
 
-		const invalidation = extractInvalidationFromSessionEntry(entry);
-		if (invalidation) {
-			applyInvalidation(knowledge, invalidation, blockedRangesByPath);
+	const meta = extractReadMetaFromSessionEntry(entry);
+	if (meta) {
+		if (snapshot.mode !== "off") {
+			beforePathChange?.(meta.pathKey);
+			snapshot.seq += 1;
+			applyReadMetaTransition(snapshot.knowledge, meta, snapshot.seq, snapshot.blockedRangesByPath);
 		}
+		return;
 	}
 
+	const derived = extractDerivedTrustFromSessionEntry(entry);
+	if (derived) {
+		if (snapshot.mode !== "off") {
+			beforePathChange?.(derived.pathKey);
+			snapshot.seq += 1;
+			applyDerivedTrustTransition(snapshot.knowledge, derived, snapshot.seq, snapshot.blockedRangesByPath);
+		}
+		return;
+	}
+
+	const invalidation = extractInvalidationFromSessionEntry(entry);
+	if (invalidation) {
+		beforePathChange?.(invalidation.pathKey);
+		applyInvalidation(snapshot.knowledge, invalidation, snapshot.blockedRangesByPath);
+		return;
+	}
+
+	const modeChange = extractModeChangeFromSessionEntry(entry);
+	if (modeChange) {
+		snapshot.mode = modeChange.mode;
+		if (snapshot.mode === "off") {
+			snapshot.knowledge.clear();
+			snapshot.blockedRangesByPath.clear();
+			snapshot.seededByManifest = false;
+		}
+	}
+}
+
+function snapshotFromCheckpoint(checkpoint: ReadCacheCheckpointV1): ReplayMemoEntry {
+	const snapshot: ReplayMemoEntry = {
+		knowledge: new Map(),
+		blockedRangesByPath: new Map(),
+		mode: checkpoint.mode,
+		seq: checkpoint.seq,
+		entriesSinceCheckpoint: 0,
+		seededByManifest: checkpoint.relaxed === true,
+	};
+	for (const [pathKey, scopeKey, hash, seq] of checkpoint.trust) {
+		setTrust(snapshot.knowledge, pathKey, scopeKey, hash, seq);
+	}
+	for (const [pathKey, scopeKey] of checkpoint.blocked) {
+		setRangeBlocker(snapshot.blockedRangesByPath, pathKey, scopeKey);
+	}
+	return snapshot;
+}
+
+function findCheckpointAfterIndex(
+	branchEntries: SessionEntry[],
+	startIndex: number,
+	compactionBarrier: CompactionBarrier,
+): { index: number; checkpoint: ReadCacheCheckpointV1 } | undefined {
+	for (let index = branchEntries.length - 1; index >= startIndex; index -= 1) {
+		const entry = branchEntries[index];
+		const checkpoint = entry ? extractCheckpointFromSessionEntry(entry) : undefined;
+		if (checkpoint && isCheckpointUsable(checkpoint, compactionBarrier)) {
+			return { index, checkpoint };
+		}
+	}
+	return undefined;
+}
+
+function createEmptySnapshot(branchEntries: SessionEntry[], startIndex: number): ReplayMemoEntry {
 	return {
-		knowledge,
-		blockedRangesByPath,
+		knowledge: new Map(),
+		blockedRangesByPath: new Map(),
+		// Mode is a user setting rather than trust, so it carries across the compaction barrier.
+		mode: findModeBeforeIndex(branchEntries, startIndex),
+		seq: 0,
+		entriesSinceCheckpoint: 0,
+		seededByManifest: false,
 	};
 }
 
+function replaySnapshotFromBranch(
+	branchEntries: SessionEntry[],
+	startIndex: number,
+	compactionBarrier: CompactionBarrier,
+): ReplayMemoEntry {
+	const normalizedStart = Math.max(0, Math.min(startIndex, branchEntries.length));
+	// Only checkpoints after the compaction barrier describe this replay window.
+	const nearestCheckpoint = findCheckpointAfterIndex(branchEntries, normalizedStart, compactionBarrier);
+	const snapshot = nearestCheckpoint
+		? snapshotFromCheckpoint(nearestCheckpoint.checkpoint)
+		: createEmptySnapshot(branchEntries, normalizedStart);
+
+	const replayFrom = nearestCheckpoint ? nearestCheckpoint.index + 1 : normalizedStart;
+	for (let index = replayFrom; index < branchEntries.length; index += 1) {
+		const entry = branchEntries[index];
+		if (entry) {
+			applyReplayEntry(snapshot, entry, compactionBarrier);
+		}
+	}
+
+	return snapshot;
+}
+
+function extendMemoEntry(
+	ancestor: ReplayMemoEntry,
+	entries: readonly SessionEntry[],
+	compactionBarrier: CompactionBarrier,
+): ReplayMemoEntry {
+	const extended: ReplayMemoEntry = {
+		knowledge: new Map(ancestor.knowledge),
+		blockedRangesByPath: new Map(ancestor.blockedRangesByPath),
+		mode: ancestor.mode,
+		seq: ancestor.seq,
+		entriesSinceCheckpoint: ancestor.entriesSinceCheckpoint,
+		seededByManifest: ancestor.seededByManifest,
+	};
+	// Per-path maps stay shared with the ancestor until an entry changes that path.
+	const copiedPaths = new Set<string>();
+	const copyPathOnWrite = (pathKey: string): void => {
+		if (copiedPaths.has(pathKey)) {
+			return;
+		}
+		copiedPaths.add(pathKey);
+		const scopes = extended.knowledge.get(pathKey);
+		if (scopes) {
+			extended.knowledge.set(pathKey, new Map(scopes));
+		}
+		const blockedScopes = extended.blockedRangesByPath.get(pathKey);
+		if (blockedScopes) {
+			extended.blockedRangesByPath.set(pathKey, new Set(blockedScopes));
+		}
+	};
+	for (const entry of entries) {
+		applyReplayEntry(extended, entry, compactionBarrier, copyPathOnWrite);
+	}
+	return extended;
+}
+
+function extendMemoFromAncestor(
+	sessionManager: SessionManagerView,
+	runtimeState: ReplayRuntimeState,
+	sessionId: string,
+	leafId: string,
+): ReplayMemoEntry | undefined {
+	const pending: SessionEntry[] = [];
+	const { compactionBarrier } = runtimeState;
+	let current = sessionManager.getEntry(leafId);
+	while (current) {
+		const checkpoint = extractCheckpointFromSessionEntry(current);
+		if (checkpoint && isCheckpointUsable(checkpoint, compactionBarrier)) {
+			return extendMemoEntry(snapshotFromCheckpoint(checkpoint), pending.reverse(), compactionBarrier);
+		}
+		// Crossing a compaction restarts the replay window, so an ancestor's snapshot no longer applies.
+		if (current.type === "compaction" || !current.parentId) {
+			return undefined;
+		}
+		pending.push(current);
+		const ancestor = runtimeState.memoByLeaf.get(getMemoKey(sessionId, current.parentId));
+		if (ancestor) {
+			return extendMemoEntry(ancestor, pending.reverse(), compactionBarrier);
+		}
+		current = sessionManager.getEntry(current.parentId);
+	}
+	return undefined;
+}
+
 function getReplayMemoEntryForLeaf(
 	sessionManager: SessionManagerView,
 	runtimeState: ReplayRuntimeState,
 ): { memoEntry: ReplayMemoEntry; sessionId: string; leafId: string | null } {
 	const sessionId = sessionManager.getSessionId();
 	const leafId = sessionManager.getLeafId();
-	const branchEntries = sessionManager.getBranch();
-	const boundary = findReplayStartIndex(branchEntries);
-	const memoKey = getMemoKey(sessionId, leafId, boundary.boundaryKey);
+	const memoKey = getMemoKey(sessionId, leafId);
+
+	// One read or context refresh resolves the same leaf several times; only moving to a leaf counts as a lookup.
+	const resolvesNewLeaf = memoKey !== runtimeState.lastResolvedMemoKey;
+	runtimeState.lastResolvedMemoKey = memoKey;
 
 	let memoEntry = runtimeState.memoByLeaf.get(memoKey);
-	if (!memoEntry) {
-		const replayMemo = replaySnapshotFromBranch(branchEntries, boundary.startIndex);
-		memoEntry = cloneReplayMemoEntry(replayMemo);
-		runtimeState.memoByLeaf.set(memoKey, memoEntry);
+	if (memoEntry) {
+		if (resolvesNewLeaf) {
+			runtimeState.memoCounters.hits += 1;
+		}
+		// Re-inserting keeps the map in least-recently-used order.
+		runtimeState.memoByLeaf.delete(memoKey);
+	} else {
+		runtimeState.memoCounters.misses += 1;
+		memoEntry = leafId ? extendMemoFromAncestor(sessionManager, runtimeState, sessionId, leafId) : undefined;
+		if (memoEntry) {
+			runtimeState.memoCounters.extended += 1;
+		} else {
+			const branchEntries = sessionManager.getBranch();
+			memoEntry = replaySnapshotFromBranch(
+				branchEntries,
+				findReplayStartIndex(branchEntries).startIndex,
+				runtimeState.compactionBarrier,
+			);
+		}
 	}
+	runtimeState.memoByLeaf.set(memoKey, memoEntry);
+	evictReplayMemo(runtimeState);
 
 	return {
 		memoEntry,
@@ -203,17 +509,72 @@ function getReplayMemoEntryForLeaf(
 	};
 }
 
-export function createReplayRuntimeState(): ReplayRuntimeState {
+function evictReplayMemo(runtimeState: ReplayRuntimeState): void {
+	for (const memoKey of runtimeState.memoByLeaf.keys()) {
+		if (runtimeState.memoByLeaf.size <= runtimeState.memoMaxEntries) {
+			return;
+		}
+		runtimeState.memoByLeaf.delete(memoKey);
+		runtimeState.memoCounters.evictions += 1;
+	}
+}
+
+export function setReplayMemoMaxEntries(runtimeState: ReplayRuntimeState, maxEntries: number): void {
+	runtimeState.memoMaxEntries = Math.max(1, Math.floor(maxEntries));
+	evictReplayMemo(runtimeState);
+}
+
+// Memoized snapshots were replayed under the previous barrier, so a change has to replay them again.
+export function setReplayCompactionBarrier(runtimeState: ReplayRuntimeState, compactionBarrier: CompactionBarrier): void {
+	if (runtimeState.compactionBarrier === compactionBarrier) {
+		return;
+	}
+	runtimeState.compactionBarrier = compactionBarrier;
+	runtimeState.memoByLeaf.clear();
+	runtimeState.lastResolvedMemoKey = undefined;
+}
+
+export function getReplayMemoStats(runtimeState: ReplayRuntimeState): ReplayMemoStats {
+	// Snapshots extended from a common ancestor share per-path maps, so each shared map is counted once.
+	const countedScopes = new Set<object>();
+	let estimatedBytes = 0;
+	for (const memoEntry of runtimeState.memoByLeaf.values()) {
+		for (const layer of [memoEntry.knowledge, memoEntry.blockedRangesByPath]) {
+			for (const [pathKey, scopes] of layer.entries()) {
+				estimatedBytes += MEMO_PATH_ENTRY_BYTES + pathKey.length * 2;
+				if (!countedScopes.has(scopes)) {
+					countedScopes.add(scopes);
+					estimatedBytes += scopes.size * MEMO_SCOPE_ENTRY_BYTES;
+				}
+			}
+		}
+	}
+	return {
+		...runtimeState.memoCounters,
+		entries: runtimeState.memoByLeaf.size,
+		maxEntries: runtimeState.memoMaxEntries,
+		estimatedBytes,
+	};
+}
+
+export function createReplayRuntimeState(memoMaxEntries = READCACHE_MEMO_MAX_ENTRIES): ReplayRuntimeState {
 	return {
 		memoByLeaf: new Map(),
+		memoMaxEntries: Math.max(1, Math.floor(memoMaxEntries)),
+		memoCounters: { hits: 0, misses: 0, extended: 0, evictions: 0 },
+		compactionBarrier: "strict",
+		lastResolvedMemoKey: undefined,
 		overlayBySession: new Map(),
+		childIndexBySession: new Map(),
 		nextOverlaySeq: OVERLAY_SEQ_START,
 	};
 }
 
 export function clearReplayRuntimeState(runtimeState: ReplayRuntimeState): void {
 	runtimeState.memoByLeaf.clear();
+	runtimeState.lastResolvedMemoKey = undefined;
 	runtimeState.overlayBySession.clear();
+	runtimeState.childIndexBySession.clear();
 	runtimeState.nextOverlaySeq = OVERLAY_SEQ_START;
 }
 
@@ -243,8 +604,10 @@ export function applyReadMetaTransition(
 	blockedRangesByPath?: RangeBlockersByPath,
 ): void {
 	const { pathKey, scopeKey, servedHash, baseHash, mode } = meta;
-	const fullTrust = getTrust(knowledge, pathKey, SCOPE_FULL);
-	const rangeTrust = scopeKey === SCOPE_FULL ? undefined : getTrust(knowledge, pathKey, scopeKey);
+	const scopes = knowledge.get(pathKey);
+	const fullTrust = scopes?.get(SCOPE_FULL);
+	// Composed full coverage is only known to match when the served version is the base version.
+	const composedTotalLines = servedHash === baseHash ? meta.totalLines : undefined;
 
 	if (mode === "full" || mode === "baseline_fallback") {
 		setTrust(knowledge, pathKey, scopeKey, servedHash, seq);
@@ -258,10 +621,13 @@ export function applyReadMetaTransition(
 		if (!baseHash) {
 			return;
 		}
-		if (!fullTrust || fullTrust.hash !== baseHash) {
+		if (servedHash !== baseHash) {
 			return;
 		}
-		if (servedHash !== baseHash) {
+		if (
+			fullTrust?.hash !== baseHash &&
+			(!scopes || findComposedFullTrust(buildRangeIndex(scopes), baseHash, meta.totalLines) === undefined)
+		) {
 			return;
 		}
 		setTrust(knowledge, pathKey, SCOPE_FULL, servedHash, seq);
@@ -279,17 +645,48 @@ export function applyReadMetaTransition(
 		return;
 	}
 
-	if (mode === "unchanged_range" && scopeKey !== SCOPE_FULL) {
+	if ((mode === "unchanged_range" || mode === "diff_range") && scopeKey !== SCOPE_FULL) {
 		if (!baseHash) {
 			return;
 		}
-		if (rangeTrust?.hash !== baseHash && fullTrust?.hash !== baseHash) {
+		if (!hasRangeAnchor(scopes, scopeKey, baseHash, composedTotalLines)) {
+			return;
+		}
+		setTrust(knowledge, pathKey, scopeKey, servedHash, seq);
+		return;
+	}
+
+	if (mode === "moved_range" && scopeKey !== SCOPE_FULL) {
+		if (!baseHash || !meta.movedFromScopeKey) {
+			return;
+		}
+		if (!hasRangeAnchor(scopes, meta.movedFromScopeKey, baseHash)) {
 			return;
 		}
 		setTrust(knowledge, pathKey, scopeKey, servedHash, seq);
 	}
 }
 
+export function applyDerivedTrustTransition(
+	knowledge: KnowledgeMap,
+	derived: ReadCacheDerivedTrustV1,
+	seq: number,
+	blockedRangesByPath?: RangeBlockersByPath,
+): void {
+	const { pathKey, servedHash, baseHash, source } = derived;
+
+	if (source === "write") {
+		setTrust(knowledge, pathKey, SCOPE_FULL, servedHash, seq);
+		blockedRangesByPath?.delete(pathKey);
+		return;
+	}
+
+	if (!baseHash || getTrust(knowledge, pathKey, SCOPE_FULL)?.hash !== baseHash) {
+		return;
+	}
+	setTrust(knowledge, pathKey, SCOPE_FULL, servedHash, seq);
+}
+
 export function applyInvalidation(
 	knowledge: KnowledgeMap,
 	invalidation: ReadCacheInvalidationV1,
@@ -317,20 +714,74 @@ export function applyInvalidation(
 	}
 }
 
-export function replayKnowledgeFromBranch(branchEntries: SessionEntry[], startIndex: number): KnowledgeMap {
-	return replaySnapshotFromBranch(branchEntries, startIndex).knowledge;
+export function replayKnowledgeFromBranch(
+	branchEntries: SessionEntry[],
+	startIndex: number,
+	compactionBarrier: CompactionBarrier = "strict",
+): KnowledgeMap {
+	return replaySnapshotFromBranch(branchEntries, startIndex, compactionBarrier).knowledge;
+}
+
+export function replayKeptRegionKnowledge(branchEntries: SessionEntry[], firstKeptEntryId: string): KnowledgeMap {
+	const keptIndex = branchEntries.findIndex((entry) => entry.id === firstKeptEntryId);
+	if (keptIndex === -1) {
+		return new Map();
+	}
+	const startIndex = Math.max(keptIndex, findReplayStartIndex(branchEntries).startIndex);
+	const snapshot = createEmptySnapshot(branchEntries, startIndex);
+	for (let index = startIndex; index < branchEntries.length; index += 1) {
+		const entry = branchEntries[index];
+		// Seeds summarize entries outside the kept region, which the model no longer sees verbatim.
+		if (!entry || extractCheckpointFromSessionEntry(entry) || extractCompactionManifestFromSessionEntry(entry)) {
+			continue;
+		}
+		applyReplayEntry(snapshot, entry, "strict");
+	}
+	return snapshot.knowledge;
 }
 
 export function buildKnowledgeForLeaf(
 	sessionManager: SessionManagerView,
 	runtimeState: ReplayRuntimeState,
-): KnowledgeMap {
+): KnowledgeView {
 	const { memoEntry, sessionId, leafId } = getReplayMemoEntryForLeaf(sessionManager, runtimeState);
 	const overlayState = ensureOverlayForLeaf(runtimeState, sessionId, leafId);
-	if (leafHasChildren(sessionManager, leafId)) {
+	if (overlayState.knowledge.size > 0 && leafHasChildren(sessionManager, runtimeState, sessionId, leafId)) {
 		overlayState.knowledge.clear();
 	}
-	return mergeKnowledge(memoEntry.knowledge, overlayState.knowledge);
+	return createKnowledgeView(memoEntry.knowledge, overlayState.knowledge);
+}
+
+export function buildReplayCheckpointForLeaf(
+	sessionManager: SessionManagerView,
+	runtimeState: ReplayRuntimeState,
+	minEntries: number,
+): ReadCacheCheckpointV1 | undefined {
+	const { memoEntry } = getReplayMemoEntryForLeaf(sessionManager, runtimeState);
+	if (memoEntry.entriesSinceCheckpoint < minEntries) {
+		return undefined;
+	}
+
+	const trust: ReadCacheCheckpointV1["trust"] = [];
+	for (const [pathKey, scopes] of memoEntry.knowledge.entries()) {
+		for (const [scopeKey, scopeTrust] of scopes.entries()) {
+			trust.push([pathKey, scopeKey, scopeTrust.hash, scopeTrust.seq]);
+		}
+	}
+	const blocked: ReadCacheCheckpointV1["blocked"] = [];
+	for (const [pathKey, scopes] of memoEntry.blockedRangesByPath.entries()) {
+		for (const scopeKey of scopes) {
+			blocked.push([pathKey, scopeKey]);
+		}
+	}
+	return buildCheckpointV1(memoEntry.mode, memoEntry.seq, trust, blocked, memoEntry.seededByManifest);
+}
+
+export function getReadcacheModeForLeaf(
+	sessionManager: SessionManagerView,
+	runtimeState: ReplayRuntimeState,
+): ReadCacheRuntimeMode {
+	return getReplayMemoEntryForLeaf(sessionManager, runtimeState).memoEntry.mode;
 }
 
 export function isRangeScopeBlockedByInvalidation(
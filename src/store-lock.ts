@@ -0,0 +1,133 @@
+import { link, mkdir, open, readFile, rename, stat, unlink } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { READCACHE_LOCK_FILE, READCACHE_LOCK_STALE_MS } from "./constants.js";
+
+export interface StoreLockOwner {
+	pid: number;
+	acquiredAt: number;
+}
+
+type LockHolder = Partial<StoreLockOwner> & { acquiredAt: number };
+
+export interface StoreLockOptions {
+	staleMs?: number;
+	isAlive?: (pid: number) => boolean;
+}
+
+export function isProcessAlive(pid: number): boolean {
+	try {
+		process.kill(pid, 0);
+		return true;
+	} catch (error) {
+		// EPERM means the process exists but belongs to another user.
+		return (error as NodeJS.ErrnoException).code === "EPERM";
+	}
+}
+
+function isStoreLockOwner(value: unknown): value is StoreLockOwner {
+	if (!value || typeof value !== "object") {
+		return false;
+	}
+	const candidate = value as Partial<StoreLockOwner>;
+	return (
+		typeof candidate.pid === "number" &&
+		Number.isInteger(candidate.pid) &&
+		candidate.pid > 0 &&
+		typeof candidate.acquiredAt === "number"
+	);
+}
+
+async function readLockHolder(lockPath: string): Promise<LockHolder | undefined> {
+	try {
+		const parsed: unknown = JSON.parse(await readFile(lockPath, "utf-8"));
+		if (isStoreLockOwner(parsed)) {
+			return parsed;
+		}
+	} catch {
+		// Fall through: the owner may still be writing its pid.
+	}
+	try {
+		return { acquiredAt: (await stat(lockPath)).mtimeMs };
+	} catch {
+		return undefined;
+	}
+}
+
+async function tryCreateLock(lockPath: string): Promise<StoreLockOwner | undefined> {
+	let handle;
+	try {
+		handle = await open(lockPath, "wx", 0o600);
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code === "EEXIST") {
+			return undefined;
+		}
+		throw error;
+	}
+	const owner: StoreLockOwner = { pid: process.pid, acquiredAt: Date.now() };
+	try {
+		await handle.writeFile(JSON.stringify(owner), "utf-8");
+	} finally {
+		await handle.close();
+	}
+	return owner;
+}
+
+function isSameHolder(left: LockHolder, right: LockHolder): boolean {
+	return left.pid === right.pid && left.acquiredAt === right.acquiredAt;
+}
+
+// The lock is renamed aside before it is examined, so the file checked is the file deleted even when another
+// process replaces the lock in between; a lock that turns out to be someone else's is linked back in place.
+async function removeLockIfHeldBy(lockPath: string, expected: LockHolder): Promise<void> {
+	const claimedPath = `${lockPath}.${process.pid}-${Math.random().toString(16).slice(2)}.claimed`;
+	try {
+		await rename(lockPath, claimedPath);
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+			return;
+		}
+		throw error;
+	}
+	const holder = await readLockHolder(claimedPath);
+	if (!holder || !isSameHolder(holder, expected)) {
+		// Fails with EEXIST when a newer lock already took the path; that holder keeps it.
+		await link(claimedPath, lockPath).catch(() => undefined);
+	}
+	await unlink(claimedPath).catch(() => undefined);
+}
+
+export async function withStoreLock<T>(
+	storeRoot: string,
+	action: () => Promise<T>,
+	options: StoreLockOptions = {},
+): Promise<T> {
+	const staleMs = options.staleMs ?? READCACHE_LOCK_STALE_MS;
+	const isAlive = options.isAlive ?? isProcessAlive;
+	const lockPath = join(storeRoot, READCACHE_LOCK_FILE);
+	await mkdir(dirname(lockPath), { recursive: true, mode: 0o700 });
+
+	let owner = await tryCreateLock(lockPath);
+	if (!owner) {
+		const holder = await readLockHolder(lockPath);
+		// A lock whose owner died or that outlived staleMs is reclaimed once; an unreadable lock only by age.
+		if (holder && (holder.pid === undefined || isAlive(holder.pid)) && Date.now() - holder.acquiredAt < staleMs) {
+			throw new Error(
+				`Readcache object store ${storeRoot} is locked by ${holder.pid === undefined ? "another process" : `pid ${holder.pid}`}.`,
+			);
+		}
+		if (holder) {
+			await removeLockIfHeldBy(lockPath, holder);
+		}
+		owner = await tryCreateLock(lockPath);
+		if (!owner) {
+			throw new Error(`Readcache object store ${storeRoot} is locked by another process.`);
+		}
+	}
+
+	const held = owner;
+	try {
+		return await action();
+	} finally {
+		await removeLockIfHeldBy(lockPath, held).catch(() => undefined);
+	}
+}
@@ -0,0 +1,273 @@
+import { homedir } from "node:os";
+import type { ReadcacheConfigProvider } from "./config.js";
+import { READCACHE_GC_GRACE_MS, READCACHE_OBJECT_MAX_AGE_MS } from "./constants.js";
+import { removeLease, writeLease } from "./leases.js";
+import { summarizeStorageByPath, type ObjectIndexEntry, type PathStorageUsage } from "./object-index.js";
+import {
+	checkObjectStore,
+	collectGarbageObjects,
+	evictObjectsOverQuota,
+	getStorageByPath,
+	getStoreStats,
+	hashText,
+	hasObject,
+	persistObjectIfAbsent,
+	pruneObjectsOlderThan,
+	readObject,
+	type CheckObjectStoreResult,
+	type CollectGarbageResult,
+	type ObjectReadResult,
+	type ObjectStoreStats,
+	type PersistObjectOptions,
+} from "./object-store.js";
+import type { ObjectStoreLocation } from "./types.js";
+
+export interface ObjectStorePutResult {
+	hash: string;
+	written: boolean;
+}
+
+export interface ObjectStorePruneOptions {
+	maxAgeMs?: number;
+	quotaBytes?: number;
+	nowMs?: number;
+}
+
+export interface ObjectStorePruneResult {
+	scanned: number;
+	deleted: number;
+}
+
+export interface ObjectStoreGcOptions {
+	dryRun?: boolean;
+}
+
+export interface ReadcacheObjectStore {
+	// Stores with the same location share objects and leases.
+	readonly location: string;
+	put(hash: string, text: string, options?: PersistObjectOptions): Promise<ObjectStorePutResult>;
+	get(hash: string): Promise<ObjectReadResult>;
+	has(hash: string): Promise<boolean>;
+	stats(): Promise<ObjectStoreStats>;
+	usageByPath(limit: number): Promise<PathStorageUsage[]>;
+	prune(options?: ObjectStorePruneOptions): Promise<ObjectStorePruneResult>;
+	collectGarbage(referencedHashes: ReadonlySet<string>, options?: ObjectStoreGcOptions): Promise<CollectGarbageResult>;
+	check(): Promise<CheckObjectStoreResult>;
+	renewLease(sessionId: string, hashes: readonly string[]): Promise<void>;
+	releaseLease(sessionId: string): Promise<void>;
+}
+
+export type ReadcacheObjectStoreProvider = (repoRoot: string) => ReadcacheObjectStore;
+
+export interface FilesystemObjectStoreOptions {
+	origin?: string;
+}
+
+export function createFilesystemObjectStore(
+	repoRoot: string,
+	storeOptions: FilesystemObjectStoreOptions = {},
+): ReadcacheObjectStore {
+	const origin = storeOptions.origin !== undefined ? { origin: storeOptions.origin } : {};
+	return {
+		location: repoRoot,
+		async put(hash, text, options = {}) {
+			const persisted = await persistObjectIfAbsent(repoRoot, hash, text, { ...options, ...origin });
+			return { hash: persisted.hash, written: persisted.written };
+		},
+		get: (hash) => readObject(repoRoot, hash, origin),
+		has: (hash) => hasObject(repoRoot, hash),
+		stats: () => getStoreStats(repoRoot, origin),
+		usageByPath: (limit) => getStorageByPath(repoRoot, limit),
+		async prune(options = {}) {
+			const aged = await pruneObjectsOlderThan(
+				repoRoot,
+				options.maxAgeMs ?? READCACHE_OBJECT_MAX_AGE_MS,
+				options.nowMs ?? Date.now(),
+				origin,
+			);
+			if (options.quotaBytes === undefined) {
+				return { scanned: aged.scanned, deleted: aged.deleted };
+			}
+			const evicted = await evictObjectsOverQuota(repoRoot, options.quotaBytes, origin);
+			return { scanned: aged.scanned, deleted: aged.deleted + evicted.deleted };
+		},
+		collectGarbage: (referencedHashes, options = {}) =>
+			collectGarbageObjects(repoRoot, referencedHashes, { ...options, ...origin }),
+		check: () => checkObjectStore(repoRoot),
+		renewLease: (sessionId, hashes) =>
+			writeLease(repoRoot, { v: 1, pid: process.pid, sessionId, updatedAt: Date.now(), hashes: [...hashes] }),
+		releaseLease: (sessionId) => removeLease(repoRoot, process.pid, sessionId),
+	};
+}
+
+export function defaultReadcacheObjectStore(repoRoot: string): ReadcacheObjectStore {
+	return createFilesystemObjectStore(repoRoot);
+}
+
+export function resolveObjectStoreRoot(repoRoot: string, location: ObjectStoreLocation, homeDir = homedir()): string {
+	return location === "user" ? homeDir : repoRoot;
+}
+
+// The user-level store records each repo as an object origin so per-repo pruning, eviction, and GC leave other
+// repos' objects alone.
+export function createConfiguredObjectStoreProvider(
+	getConfig: ReadcacheConfigProvider,
+	homeDir = homedir(),
+): ReadcacheObjectStoreProvider {
+	return (repoRoot) => {
+		const storeRoot = resolveObjectStoreRoot(repoRoot, getConfig().objectStore, homeDir);
+		return storeRoot === repoRoot
+			? createFilesystemObjectStore(repoRoot)
+			: createFilesystemObjectStore(storeRoot, { origin: repoRoot });
+	};
+}
+
+let memoryStoreCount = 0;
+
+export function createMemoryObjectStore(): ReadcacheObjectStore {
+	memoryStoreCount += 1;
+	const location = `memory:${memoryStoreCount}`;
+	// Map order doubles as recency: reads re-insert objects at the end.
+	const objects = new Map<string, ObjectIndexEntry & { text: string }>();
+
+	const evictOverQuota = (quotaBytes: number): number => {
+		let bytes = [...objects.values()].reduce((total, object) => total + object.bytes, 0);
+		if (quotaBytes === 0 || bytes <= quotaBytes) {
+			return 0;
+		}
+		let deleted = 0;
+		for (const object of [...objects.values()]) {
+			if (bytes <= quotaBytes) {
+				break;
+			}
+			objects.delete(object.hash);
+			bytes -= object.bytes;
+			deleted += 1;
+		}
+		return deleted;
+	};
+
+	const touch = (object: ObjectIndexEntry & { text: string }): void => {
+		object.lastUsedAt = Math.max(object.lastUsedAt, Date.now());
+		objects.delete(object.hash);
+		objects.set(object.hash, object);
+	};
+
+	return {
+		location,
+		async put(hash, text, options = {}) {
+			// Like the filesystem store, persisting an object that already exists counts as a use.
+			const existing = objects.get(hash);
+			if (existing) {
+				touch(existing);
+				return { hash, written: false };
+			}
+			if (hashText(text) !== hash) {
+				throw new Error(`Object text does not match sha256 hash "${hash}".`);
+			}
+			const bytes = Buffer.byteLength(text, "utf-8");
+			const now = Date.now();
+			objects.set(hash, {
+				hash,
+				kind: "plain",
+				bytes,
+				logicalBytes: bytes,
+				...(options.pathKey !== undefined ? { pathKey: options.pathKey } : {}),
+				firstSeenAt: now,
+				lastUsedAt: now,
+				text,
+			});
+			if (options.quotaBytes !== undefined) {
+				evictOverQuota(options.quotaBytes);
+			}
+			return { hash, written: true };
+		},
+		async get(hash) {
+			const object = objects.get(hash);
+			if (!object) {
+				return { status: "missing" };
+			}
+			touch(object);
+			return { status: "found", text: object.text };
+		},
+		async has(hash) {
+			return objects.has(hash);
+		},
+		async stats() {
+			let bytes = 0;
+			for (const object of objects.values()) {
+				bytes += object.bytes;
+			}
+			return { objects: objects.size, bytes, logicalBytes: bytes };
+		},
+		async usageByPath(limit) {
+			return summarizeStorageByPath(objects.values(), limit);
+		},
+		async prune(options = {}) {
+			const scanned = objects.size;
+			const cutoffMs = (options.nowMs ?? Date.now()) - (options.maxAgeMs ?? READCACHE_OBJECT_MAX_AGE_MS);
+			let deleted = 0;
+			for (const object of [...objects.values()]) {
+				if (object.lastUsedAt <= cutoffMs) {
+					objects.delete(object.hash);
+					deleted += 1;
+				}
+			}
+			if (options.quotaBytes !== undefined) {
+				deleted += evictOverQuota(options.quotaBytes);
+			}
+			return { scanned, deleted };
+		},
+		async collectGarbage(referencedHashes, options = {}) {
+			const dryRun = options.dryRun ?? false;
+			const cutoffMs = Date.now() - READCACHE_GC_GRACE_MS;
+			const result: CollectGarbageResult = {
+				scanned: objects.size,
+				referenced: 0,
+				retainedBases: 0,
+				retainedRecent: 0,
+				retainedShared: 0,
+				retainedLeased: 0,
+				released: 0,
+				deleted: 0,
+				freedBytes: 0,
+				dryRun,
+			};
+			for (const object of [...objects.values()]) {
+				if (referencedHashes.has(object.hash)) {
+					result.referenced += 1;
+				} else if (object.firstSeenAt > cutoffMs) {
+					result.retainedRecent += 1;
+				} else {
+					result.deleted += 1;
+					result.freedBytes += object.bytes;
+					if (!dryRun) {
+						objects.delete(object.hash);
+					}
+				}
+			}
+			return result;
+		},
+		async check() {
+			let corrupt = 0;
+			for (const object of [...objects.values()]) {
+				if (hashText(object.text) !== object.hash) {
+					objects.delete(object.hash);
+					corrupt += 1;
+				}
+			}
+			return {
+				checked: objects.size + corrupt,
+				corrupt,
+				dangling: 0,
+				quarantined: 0,
+				tempFilesRemoved: 0,
+				permissionsFixed: 0,
+				indexed: objects.size,
+			};
+		},
+		// Memory objects live and die with this process, so no other session can prune them.
+		async renewLease() {},
+		async releaseLease() {},
+	};
+}
@@ -1,7 +1,7 @@
 import type { ExtensionContext, SessionEntry } from "@mariozechner/pi-coding-agent";
 import { extractReadMetaFromSessionEntry } from "./meta.js";
 import { findReplayStartIndex } from "./replay.js";
-import type { KnowledgeMap, ReadCacheMode } from "./types.js";
+import type { KnowledgeView, ReadCacheMode } from "./types.js";
 
 export type ReadCacheModeCounts = Record<ReadCacheMode, number>;
 
@@ -19,6 +19,8 @@ function createModeCounts(): ReadCacheModeCounts {
 		unchanged: 0,
 		unchanged_range: 0,
 		diff: 0,
+		diff_range: 0,
+		moved_range: 0,
 		baseline_fallback: 0,
 	};
 }
@@ -96,7 +98,7 @@ export function collectReplayTelemetry(sessionManager: ExtensionContext["session
 	};
 }
 
-export function summarizeKnowledge(knowledge: KnowledgeMap): { trackedFiles: number; trackedScopes: number } {
+export function summarizeKnowledge(knowledge: KnowledgeView): { trackedFiles: number; trackedScopes: number } {
 	let trackedScopes = 0;
 	for (const scopes of knowledge.values()) {
 		trackedScopes += scopes.size;
@@ -31,6 +31,34 @@ export function compareSlices(oldText: string, newText: string, start: number, e
 	return sliceByLineRange(oldText, start, end) === sliceByLineRange(newText, start, end);
 }
 
+function linesMatchAt(lines: string[], sliceLines: string[], start: number): boolean {
+	for (let index = 0; index < sliceLines.length; index += 1) {
+		if (lines[start - 1 + index] !== sliceLines[index]) {
+			return false;
+		}
+	}
+	return true;
+}
+
+export function findShiftedSlice(slice: string, text: string, start: number): number | undefined {
+	if (slice.trim().length === 0) {
+		return undefined;
+	}
+
+	const sliceLines = splitLines(slice);
+	const lines = splitLines(text);
+	const lastStart = lines.length - sliceLines.length + 1;
+	const maxDistance = Math.max(start - 1, lastStart - start);
+	for (let distance = 1; distance <= maxDistance; distance += 1) {
+		for (const candidate of [start + distance, start - distance]) {
+			if (candidate >= 1 && candidate <= lastStart && linesMatchAt(lines, sliceLines, candidate)) {
+				return candidate;
+			}
+		}
+	}
+	return undefined;
+}
+
 export function estimateTokens(text: string): number {
 	if (text.length === 0) {
 		return 0;
@@ -1,5 +1,4 @@
 import { readFile } from "node:fs/promises";
-import { basename } from "node:path";
 import {
 	DEFAULT_MAX_BYTES,
 	DEFAULT_MAX_LINES,
@@ -7,30 +6,30 @@ import {
 	type AgentToolResult,
 	type ExtensionContext,
 	type ReadToolDetails,
-	type TruncationResult,
 } from "@mariozechner/pi-coding-agent";
 import { type Static, Type } from "@sinclair/typebox";
-import {
-	DEFAULT_EXCLUDED_PATH_PATTERNS,
-	MAX_DIFF_FILE_BYTES,
-	MAX_DIFF_FILE_LINES,
-	SCOPE_FULL,
-} from "./constants.js";
-import { computeUnifiedDiff, isDiffUseful } from "./diff.js";
+import { defaultReadcacheConfig, type ReadcacheConfigProvider } from "./config.js";
+import { SCOPE_FULL } from "./constants.js";
+import { computeRangeUnifiedDiff, computeUnifiedDiff, isDiffUseful, type DiffComputation } from "./diff.js";
 import { buildReadCacheMetaV1 } from "./meta.js";
-import { hashBytes, loadObject, persistObjectIfAbsent } from "./object-store.js";
+import { hashBytes, type ObjectReadResult, type PersistObjectOptions } from "./object-store.js";
 import { normalizeOffsetLimit, parseTrailingRangeIfNeeded, scopeKeyForRange } from "./path.js";
+import { findExclusionPattern, resolvePathPolicy } from "./policy.js";
+import { buildRangeIndex, findComposedFullTrust, findContainingRangeTrust, selectLatestTrust } from "./range-index.js";
 import {
 	buildKnowledgeForLeaf,
 	createReplayRuntimeState,
+	getReadcacheModeForLeaf,
 	isRangeScopeBlockedByInvalidation,
 	overlaySet,
 	type ReplayRuntimeState,
 } from "./replay.js";
-import { compareSlices, splitLines, truncateForReadcache } from "./text.js";
+import { defaultReadcacheObjectStore, type ReadcacheObjectStore, type ReadcacheObjectStoreProvider } from "./store.js";
+import { findShiftedSlice, sliceByLineRange, splitLines, truncateForReadcache } from "./text.js";
 import type {
 	ReadCacheDebugReason,
 	ReadCacheDebugV1,
+	ReadCacheExclusionV1,
 	ReadCacheMetaV1,
 	ReadToolDetailsExt,
 	ScopeKey,
@@ -74,20 +73,10 @@ function throwIfAborted(signal: AbortSignal | undefined): void {
 	}
 }
 
-function isExcludedPath(pathKey: string): boolean {
-	const baseName = basename(pathKey).toLowerCase();
-	return DEFAULT_EXCLUDED_PATH_PATTERNS.some((pattern) => {
-		if (pattern === ".env*") {
-			return baseName.startsWith(".env");
-		}
-		if (pattern.startsWith("*")) {
-			return baseName.endsWith(pattern.slice(1));
-		}
-		return baseName === pattern;
-	});
-}
-
-function withReadcacheDetails(details: ReadToolDetails | undefined, readcache: ReadCacheMetaV1): ReadToolDetailsExt {
+function withReadcacheDetails(
+	details: ReadToolDetails | undefined,
+	readcache: ReadCacheMetaV1 | ReadCacheExclusionV1,
+): ReadToolDetailsExt {
 	return {
 		...(details ?? {}),
 		readcache,
@@ -96,7 +85,7 @@ function withReadcacheDetails(details: ReadToolDetails | undefined, readcache: R
 
 function attachMetaToBaseline(
 	baselineResult: AgentToolResult<ReadToolDetails | undefined>,
-	meta: ReadCacheMetaV1,
+	meta: ReadCacheMetaV1 | ReadCacheExclusionV1,
 ): AgentToolResult<ReadToolDetailsExt | undefined> {
 	return {
 		...baselineResult,
@@ -104,14 +93,10 @@ function attachMetaToBaseline(
 	};
 }
 
-function buildTextResult(
-	text: string,
-	meta: ReadCacheMetaV1,
-	truncation?: TruncationResult,
-): AgentToolResult<ReadToolDetailsExt | undefined> {
+function buildTextResult(text: string, meta: ReadCacheMetaV1): AgentToolResult<ReadToolDetailsExt | undefined> {
 	return {
 		content: [{ type: "text", text }],
-		details: withReadcacheDetails(truncation ? { truncation } : undefined, meta),
+		details: withReadcacheDetails(undefined, meta),
 	};
 }
 
@@ -174,31 +159,29 @@ function buildDebugInfo(
 }
 
 function selectBaseTrust(
-	pathKnowledge: Map<ScopeKey, ScopeTrust> | undefined,
+	pathKnowledge: ReadonlyMap<ScopeKey, ScopeTrust> | undefined,
 	scopeKey: ScopeKey,
+	start: number,
+	end: number,
+	current: CurrentTextState,
 	rangeScopeBlocked: boolean,
 ): ScopeTrust | undefined {
 	if (!pathKnowledge) {
 		return undefined;
 	}
 
-	if (scopeKey === SCOPE_FULL) {
-		return pathKnowledge.get(SCOPE_FULL);
-	}
-
-	if (rangeScopeBlocked) {
+	if (scopeKey !== SCOPE_FULL && rangeScopeBlocked) {
 		return undefined;
 	}
 
-	const exactTrust = pathKnowledge.get(scopeKey);
 	const fullTrust = pathKnowledge.get(SCOPE_FULL);
-	if (!exactTrust) {
-		return fullTrust;
-	}
-	if (!fullTrust) {
-		return exactTrust;
+	const rangeIndex = buildRangeIndex(pathKnowledge);
+	const composedTrust = findComposedFullTrust(rangeIndex, current.currentHash, current.totalLines);
+	if (scopeKey === SCOPE_FULL) {
+		return selectLatestTrust(fullTrust, composedTrust);
 	}
-	return exactTrust.seq >= fullTrust.seq ? exactTrust : fullTrust;
+
+	return selectLatestTrust(fullTrust, findContainingRangeTrust(rangeIndex, start, end), composedTrust);
 }
 
 function buildUnchangedMarker(scopeKey: ScopeKey, start: number, end: number, totalLines: number, outsideRangeChanged: boolean): string {
@@ -211,10 +194,18 @@ function buildUnchangedMarker(scopeKey: ScopeKey, start: number, end: number, to
 	return `[readcache: unchanged in lines ${start}-${end} of ${totalLines}]`;
 }
 
+function buildMovedMarker(start: number, end: number, movedStart: number, movedEnd: number): string {
+	return `[readcache: lines ${start}-${end} content unchanged, now at ${movedStart}-${movedEnd}]`;
+}
+
 function buildDiffPayload(changedLines: number, totalLines: number, diffText: string): string {
 	return `[readcache: ${changedLines} lines changed of ${totalLines}]\n${diffText}`;
 }
 
+function buildRangeDiffPayload(changedLines: number, start: number, end: number, totalLines: number, diffText: string): string {
+	return `[readcache: ${changedLines} lines changed in lines ${start}-${end} of ${totalLines}]\n${diffText}`;
+}
+
 async function readCurrentTextStrict(absolutePath: string): Promise<CurrentTextState | undefined> {
 	let fileBytes: Buffer;
 	try {
@@ -242,20 +233,26 @@ async function readCurrentTextStrict(absolutePath: string): Promise<CurrentTextS
 async function persistAndOverlay(
 	runtimeState: ReplayRuntimeState,
 	ctx: ExtensionContext,
+	store: ReadcacheObjectStore,
 	pathKey: string,
 	scopeKey: ScopeKey,
 	servedHash: string,
 	text: string,
+	persistOptions: PersistObjectOptions,
 ): Promise<void> {
 	try {
-		await persistObjectIfAbsent(ctx.cwd, servedHash, text);
+		await store.put(servedHash, text, persistOptions);
 	} catch {
 		// Object persistence failures are fail-open.
 	}
 	overlaySet(runtimeState, ctx.sessionManager, pathKey, scopeKey, servedHash);
 }
 
-export function createReadOverrideTool(runtimeState: ReplayRuntimeState = createReplayRuntimeState()) {
+export function createReadOverrideTool(
+	runtimeState: ReplayRuntimeState = createReplayRuntimeState(),
+	getConfig: ReadcacheConfigProvider = defaultReadcacheConfig,
+	getStore: ReadcacheObjectStoreProvider = defaultReadcacheObjectStore,
+) {
 	return {
 		name: "read",
 		label: "read",
@@ -283,8 +280,22 @@ export function createReadOverrideTool(runtimeState: ReplayRuntimeState = create
 				return baselineResult;
 			}
 
-			if (isExcludedPath(parsed.absolutePath)) {
-				return baselineResult;
+			const config = getConfig();
+			// Excluded files are matched by path alone, so readcache never reads or hashes their content.
+			const excludedBy = findExclusionPattern(parsed.absolutePath, ctx.cwd, config.excludedPathPatterns);
+			if (excludedBy !== undefined) {
+				return attachMetaToBaseline(baselineResult, {
+					v: 1,
+					pathKey: parsed.absolutePath,
+					mode: "full",
+					debug: {
+						reason: "path_excluded",
+						scope: parsed.offset === undefined && parsed.limit === undefined ? "full" : "range",
+						baseHashFound: false,
+						diffAttempted: false,
+						excludedBy,
+					},
+				});
 			}
 
 			throwIfAborted(signal);
@@ -308,6 +319,28 @@ export function createReadOverrideTool(runtimeState: ReplayRuntimeState = create
 			throwIfAborted(signal);
 			const pathKey = parsed.absolutePath;
 			const scopeKey = scopeKeyForRange(start, end, totalLines);
+			const store = getStore(ctx.cwd);
+			const persistOptions: PersistObjectOptions = { quotaBytes: config.objectQuotaBytes, pathKey };
+
+			const readcacheMode = getReadcacheModeForLeaf(ctx.sessionManager, runtimeState);
+			if (readcacheMode !== "on") {
+				const meta = buildReadcacheMeta(
+					pathKey,
+					scopeKey,
+					current.currentHash,
+					"full",
+					totalLines,
+					start,
+					end,
+					current.bytes.byteLength,
+					undefined,
+					buildDebugInfo(scopeKey, undefined, readcacheMode === "off" ? "mode_off" : "mode_paused"),
+				);
+				if (readcacheMode === "paused") {
+					await persistAndOverlay(runtimeState, ctx, store, pathKey, scopeKey, current.currentHash, current.text, persistOptions);
+				}
+				return attachMetaToBaseline(baselineResult, meta);
+			}
 
 			if (params.bypass_cache === true) {
 				const meta = buildReadcacheMeta(
@@ -322,19 +355,43 @@ export function createReadOverrideTool(runtimeState: ReplayRuntimeState = create
 					undefined,
 					buildDebugInfo(scopeKey, undefined, "bypass_cache"),
 				);
-				await persistAndOverlay(runtimeState, ctx, pathKey, scopeKey, current.currentHash, current.text);
+				await persistAndOverlay(runtimeState, ctx, store, pathKey, scopeKey, current.currentHash, current.text, persistOptions);
+				return attachMetaToBaseline(baselineResult, meta);
+			}
+
+			const policyRule = resolvePathPolicy(pathKey, ctx.cwd, config.pathPolicies);
+			const policy = policyRule?.policy ?? "default";
+			const policyDebug = policyRule ? { policy: policyRule.policy, policyPattern: policyRule.pattern } : {};
+
+			if (policy === "always_full") {
+				const meta = buildReadcacheMeta(
+					pathKey,
+					scopeKey,
+					current.currentHash,
+					"full",
+					totalLines,
+					start,
+					end,
+					current.bytes.byteLength,
+					undefined,
+					buildDebugInfo(scopeKey, undefined, "path_policy", policyDebug),
+				);
+				await persistAndOverlay(runtimeState, ctx, store, pathKey, scopeKey, current.currentHash, current.text, persistOptions);
 				return attachMetaToBaseline(baselineResult, meta);
 			}
 
 			const knowledge = buildKnowledgeForLeaf(ctx.sessionManager, runtimeState);
 			const pathKnowledge = knowledge.get(pathKey);
+			const previousHash = selectLatestTrust(...(pathKnowledge?.values() ?? []))?.hash;
+			const chainOptions: PersistObjectOptions =
+				previousHash !== undefined ? { ...persistOptions, deltaBaseHash: previousHash } : persistOptions;
 			const rangeScopeBlocked = isRangeScopeBlockedByInvalidation(
 				ctx.sessionManager,
 				runtimeState,
 				pathKey,
 				scopeKey,
 			);
-			const baseHash = selectBaseTrust(pathKnowledge, scopeKey, rangeScopeBlocked)?.hash;
+			const baseHash = selectBaseTrust(pathKnowledge, scopeKey, start, end, current, rangeScopeBlocked)?.hash;
 
 			if (!baseHash) {
 				const meta = buildReadcacheMeta(
@@ -349,7 +406,7 @@ export function createReadOverrideTool(runtimeState: ReplayRuntimeState = create
 					undefined,
 					buildDebugInfo(scopeKey, baseHash, "no_base_hash"),
 				);
-				await persistAndOverlay(runtimeState, ctx, pathKey, scopeKey, current.currentHash, current.text);
+				await persistAndOverlay(runtimeState, ctx, store, pathKey, scopeKey, current.currentHash, current.text, chainOptions);
 				return attachMetaToBaseline(baselineResult, meta);
 			}
 
@@ -368,17 +425,10 @@ export function createReadOverrideTool(runtimeState: ReplayRuntimeState = create
 					buildDebugInfo(scopeKey, baseHash, "hash_match"),
 				);
 				const marker = buildUnchangedMarker(scopeKey, start, end, totalLines, false);
-				await persistAndOverlay(runtimeState, ctx, pathKey, scopeKey, current.currentHash, current.text);
+				await persistAndOverlay(runtimeState, ctx, store, pathKey, scopeKey, current.currentHash, current.text, chainOptions);
 				return buildMarkerResult(marker, meta);
 			}
 
-			let baseText: string | undefined;
-			try {
-				baseText = await loadObject(ctx.cwd, baseHash);
-			} catch {
-				baseText = undefined;
-			}
-
 			const fallbackResult = async (
 				reason: ReadCacheDebugReason,
 				overrides: Partial<Omit<ReadCacheDebugV1, "reason" | "scope" | "baseHashFound" | "diffAttempted">> & {
@@ -398,16 +448,70 @@ export function createReadOverrideTool(runtimeState: ReplayRuntimeState = create
 					baseHash,
 					buildDebugInfo(scopeKey, baseHash, reason, overrides),
 				);
-				await persistAndOverlay(runtimeState, ctx, pathKey, scopeKey, current.currentHash, current.text);
+				await persistAndOverlay(runtimeState, ctx, store, pathKey, scopeKey, current.currentHash, current.text, chainOptions);
 				return attachMetaToBaseline(baselineResult, meta);
 			};
 
-			if (!baseText) {
+			const diffResult = async (
+				mode: "diff" | "diff_range",
+				diff: DiffComputation,
+				diffPayload: string,
+			): Promise<AgentToolResult<ReadToolDetailsExt | undefined>> => {
+				const truncation = truncateForReadcache(diffPayload);
+				if (truncation.truncated) {
+					return fallbackResult("diff_payload_truncated", {
+						diffAttempted: true,
+						diffBytes: diff.diffBytes,
+						diffChangedLines: diff.changedLines,
+					});
+				}
+
+				throwIfAborted(signal);
+				const meta = buildReadcacheMeta(
+					pathKey,
+					scopeKey,
+					current.currentHash,
+					mode,
+					totalLines,
+					start,
+					end,
+					current.bytes.byteLength,
+					baseHash,
+					buildDebugInfo(scopeKey, baseHash, "diff_emitted", {
+						diffAttempted: true,
+						diffBytes: diff.diffBytes,
+						diffChangedLines: diff.changedLines,
+					}),
+				);
+				await persistAndOverlay(runtimeState, ctx, store, pathKey, scopeKey, current.currentHash, current.text, chainOptions);
+				return buildTextResult(truncation.content, meta);
+			};
+
+			// Both policies still serve unchanged and moved range markers; only a diff is replaced by baseline content.
+			const diffBlockedByPolicy = policy === "no_diff" || policy === "unchanged_only";
+			if (diffBlockedByPolicy && scopeKey === SCOPE_FULL) {
+				return fallbackResult("path_policy", policyDebug);
+			}
+
+			let baseObject: ObjectReadResult;
+			try {
+				baseObject = await store.get(baseHash);
+			} catch {
+				baseObject = { status: "missing" };
+			}
+
+			if (baseObject.status === "corrupt") {
+				return fallbackResult("base_object_corrupt", { baseObjectFound: false });
+			}
+			if (baseObject.status === "missing" || !baseObject.text) {
 				return fallbackResult("base_object_missing", { baseObjectFound: false });
 			}
+			const baseText = baseObject.text;
 
 			if (scopeKey !== SCOPE_FULL) {
-				if (compareSlices(baseText, current.text, start, end)) {
+				const baseSlice = sliceByLineRange(baseText, start, end);
+				const currentSlice = sliceByLineRange(current.text, start, end);
+				if (baseSlice === currentSlice) {
 					const meta = buildReadcacheMeta(
 						pathKey,
 						scopeKey,
@@ -421,20 +525,65 @@ export function createReadOverrideTool(runtimeState: ReplayRuntimeState = create
 						buildDebugInfo(scopeKey, baseHash, "range_slice_unchanged", { outsideRangeChanged: true }),
 					);
 					const marker = buildUnchangedMarker(scopeKey, start, end, totalLines, true);
-					await persistAndOverlay(runtimeState, ctx, pathKey, scopeKey, current.currentHash, current.text);
+					await persistAndOverlay(runtimeState, ctx, store, pathKey, scopeKey, current.currentHash, current.text, chainOptions);
 					return buildMarkerResult(marker, meta);
 				}
-				return fallbackResult("range_slice_changed", { outsideRangeChanged: true });
+
+				const movedStart = findShiftedSlice(baseSlice, current.text, start);
+				if (movedStart !== undefined) {
+					const sliceLineCount = splitLines(baseSlice).length;
+					const movedEnd = movedStart + sliceLineCount - 1;
+					const movedScopeKey = scopeKeyForRange(movedStart, movedEnd, totalLines);
+					if (
+						movedScopeKey !== SCOPE_FULL &&
+						!isRangeScopeBlockedByInvalidation(ctx.sessionManager, runtimeState, pathKey, movedScopeKey)
+					) {
+						const meta = buildReadCacheMetaV1({
+							pathKey,
+							scopeKey: movedScopeKey,
+							servedHash: current.currentHash,
+							baseHash,
+							movedFromScopeKey: scopeKey,
+							mode: "moved_range",
+							totalLines,
+							rangeStart: movedStart,
+							rangeEnd: movedEnd,
+							bytes: current.bytes.byteLength,
+							debug: buildDebugInfo(scopeKey, baseHash, "range_slice_moved", { outsideRangeChanged: true }),
+						});
+						const marker = buildMovedMarker(start, start + sliceLineCount - 1, movedStart, movedEnd);
+						await persistAndOverlay(runtimeState, ctx, store, pathKey, movedScopeKey, current.currentHash, current.text, chainOptions);
+						return buildMarkerResult(marker, meta);
+					}
+				}
+
+				if (diffBlockedByPolicy) {
+					return fallbackResult("path_policy", policyDebug);
+				}
+
+				throwIfAborted(signal);
+				const rangeDiff = computeRangeUnifiedDiff(baseSlice, currentSlice, parsed.pathInput, start);
+				if (!rangeDiff) {
+					return fallbackResult("range_slice_changed", { outsideRangeChanged: true, diffAttempted: true });
+				}
+				if (!isDiffUseful(rangeDiff.diffText, baseSlice, currentSlice, config.diff)) {
+					return fallbackResult("diff_not_useful", { diffAttempted: true, diffBytes: rangeDiff.diffBytes });
+				}
+				return diffResult(
+					"diff_range",
+					rangeDiff,
+					buildRangeDiffPayload(rangeDiff.changedLines, start, end, totalLines, rangeDiff.diffText),
+				);
 			}
 
 			const baseBytes = Buffer.byteLength(baseText, "utf-8");
 			const largestBytes = Math.max(baseBytes, current.bytes.byteLength);
-			if (largestBytes > MAX_DIFF_FILE_BYTES) {
+			if (largestBytes > config.diff.maxFileBytes) {
 				return fallbackResult("diff_file_too_large_bytes", { diffAttempted: true, largestBytes });
 			}
 
 			const maxLines = Math.max(splitLines(baseText).length, totalLines);
-			if (maxLines > MAX_DIFF_FILE_LINES) {
+			if (maxLines > config.diff.maxFileLines) {
 				return fallbackResult("diff_file_too_large_lines", { diffAttempted: true, maxLines });
 			}
 
@@ -443,39 +592,11 @@ export function createReadOverrideTool(runtimeState: ReplayRuntimeState = create
 			if (!diff) {
 				return fallbackResult("diff_unavailable_or_empty", { diffAttempted: true });
 			}
-			if (!isDiffUseful(diff.diffText, baseText, current.text)) {
+			if (!isDiffUseful(diff.diffText, baseText, current.text, config.diff)) {
 				return fallbackResult("diff_not_useful", { diffAttempted: true, diffBytes: diff.diffBytes });
 			}
 
-			const diffPayload = buildDiffPayload(diff.changedLines, totalLines, diff.diffText);
-			const truncation = truncateForReadcache(diffPayload);
-			if (truncation.truncated) {
-				return fallbackResult("diff_payload_truncated", {
-					diffAttempted: true,
-					diffBytes: diff.diffBytes,
-					diffChangedLines: diff.changedLines,
-				});
-			}
-
-			throwIfAborted(signal);
-			const meta = buildReadcacheMeta(
-				pathKey,
-				scopeKey,
-				current.currentHash,
-				"diff",
-				totalLines,
-				start,
-				end,
-				current.bytes.byteLength,
-				baseHash,
-				buildDebugInfo(scopeKey, baseHash, "diff_emitted", {
-					diffAttempted: true,
-					diffBytes: diff.diffBytes,
-					diffChangedLines: diff.changedLines,
-				}),
-			);
-			await persistAndOverlay(runtimeState, ctx, pathKey, scopeKey, current.currentHash, current.text);
-			return buildTextResult(truncation.content, meta, truncation.truncated ? truncation : undefined);
+			return diffResult("diff", diff, buildDiffPayload(diff.changedLines, totalLines, diff.diffText));
 		},
 	};
 }
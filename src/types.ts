@@ -10,21 +10,36 @@ export interface ScopeTrust {
 	seq: number;
 }
 
-export type ReadCacheMode = "full" | "unchanged" | "unchanged_range" | "diff" | "baseline_fallback";
+export type ReadCacheMode = "full" | "unchanged" | "unchanged_range" | "diff" | "diff_range" | "moved_range" | "baseline_fallback";
+
+export type PathPolicy = "default" | "no_diff" | "always_full" | "unchanged_only";
+
+export type ObjectStoreLocation = "repo" | "user";
+
+export interface PathPolicyRule {
+	pattern: string;
+	policy: PathPolicy;
+}
 
 export type ReadCacheDebugReason =
 	| "no_base_hash"
 	| "hash_match"
 	| "base_object_missing"
+	| "base_object_corrupt"
 	| "range_slice_unchanged"
 	| "range_slice_changed"
+	| "range_slice_moved"
 	| "diff_file_too_large_bytes"
 	| "diff_file_too_large_lines"
 	| "diff_unavailable_or_empty"
 	| "diff_not_useful"
 	| "diff_payload_truncated"
 	| "diff_emitted"
-	| "bypass_cache";
+	| "bypass_cache"
+	| "path_excluded"
+	| "path_policy"
+	| "mode_off"
+	| "mode_paused";
 
 export interface ReadCacheDebugV1 {
 	reason: ReadCacheDebugReason;
@@ -37,6 +52,9 @@ export interface ReadCacheDebugV1 {
 	maxLines?: number;
 	diffBytes?: number;
 	diffChangedLines?: number;
+	excludedBy?: string;
+	policy?: PathPolicy;
+	policyPattern?: string;
 }
 
 export interface ReadCacheMetaV1 {
@@ -45,6 +63,7 @@ export interface ReadCacheMetaV1 {
 	scopeKey: ScopeKey;
 	servedHash: string;
 	baseHash?: string;
+	movedFromScopeKey?: ScopeRangeKey;
 	mode: ReadCacheMode;
 	totalLines: number;
 	rangeStart: number;
@@ -61,6 +80,55 @@ export interface ReadCacheInvalidationV1 {
 	at: number;
 }
 
+export type ReadCacheRuntimeMode = "on" | "off" | "paused";
+
+export interface ReadCacheModeChangeV1 {
+	v: 1;
+	kind: "mode";
+	mode: ReadCacheRuntimeMode;
+	at: number;
+}
+
+export type ReadCacheDerivedSource = "edit" | "write";
+
+export interface ReadCacheDerivedTrustV1 {
+	v: 1;
+	kind: "derived";
+	source: ReadCacheDerivedSource;
+	pathKey: string;
+	servedHash: string;
+	baseHash?: string;
+	at: number;
+}
+
+export type ReadCacheCheckpointTrustV1 = [pathKey: string, scopeKey: ScopeKey, hash: string, seq: number];
+
+export type ReadCacheCheckpointBlockerV1 = [pathKey: string, scopeKey: ScopeRangeKey];
+
+export interface ReadCacheCheckpointV1 {
+	v: 1;
+	kind: "checkpoint";
+	mode: ReadCacheRuntimeMode;
+	seq: number;
+	trust: ReadCacheCheckpointTrustV1[];
+	blocked: ReadCacheCheckpointBlockerV1[];
+	// Set when the trust includes what a compaction manifest carried across.
+	relaxed?: true;
+	at: number;
+}
+
+export type ReadCacheCarriedTrustV1 = [pathKey: string, scopeKey: ScopeKey, hash: string];
+
+export interface ReadCacheCompactionManifestV1 {
+	v: 1;
+	kind: "compaction_manifest";
+	compactionId: string;
+	carried: ReadCacheCarriedTrustV1[];
+	at: number;
+}
+
+export type CompactionBarrier = "strict" | "relaxed";
+
 export interface ReadKnowledgeEvent {
 	kind: "read";
 	pathKey: string;
@@ -78,6 +146,15 @@ export type ReplayEvent = ReadKnowledgeEvent | ReadInvalidationEvent;
 
 export type KnowledgeMap = Map<string, Map<ScopeKey, ScopeTrust>>;
 
+export interface KnowledgeView {
+	readonly size: number;
+	get(pathKey: string): ReadonlyMap<ScopeKey, ScopeTrust> | undefined;
+	has(pathKey: string): boolean;
+	keys(): IterableIterator<string>;
+	values(): IterableIterator<ReadonlyMap<ScopeKey, ScopeTrust>>;
+	entries(): IterableIterator<[string, ReadonlyMap<ScopeKey, ScopeTrust>]>;
+}
+
 export interface NormalizedReadRequest {
 	inputPath: string;
 	absolutePath: string;
@@ -90,12 +167,32 @@ export interface NormalizedReadRequest {
 	scopeKey: ScopeKey;
 }
 
+// Excluded reads are matched by path before any content is read, so they carry no hash and replay never turns
+// them into trust.
+export interface ReadCacheExclusionV1 {
+	v: 1;
+	pathKey: string;
+	scopeKey?: undefined;
+	servedHash?: undefined;
+	baseHash?: undefined;
+	mode: "full";
+	totalLines?: undefined;
+	rangeStart?: undefined;
+	rangeEnd?: undefined;
+	bytes?: undefined;
+	debug: ReadCacheDebugV1;
+}
+
 export interface ReadToolDetailsExt extends ReadToolDetails {
-	readcache?: ReadCacheMetaV1;
+	readcache?: ReadCacheMetaV1 | ReadCacheExclusionV1;
 }
 
 export interface ExtractedReplayData {
 	entry: SessionEntry;
 	read?: ReadCacheMetaV1;
 	invalidation?: ReadCacheInvalidationV1;
+	modeChange?: ReadCacheModeChangeV1;
+	derived?: ReadCacheDerivedTrustV1;
+	checkpoint?: ReadCacheCheckpointV1;
+	compactionManifest?: ReadCacheCompactionManifestV1;
 }
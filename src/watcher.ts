@@ -0,0 +1,155 @@
+import { watch as fsWatch, type FSWatcher } from "node:fs";
+import { READCACHE_WATCH_MAX_PATHS } from "./constants.js";
+
+type WatchFunction = (path: string, listener: (eventType: string) => void) => FSWatcher;
+
+const WATCH_LIMIT_CODES = new Set(["ENOSPC", "EMFILE", "ENFILE"]);
+
+export interface TrackedPathWatcherOptions {
+	watch?: WatchFunction;
+	maxWatchedPaths?: number;
+}
+
+export interface TrackedPathWatcherStatus {
+	watchedPaths: number;
+	dirtyPaths: string[];
+	unwatchedPaths: number;
+	degraded: boolean;
+}
+
+export interface TrackedPathWatcher {
+	sync(pathKeys: Iterable<string>): void;
+	getVersion(pathKey: string): number | undefined;
+	markClean(pathKey: string): void;
+	isDirty(pathKey: string): boolean;
+	getStatus(): TrackedPathWatcherStatus;
+	close(): void;
+}
+
+function defaultWatch(path: string, listener: (eventType: string) => void): FSWatcher {
+	return fsWatch(path, { persistent: false }, listener);
+}
+
+export function createTrackedPathWatcher(options: TrackedPathWatcherOptions = {}): TrackedPathWatcher {
+	const watch = options.watch ?? defaultWatch;
+	const maxWatchedPaths = options.maxWatchedPaths ?? READCACHE_WATCH_MAX_PATHS;
+	const watched = new Map<string, FSWatcher>();
+	// Versions outlive their handles so re-watching a path never repeats a version seen before it changed.
+	const versions = new Map<string, number>();
+	const dirty = new Set<string>();
+	const unwatched = new Set<string>();
+	let degraded = false;
+	let closed = false;
+
+	const bumpVersion = (pathKey: string): void => {
+		versions.set(pathKey, (versions.get(pathKey) ?? 0) + 1);
+	};
+
+	const unwatch = (pathKey: string): void => {
+		const handle = watched.get(pathKey);
+		if (!handle) {
+			return;
+		}
+		watched.delete(pathKey);
+		// Changes while unwatched go unseen, so the path cannot keep the version it had.
+		bumpVersion(pathKey);
+		try {
+			handle.close();
+		} catch {
+			// Closing an already-failed watcher is best effort.
+		}
+	};
+
+	const markChanged = (pathKey: string): void => {
+		dirty.add(pathKey);
+		if (watched.has(pathKey)) {
+			bumpVersion(pathKey);
+		}
+	};
+
+	const startWatching = (pathKey: string): void => {
+		if (degraded || watched.size >= maxWatchedPaths) {
+			degraded = true;
+			unwatched.add(pathKey);
+			return;
+		}
+
+		let handle: FSWatcher;
+		try {
+			handle = watch(pathKey, (eventType) => {
+				markChanged(pathKey);
+				// Atomic saves replace the inode; re-watch on the next sync.
+				if (eventType === "rename") {
+					unwatch(pathKey);
+				}
+			});
+		} catch (error) {
+			if (WATCH_LIMIT_CODES.has((error as NodeJS.ErrnoException).code ?? "")) {
+				degraded = true;
+			}
+			unwatched.add(pathKey);
+			return;
+		}
+
+		handle.on("error", () => {
+			markChanged(pathKey);
+			unwatch(pathKey);
+		});
+		unwatched.delete(pathKey);
+		watched.set(pathKey, handle);
+		if (!versions.has(pathKey)) {
+			versions.set(pathKey, 0);
+		}
+	};
+
+	return {
+		sync(pathKeys) {
+			if (closed) {
+				return;
+			}
+			const tracked = new Set(pathKeys);
+			for (const pathKey of [...watched.keys()]) {
+				if (!tracked.has(pathKey)) {
+					unwatch(pathKey);
+					dirty.delete(pathKey);
+				}
+			}
+			for (const pathKey of [...unwatched]) {
+				if (!tracked.has(pathKey)) {
+					unwatched.delete(pathKey);
+				}
+			}
+			for (const pathKey of tracked) {
+				if (!watched.has(pathKey)) {
+					startWatching(pathKey);
+				}
+			}
+		},
+		getVersion(pathKey) {
+			return watched.has(pathKey) ? versions.get(pathKey) : undefined;
+		},
+		markClean(pathKey) {
+			dirty.delete(pathKey);
+		},
+		isDirty(pathKey) {
+			return dirty.has(pathKey);
+		},
+		getStatus() {
+			return {
+				watchedPaths: watched.size,
+				dirtyPaths: [...dirty].sort(),
+				unwatchedPaths: unwatched.size,
+				degraded,
+			};
+		},
+		close() {
+			closed = true;
+			for (const pathKey of [...watched.keys()]) {
+				unwatch(pathKey);
+			}
+			dirty.clear();
+			unwatched.clear();
+			versions.clear();
+		},
+	};
+}
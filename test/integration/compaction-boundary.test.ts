@@ -5,10 +5,14 @@ import {
 	SessionManager,
 	type AgentToolResult,
 	type ExtensionContext,
+	type CompactionEntry,
 	type ReadToolDetails,
 } from "@mariozechner/pi-coding-agent";
 import { describe, expect, it } from "vitest";
-import { createReplayRuntimeState } from "../../src/replay.js";
+import { buildCompactionManifest } from "../../src/compaction-manifest.js";
+import { READCACHE_CUSTOM_TYPE } from "../../src/constants.js";
+import { createReplayRuntimeState, setReplayCompactionBarrier } from "../../src/replay.js";
+import { defaultReadcacheObjectStore } from "../../src/store.js";
 import { createReadOverrideTool } from "../../src/tool.js";
 import type { ReadToolDetailsExt } from "../../src/types.js";
 
@@ -69,6 +73,66 @@ describe("integration: compaction replay boundary", () => {
 		expect(["full", "baseline_fallback"]).toContain(postCompactionRead.details?.readcache?.mode);
 	});
 
+	it("relaxed_barrier_carries_trust_for_content_the_summary_quotes_verbatim", async () => {
+		const cwd = await mkdtemp(join(tmpdir(), "pi-readcache-compact-"));
+		await writeFile(join(cwd, "quoted.txt"), "quoted content", "utf-8");
+		await writeFile(join(cwd, "dropped.txt"), "dropped content", "utf-8");
+
+		const sessionManager = SessionManager.inMemory(cwd);
+		const runtimeState = createReplayRuntimeState();
+		setReplayCompactionBarrier(runtimeState, "relaxed");
+		const tool = createReadOverrideTool(runtimeState);
+		const ctx = asContext(cwd, sessionManager);
+
+		appendReadResult(sessionManager, "call-1", await tool.execute("call-1", { path: "quoted.txt" }, undefined, undefined, ctx));
+		const lastEntryId = appendReadResult(
+			sessionManager,
+			"call-2",
+			await tool.execute("call-2", { path: "dropped.txt" }, undefined, undefined, ctx),
+		);
+
+		const compactionId = sessionManager.appendCompaction("quoted.txt was:\nquoted content", lastEntryId, 100);
+		const manifest = await buildCompactionManifest(
+			sessionManager.getBranch(),
+			sessionManager.getEntry(compactionId) as CompactionEntry,
+			defaultReadcacheObjectStore(cwd),
+		);
+		expect(manifest?.carried.map(([pathKey]) => pathKey).sort()).toEqual(
+			[join(cwd, "dropped.txt"), join(cwd, "quoted.txt")].sort(),
+		);
+		sessionManager.appendCustomEntry(READCACHE_CUSTOM_TYPE, manifest);
+
+		const quoted = await tool.execute("call-3", { path: "quoted.txt" }, undefined, undefined, ctx);
+		expect(quoted.details?.readcache?.mode).toBe("unchanged");
+
+		const strictTool = createReadOverrideTool(createReplayRuntimeState());
+		const strictRead = await strictTool.execute("call-4", { path: "quoted.txt" }, undefined, undefined, ctx);
+		expect(["full", "baseline_fallback"]).toContain(strictRead.details?.readcache?.mode);
+	});
+
+	it("relaxed_barrier_does_not_carry_pre_kept_trust_the_summary_omits", async () => {
+		const cwd = await mkdtemp(join(tmpdir(), "pi-readcache-compact-"));
+		await writeFile(join(cwd, "sample.txt"), "v1", "utf-8");
+
+		const sessionManager = SessionManager.inMemory(cwd);
+		const tool = createReadOverrideTool(createReplayRuntimeState());
+		const ctx = asContext(cwd, sessionManager);
+
+		appendReadResult(sessionManager, "call-1", await tool.execute("call-1", { path: "sample.txt" }, undefined, undefined, ctx));
+		const keptEntryId = sessionManager.appendMessage({ role: "user", content: "next", timestamp: Date.now() });
+		const compactionId = sessionManager.appendCompaction("summary without file text", keptEntryId, 100);
+
+		const manifest = await buildCompactionManifest(
+			sessionManager.getBranch(),
+			sessionManager.getEntry(compactionId) as CompactionEntry,
+			defaultReadcacheObjectStore(cwd),
+		);
+		expect(manifest).toBeUndefined();
+
+		const postCompactionRead = await tool.execute("call-2", { path: "sample.txt" }, undefined, undefined, ctx);
+		expect(["full", "baseline_fallback"]).toContain(postCompactionRead.details?.readcache?.mode);
+	});
+
 	it("latest_compaction_wins_when_multiple_compactions_exist", async () => {
 		const cwd = await mkdtemp(join(tmpdir(), "pi-readcache-compact-"));
 		const filePath = join(cwd, "sample.txt");
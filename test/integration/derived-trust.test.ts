@@ -0,0 +1,166 @@
+import { mkdtemp, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+	SessionManager,
+	type AgentToolResult,
+	type ExtensionAPI,
+	type ExtensionContext,
+} from "@mariozechner/pi-coding-agent";
+import { describe, expect, it } from "vitest";
+import { registerDerivedTrustHooks } from "../../src/derived-trust.js";
+import { createReplayRuntimeState } from "../../src/replay.js";
+import { createReadOverrideTool } from "../../src/tool.js";
+import type { ReadToolDetailsExt } from "../../src/types.js";
+
+type EventHandler = (event: Record<string, unknown>, ctx: ExtensionContext) => Promise<unknown>;
+
+function asContext(cwd: string, sessionManager: SessionManager): ExtensionContext {
+	return {
+		cwd,
+		sessionManager,
+	} as unknown as ExtensionContext;
+}
+
+function appendReadResult(
+	sessionManager: SessionManager,
+	toolCallId: string,
+	result: AgentToolResult<ReadToolDetailsExt | undefined>,
+): string {
+	return sessionManager.appendMessage({
+		role: "toolResult",
+		toolCallId,
+		toolName: "read",
+		content: result.content,
+		details: result.details,
+		isError: false,
+		timestamp: Date.now(),
+	});
+}
+
+function createHookHarness(sessionManager: SessionManager): { pi: ExtensionAPI; handlers: Map<string, EventHandler> } {
+	const handlers = new Map<string, EventHandler>();
+	const pi = {
+		on: (eventName: string, handler: EventHandler) => {
+			handlers.set(eventName, handler);
+		},
+		appendEntry: (customType: string, data?: unknown) => {
+			sessionManager.appendCustomEntry(customType, data);
+		},
+	} as unknown as ExtensionAPI;
+	return { pi, handlers };
+}
+
+async function emit(
+	handlers: Map<string, EventHandler>,
+	eventName: "tool_call" | "tool_result",
+	event: Record<string, unknown>,
+	ctx: ExtensionContext,
+): Promise<void> {
+	const handler = handlers.get(eventName);
+	if (!handler) {
+		throw new Error(`${eventName} handler not registered`);
+	}
+	await handler({ type: eventName, content: [], details: undefined, isError: false, ...event }, ctx);
+}
+
+describe("integration: derived trust from edit/write", () => {
+	it("answers unchanged after an edit of a fully trusted file and diffs later drift against the edit", async () => {
+		const cwd = await mkdtemp(join(tmpdir(), "pi-readcache-derived-"));
+		const filePath = join(cwd, "sample.txt");
+		const lines = Array.from({ length: 40 }, (_, index) => `line ${index + 1}`);
+		await writeFile(filePath, lines.join("\n"), "utf-8");
+
+		const sessionManager = SessionManager.inMemory(cwd);
+		const runtimeState = createReplayRuntimeState();
+		const tool = createReadOverrideTool(runtimeState);
+		const harness = createHookHarness(sessionManager);
+		registerDerivedTrustHooks(harness.pi, runtimeState);
+		const ctx = asContext(cwd, sessionManager);
+
+		appendReadResult(sessionManager, "call-1", await tool.execute("call-1", { path: "sample.txt" }, undefined, undefined, ctx));
+
+		const editInput = { path: "sample.txt", oldText: "line 5", newText: "line 5 edited" };
+		await emit(harness.handlers, "tool_call", { toolCallId: "edit-1", toolName: "edit", input: editInput }, ctx);
+		lines[4] = "line 5 edited";
+		await writeFile(filePath, lines.join("\n"), "utf-8");
+		await emit(harness.handlers, "tool_result", { toolCallId: "edit-1", toolName: "edit", input: editInput }, ctx);
+
+		const afterEdit = await tool.execute("call-2", { path: "sample.txt" }, undefined, undefined, ctx);
+		expect(afterEdit.details?.readcache?.mode).toBe("unchanged");
+
+		lines[30] = "line 31 drifted";
+		await writeFile(filePath, lines.join("\n"), "utf-8");
+		const afterDrift = await createReadOverrideTool(createReplayRuntimeState()).execute(
+			"call-3",
+			{ path: "sample.txt" },
+			undefined,
+			undefined,
+			ctx,
+		);
+		expect(afterDrift.details?.readcache?.mode).toBe("diff");
+		const text = afterDrift.content[0]?.type === "text" ? afterDrift.content[0].text : "";
+		expect(text).toContain("+line 31 drifted");
+		expect(text).not.toContain("line 5 edited");
+	});
+
+	it("records write results only when the file matches the written content", async () => {
+		const cwd = await mkdtemp(join(tmpdir(), "pi-readcache-derived-"));
+		const sessionManager = SessionManager.inMemory(cwd);
+		const runtimeState = createReplayRuntimeState();
+		const tool = createReadOverrideTool(runtimeState);
+		const harness = createHookHarness(sessionManager);
+		registerDerivedTrustHooks(harness.pi, runtimeState);
+		const ctx = asContext(cwd, sessionManager);
+
+		await writeFile(join(cwd, "written.txt"), "alpha\nbeta", "utf-8");
+		await emit(
+			harness.handlers,
+			"tool_result",
+			{ toolCallId: "write-1", toolName: "write", input: { path: "written.txt", content: "alpha\nbeta" } },
+			ctx,
+		);
+		const written = await tool.execute("call-1", { path: "written.txt" }, undefined, undefined, ctx);
+		expect(written.details?.readcache?.mode).toBe("unchanged");
+
+		await writeFile(join(cwd, "formatted.txt"), "alpha\nbeta\n", "utf-8");
+		await emit(
+			harness.handlers,
+			"tool_result",
+			{ toolCallId: "write-2", toolName: "write", input: { path: "formatted.txt", content: "alpha\nbeta" } },
+			ctx,
+		);
+		const formatted = await tool.execute("call-2", { path: "formatted.txt" }, undefined, undefined, ctx);
+		expect(formatted.details?.readcache?.mode).toBe("full");
+	});
+
+	it("skips failed edits and edits of files that were not fully trusted", async () => {
+		const cwd = await mkdtemp(join(tmpdir(), "pi-readcache-derived-"));
+		const filePath = join(cwd, "sample.txt");
+		await writeFile(filePath, "one\ntwo\nthree\nfour", "utf-8");
+
+		const sessionManager = SessionManager.inMemory(cwd);
+		const runtimeState = createReplayRuntimeState();
+		const tool = createReadOverrideTool(runtimeState);
+		const harness = createHookHarness(sessionManager);
+		registerDerivedTrustHooks(harness.pi, runtimeState);
+		const ctx = asContext(cwd, sessionManager);
+
+		appendReadResult(sessionManager, "call-1", await tool.execute("call-1", { path: "sample.txt:1-2" }, undefined, undefined, ctx));
+
+		const editInput = { path: "sample.txt", oldText: "two", newText: "TWO" };
+		await emit(harness.handlers, "tool_call", { toolCallId: "edit-1", toolName: "edit", input: editInput }, ctx);
+		await writeFile(filePath, "one\nTWO\nthree\nfour", "utf-8");
+		await emit(harness.handlers, "tool_result", { toolCallId: "edit-1", toolName: "edit", input: editInput }, ctx);
+		await emit(
+			harness.handlers,
+			"tool_result",
+			{ toolCallId: "write-1", toolName: "write", input: { path: "sample.txt", content: "one\nTWO\nthree\nfour" }, isError: true },
+			ctx,
+		);
+
+		expect(sessionManager.getEntries().filter((entry) => entry.type === "custom")).toHaveLength(0);
+		const afterEdit = await tool.execute("call-2", { path: "sample.txt" }, undefined, undefined, ctx);
+		expect(afterEdit.details?.readcache?.mode).toBe("full");
+	});
+});
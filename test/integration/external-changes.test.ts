@@ -0,0 +1,179 @@
+import { EventEmitter } from "node:events";
+import type { FSWatcher } from "node:fs";
+import { mkdtemp, unlink, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+	SessionManager,
+	type AgentToolResult,
+	type ExtensionAPI,
+	type ExtensionContext,
+} from "@mariozechner/pi-coding-agent";
+import { describe, expect, it } from "vitest";
+import { registerExternalChangeNotices } from "../../src/external-changes.js";
+import { createReplayRuntimeState } from "../../src/replay.js";
+import { createReadOverrideTool } from "../../src/tool.js";
+import type { ReadToolDetailsExt } from "../../src/types.js";
+import { createTrackedPathWatcher, type TrackedPathWatcher } from "../../src/watcher.js";
+
+type TurnStartHandler = (
+	event: { type: "before_agent_start"; prompt: string; systemPrompt: string },
+	ctx: ExtensionContext,
+) => Promise<{ message?: { customType: string; content: string; display: boolean } } | undefined>;
+
+type ToolResultHandler = (
+	event: { type: "tool_result"; toolName: string; input: Record<string, unknown>; isError: boolean },
+	ctx: ExtensionContext,
+) => Promise<void>;
+
+interface ExternalChangeHandlers {
+	onTurnStart: (ctx: ExtensionContext) => ReturnType<TurnStartHandler>;
+	onToolResult: ToolResultHandler;
+}
+
+function asContext(cwd: string, sessionManager: SessionManager): ExtensionContext {
+	return {
+		cwd,
+		sessionManager,
+	} as unknown as ExtensionContext;
+}
+
+function appendReadResult(
+	sessionManager: SessionManager,
+	toolCallId: string,
+	result: AgentToolResult<ReadToolDetailsExt | undefined>,
+): void {
+	sessionManager.appendMessage({
+		role: "toolResult",
+		toolCallId,
+		toolName: "read",
+		content: result.content,
+		details: result.details,
+		isError: false,
+		timestamp: Date.now(),
+	});
+}
+
+function registerHandlers(
+	runtimeState: ReturnType<typeof createReplayRuntimeState>,
+	watcher?: TrackedPathWatcher,
+): ExternalChangeHandlers {
+	let turnStartHandler: TurnStartHandler | undefined;
+	let toolResultHandler: ToolResultHandler | undefined;
+	const pi = {
+		on: (eventName: string, handler: unknown) => {
+			if (eventName === "before_agent_start") {
+				turnStartHandler = handler as TurnStartHandler;
+			} else if (eventName === "tool_result") {
+				toolResultHandler = handler as ToolResultHandler;
+			}
+		},
+	} as unknown as ExtensionAPI;
+	registerExternalChangeNotices(pi, runtimeState, () => watcher);
+	if (!turnStartHandler || !toolResultHandler) {
+		throw new Error("external change handlers not registered");
+	}
+	const onTurnStart = turnStartHandler;
+	return {
+		onTurnStart: (ctx) => onTurnStart({ type: "before_agent_start", prompt: "hello", systemPrompt: "" }, ctx),
+		onToolResult: toolResultHandler,
+	};
+}
+
+describe("integration: external change notices", () => {
+	it("lists tracked files whose current hash differs from trust as each user turn starts", async () => {
+		const cwd = await mkdtemp(join(tmpdir(), "pi-readcache-external-"));
+		await writeFile(join(cwd, "a.txt"), "alpha", "utf-8");
+		await writeFile(join(cwd, "b.txt"), "beta", "utf-8");
+		await writeFile(join(cwd, "c.txt"), "gamma", "utf-8");
+
+		const sessionManager = SessionManager.inMemory(cwd);
+		const runtimeState = createReplayRuntimeState();
+		const tool = createReadOverrideTool(runtimeState);
+		const ctx = asContext(cwd, sessionManager);
+		const { onTurnStart } = registerHandlers(runtimeState);
+
+		for (const [index, path] of ["a.txt", "b.txt", "c.txt"].entries()) {
+			appendReadResult(sessionManager, `call-${index}`, await tool.execute(`call-${index}`, { path }, undefined, undefined, ctx));
+		}
+
+		expect(await onTurnStart(ctx)).toBeUndefined();
+
+		await writeFile(join(cwd, "a.txt"), "alpha changed by formatter", "utf-8");
+		await unlink(join(cwd, "c.txt"));
+
+		const result = await onTurnStart(ctx);
+		const notice = result?.message;
+		expect(notice).toMatchObject({ customType: "pi-readcache-stale", display: false });
+		expect(notice?.content).toBe(
+			[
+				"[readcache: 2 previously read file(s) changed on disk since last read; re-read before relying on earlier content]",
+				"- a.txt (modified)",
+				"- c.txt (deleted)",
+			].join("\n"),
+		);
+
+		appendReadResult(sessionManager, "call-reread", await tool.execute("call-reread", { path: "a.txt" }, undefined, undefined, ctx));
+		const afterReread = await onTurnStart(ctx);
+		expect(afterReread?.message?.content).not.toContain("a.txt");
+		expect(afterReread?.message?.content).toContain("c.txt (deleted)");
+	});
+
+	it("skips rehashing watched paths until the watcher reports a change", async () => {
+		const cwd = await mkdtemp(join(tmpdir(), "pi-readcache-external-watch-"));
+		await writeFile(join(cwd, "a.txt"), "alpha", "utf-8");
+
+		const listeners = new Map<string, (eventType: string) => void>();
+		const watcher = createTrackedPathWatcher({
+			watch: (path, listener) => {
+				listeners.set(path, listener);
+				return Object.assign(new EventEmitter(), { close: () => undefined }) as unknown as FSWatcher;
+			},
+		});
+
+		const sessionManager = SessionManager.inMemory(cwd);
+		const runtimeState = createReplayRuntimeState();
+		const tool = createReadOverrideTool(runtimeState);
+		const ctx = asContext(cwd, sessionManager);
+		const { onTurnStart } = registerHandlers(runtimeState, watcher);
+
+		appendReadResult(sessionManager, "call-a", await tool.execute("call-a", { path: "a.txt" }, undefined, undefined, ctx));
+		expect(await onTurnStart(ctx)).toBeUndefined();
+		expect(watcher.getStatus().watchedPaths).toBe(1);
+
+		await writeFile(join(cwd, "a.txt"), "alpha changed", "utf-8");
+		expect(await onTurnStart(ctx)).toBeUndefined();
+
+		listeners.get(join(cwd, "a.txt"))?.("change");
+		expect(watcher.isDirty(join(cwd, "a.txt"))).toBe(true);
+		const result = await onTurnStart(ctx);
+		expect(result?.message?.content).toContain("- a.txt (modified)");
+	});
+
+	it("does not report a file the agent edited itself when only a range of it was trusted", async () => {
+		const cwd = await mkdtemp(join(tmpdir(), "pi-readcache-external-agent-"));
+		const filePath = join(cwd, "a.txt");
+		await writeFile(filePath, "one\ntwo\nthree\nfour", "utf-8");
+
+		const sessionManager = SessionManager.inMemory(cwd);
+		const runtimeState = createReplayRuntimeState();
+		const tool = createReadOverrideTool(runtimeState);
+		const ctx = asContext(cwd, sessionManager);
+		const { onTurnStart, onToolResult } = registerHandlers(runtimeState);
+
+		appendReadResult(
+			sessionManager,
+			"call-range",
+			await tool.execute("call-range", { path: "a.txt", offset: 2, limit: 2 }, undefined, undefined, ctx),
+		);
+		expect(await onTurnStart(ctx)).toBeUndefined();
+
+		await writeFile(filePath, "one\ntwo\nthree\nfour\nfive", "utf-8");
+		await onToolResult({ type: "tool_result", toolName: "edit", input: { path: "a.txt" }, isError: false }, ctx);
+		expect(await onTurnStart(ctx)).toBeUndefined();
+
+		await writeFile(filePath, "one\ntwo\nthree\nfour\nfive\nsix", "utf-8");
+		const result = await onTurnStart(ctx);
+		expect(result?.message?.content).toContain("- a.txt (modified)");
+	});
+});
@@ -0,0 +1,183 @@
+import { mkdtemp, readdir, utimes, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+	SessionManager,
+	type AgentToolResult,
+	type ExtensionAPI,
+	type ExtensionCommandContext,
+	type ExtensionContext,
+} from "@mariozechner/pi-coding-agent";
+import { describe, expect, it, vi } from "vitest";
+import { registerReadcacheCommands } from "../../src/commands.js";
+import { DEFAULT_READCACHE_CONFIG } from "../../src/config.js";
+import { READCACHE_OBJECTS_DIR } from "../../src/constants.js";
+import { hashText, loadObject, persistObjectIfAbsent } from "../../src/object-store.js";
+import { createReplayRuntimeState } from "../../src/replay.js";
+import { createMemoryObjectStore } from "../../src/store.js";
+import { createReadOverrideTool } from "../../src/tool.js";
+import type { ReadToolDetailsExt } from "../../src/types.js";
+
+interface CommandRegistration {
+	handler: (args: string, ctx: ExtensionCommandContext) => Promise<void>;
+}
+
+interface SentMessage {
+	customType: string;
+	content: string;
+}
+
+function asContext(cwd: string, sessionManager: SessionManager): ExtensionContext {
+	return {
+		cwd,
+		sessionManager,
+	} as unknown as ExtensionContext;
+}
+
+function asCommandContext(cwd: string, sessionManager: SessionManager): ExtensionCommandContext {
+	return {
+		cwd,
+		sessionManager,
+		hasUI: false,
+		ui: {
+			notify: () => undefined,
+		},
+	} as unknown as ExtensionCommandContext;
+}
+
+function appendReadResult(
+	sessionManager: SessionManager,
+	toolCallId: string,
+	result: AgentToolResult<ReadToolDetailsExt | undefined>,
+): string {
+	return sessionManager.appendMessage({
+		role: "toolResult",
+		toolCallId,
+		toolName: "read",
+		content: result.content,
+		details: result.details,
+		isError: false,
+		timestamp: Date.now(),
+	});
+}
+
+async function ageObjects(cwd: string): Promise<void> {
+	const objectsDir = join(cwd, READCACHE_OBJECTS_DIR);
+	const oldSeconds = (Date.now() - 60 * 60 * 1000) / 1000;
+	for (const name of await readdir(objectsDir)) {
+		await utimes(join(objectsDir, name), oldSeconds, oldSeconds);
+	}
+}
+
+describe("integration: reference-aware gc", () => {
+	it("/readcache-gc keeps objects referenced by replay windows and deletes the rest", async () => {
+		const cwd = await mkdtemp(join(tmpdir(), "pi-readcache-gc-"));
+		const sessionDir = await mkdtemp(join(tmpdir(), "pi-readcache-gc-sessions-"));
+		await writeFile(join(cwd, "active.txt"), "active branch content", "utf-8");
+		await writeFile(join(cwd, "other.txt"), "other session content", "utf-8");
+		await writeFile(join(cwd, "compacted.txt"), "compacted away content", "utf-8");
+
+		const runtimeState = createReplayRuntimeState();
+		const tool = createReadOverrideTool(runtimeState);
+
+		const otherSession = SessionManager.inMemory(cwd);
+		const otherCtx = asContext(cwd, otherSession);
+		const compactedId = appendReadResult(
+			otherSession,
+			"other-1",
+			await tool.execute("other-1", { path: "compacted.txt" }, undefined, undefined, otherCtx),
+		);
+		otherSession.appendCompaction("compact", compactedId, 100);
+		appendReadResult(otherSession, "other-2", await tool.execute("other-2", { path: "other.txt" }, undefined, undefined, otherCtx));
+		const otherLines = [otherSession.getHeader(), ...otherSession.getEntries()].map((entry) => JSON.stringify(entry));
+		await writeFile(join(sessionDir, "other.jsonl"), `${otherLines.join("\n")}\n`, "utf-8");
+
+		const sessionManager = SessionManager.create(cwd, sessionDir);
+		const ctx = asContext(cwd, sessionManager);
+		appendReadResult(sessionManager, "call-1", await tool.execute("call-1", { path: "active.txt" }, undefined, undefined, ctx));
+		await persistObjectIfAbsent(cwd, hashText("orphaned object"), "orphaned object");
+		await ageObjects(cwd);
+
+		const commands = new Map<string, CommandRegistration>();
+		const sentMessages: SentMessage[] = [];
+		const pi = {
+			registerCommand: (name: string, options: CommandRegistration) => {
+				commands.set(name, options);
+			},
+			registerTool: () => undefined,
+			sendMessage: (message: SentMessage) => {
+				sentMessages.push(message);
+			},
+		} as unknown as ExtensionAPI;
+		registerReadcacheCommands(pi, runtimeState);
+		const gcCommand = commands.get("readcache-gc");
+		if (!gcCommand) {
+			throw new Error("readcache-gc command not registered");
+		}
+		const commandCtx = asCommandContext(cwd, sessionManager);
+
+		await gcCommand.handler("", commandCtx);
+		const dryRun = sentMessages.at(-1);
+		expect(dryRun?.customType).toBe("pi-readcache-gc");
+		expect(dryRun?.content).toContain("[readcache-gc] dry run");
+		expect(dryRun?.content).toContain("1 session files");
+		expect(dryRun?.content).toContain("retained: 2 referenced, 0 delta bases, 0 recently written");
+		expect(dryRun?.content).toContain("would delete: 2 of 4 object files");
+		expect(await loadObject(cwd, hashText("orphaned object"))).toBe("orphaned object");
+
+		await ageObjects(cwd);
+		await gcCommand.handler("--apply", commandCtx);
+		expect(sentMessages.at(-1)?.content).toContain("deleted: 2 of 4 object files");
+		expect(await loadObject(cwd, hashText("orphaned object"))).toBeUndefined();
+		expect(await loadObject(cwd, hashText("compacted away content"))).toBeUndefined();
+		expect(await loadObject(cwd, hashText("other session content"))).toBe("other session content");
+		expect(await loadObject(cwd, hashText("active branch content"))).toBe("active branch content");
+
+		await expect(gcCommand.handler("--force", commandCtx)).rejects.toThrow(/Usage: \/readcache-gc/);
+	});
+
+	it("/readcache-gc and /readcache-fsck act on the injected object store", async () => {
+		const cwd = await mkdtemp(join(tmpdir(), "pi-readcache-gc-"));
+		await writeFile(join(cwd, "active.txt"), "active branch content", "utf-8");
+
+		const store = createMemoryObjectStore();
+		const getStore = () => store;
+		const getConfig = () => DEFAULT_READCACHE_CONFIG;
+		const runtimeState = createReplayRuntimeState();
+		const tool = createReadOverrideTool(runtimeState, getConfig, getStore);
+		const sessionManager = SessionManager.inMemory(cwd);
+
+		vi.useFakeTimers({ toFake: ["Date"] });
+		try {
+			vi.setSystemTime(Date.now() - 60 * 60 * 1000);
+			const ctx = asContext(cwd, sessionManager);
+			appendReadResult(sessionManager, "call-1", await tool.execute("call-1", { path: "active.txt" }, undefined, undefined, ctx));
+			await store.put(hashText("orphaned object"), "orphaned object");
+		} finally {
+			vi.useRealTimers();
+		}
+
+		const commands = new Map<string, CommandRegistration>();
+		const sentMessages: SentMessage[] = [];
+		const pi = {
+			registerCommand: (name: string, options: CommandRegistration) => {
+				commands.set(name, options);
+			},
+			registerTool: () => undefined,
+			sendMessage: (message: SentMessage) => {
+				sentMessages.push(message);
+			},
+		} as unknown as ExtensionAPI;
+		registerReadcacheCommands(pi, runtimeState, getConfig, undefined, getStore);
+		const commandCtx = asCommandContext(cwd, sessionManager);
+
+		await commands.get("readcache-gc")?.handler("--apply", commandCtx);
+		expect(sentMessages.at(-1)?.content).toContain("deleted: 1 of 2 object files");
+		expect(await store.has(hashText("orphaned object"))).toBe(false);
+		expect(await store.has(hashText("active branch content"))).toBe(true);
+
+		await commands.get("readcache-fsck")?.handler("", commandCtx);
+		expect(sentMessages.at(-1)?.content).toContain("objects: 1 checked, 0 corrupt");
+		await expect(readdir(cwd)).resolves.toEqual(["active.txt"]);
+	});
+});
@@ -0,0 +1,87 @@
+import { mkdtemp, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { SessionManager, type AgentToolResult, type ExtensionContext } from "@mariozechner/pi-coding-agent";
+import { describe, expect, it } from "vitest";
+import { collectLeasedHashes, createSessionLeaseKeeper, writeLease } from "../../src/leases.js";
+import { collectGarbageObjects, hashText, pruneObjectsOlderThan } from "../../src/object-store.js";
+import { createReplayRuntimeState } from "../../src/replay.js";
+import { createFilesystemObjectStore } from "../../src/store.js";
+import { createReadOverrideTool } from "../../src/tool.js";
+import type { ReadToolDetailsExt } from "../../src/types.js";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function asContext(cwd: string, sessionManager: SessionManager): ExtensionContext {
+	return {
+		cwd,
+		sessionManager,
+	} as unknown as ExtensionContext;
+}
+
+function appendReadResult(
+	sessionManager: SessionManager,
+	toolCallId: string,
+	result: AgentToolResult<ReadToolDetailsExt | undefined>,
+): void {
+	sessionManager.appendMessage({
+		role: "toolResult",
+		toolCallId,
+		toolName: "read",
+		content: result.content,
+		details: result.details,
+		isError: false,
+		timestamp: Date.now(),
+	});
+}
+
+describe("integration: session leases", () => {
+	it("keeps a live session's trusted bases through another session's startup prune", async () => {
+		const cwd = await mkdtemp(join(tmpdir(), "pi-readcache-leases-"));
+		const filePath = join(cwd, "shared.ts");
+		const lines = Array.from({ length: 40 }, (_, index) => `export const value${index} = ${index};`);
+		await writeFile(filePath, lines.join("\n"), "utf-8");
+
+		const runtimeA = createReplayRuntimeState();
+		const toolA = createReadOverrideTool(runtimeA);
+		const sessionA = SessionManager.inMemory(cwd);
+		const leaseA = createSessionLeaseKeeper(runtimeA);
+
+		const firstRead = await toolA.execute("a-1", { path: "shared.ts" }, undefined, undefined, asContext(cwd, sessionA));
+		appendReadResult(sessionA, "a-1", firstRead);
+		await leaseA.renew(createFilesystemObjectStore(cwd), sessionA);
+		expect((await collectLeasedHashes(cwd)).hashes).toEqual(new Set([hashText(lines.join("\n"))]));
+
+		// Session B starts in the same repo long after A's object was last used and prunes on startup.
+		const runtimeB = createReplayRuntimeState();
+		const sessionB = SessionManager.inMemory(cwd);
+		const leaseB = createSessionLeaseKeeper(runtimeB);
+		await leaseB.renew(createFilesystemObjectStore(cwd), sessionB);
+		expect(await pruneObjectsOlderThan(cwd, HOUR_MS, Date.now() + 2 * HOUR_MS)).toMatchObject({ deleted: 0 });
+		expect(await collectGarbageObjects(cwd, new Set(), { graceMs: 0, nowMs: Date.now() + 2 * HOUR_MS })).toMatchObject(
+			{ retainedLeased: 1, deleted: 0 },
+		);
+
+		const changed = [...lines];
+		changed[20] = "export const value20 = 'changed';";
+		await writeFile(filePath, changed.join("\n"), "utf-8");
+		const secondRead = await toolA.execute("a-2", { path: "shared.ts" }, undefined, undefined, asContext(cwd, sessionA));
+		expect(secondRead.details?.readcache?.mode).toBe("diff");
+
+		// Once A releases its lease, nothing protects its objects from B's pruning.
+		await leaseA.release();
+		expect((await pruneObjectsOlderThan(cwd, HOUR_MS, Date.now() + 2 * HOUR_MS)).deleted).toBe(2);
+		await leaseB.release();
+	});
+
+	it("ignores and removes leases held by dead pids", async () => {
+		const cwd = await mkdtemp(join(tmpdir(), "pi-readcache-leases-"));
+		const hash = hashText("leased by a crashed session");
+		await writeLease(cwd, { v: 1, pid: 2_147_483_646, sessionId: "crashed", updatedAt: Date.now(), hashes: [hash] });
+		await writeLease(cwd, { v: 1, pid: process.pid, sessionId: "live", updatedAt: Date.now(), hashes: [] });
+
+		const leased = await collectLeasedHashes(cwd);
+		expect(leased).toEqual({ hashes: new Set(), liveLeases: 1, staleLeasesRemoved: 1 });
+		expect((await collectLeasedHashes(cwd)).staleLeasesRemoved).toBe(0);
+	});
+});
@@ -0,0 +1,185 @@
+import { mkdtemp, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+	SessionManager,
+	type AgentToolResult,
+	type ExtensionAPI,
+	type ExtensionCommandContext,
+	type ExtensionContext,
+	type ReadToolDetails,
+} from "@mariozechner/pi-coding-agent";
+import { describe, expect, it } from "vitest";
+import { registerReadcacheCommands } from "../../src/commands.js";
+import { createReplayRuntimeState } from "../../src/replay.js";
+import { createReadOverrideTool } from "../../src/tool.js";
+import type { ReadToolDetailsExt } from "../../src/types.js";
+
+interface CommandRegistration {
+	handler: (args: string, ctx: ExtensionCommandContext) => Promise<void>;
+}
+
+interface SentMessage {
+	customType: string;
+	content: string;
+	display?: boolean;
+}
+
+function asContext(cwd: string, sessionManager: SessionManager): ExtensionContext {
+	return {
+		cwd,
+		sessionManager,
+	} as unknown as ExtensionContext;
+}
+
+function asCommandContext(cwd: string, sessionManager: SessionManager): ExtensionCommandContext {
+	return {
+		cwd,
+		sessionManager,
+		hasUI: false,
+		ui: {
+			notify: () => undefined,
+		},
+	} as unknown as ExtensionCommandContext;
+}
+
+function appendReadResult(
+	sessionManager: SessionManager,
+	toolCallId: string,
+	result: AgentToolResult<ReadToolDetailsExt | undefined>,
+): string {
+	return sessionManager.appendMessage({
+		role: "toolResult",
+		toolCallId,
+		toolName: "read",
+		content: result.content,
+		details: result.details,
+		isError: false,
+		timestamp: Date.now(),
+	});
+}
+
+function getText(result: AgentToolResult<ReadToolDetails | undefined>): string {
+	const block = result.content.find((content) => content.type === "text");
+	if (!block || block.type !== "text") {
+		throw new Error("Expected text content in read result");
+	}
+	return block.text;
+}
+
+function createExtensionHarness(sessionManager: SessionManager): {
+	pi: ExtensionAPI;
+	commands: Map<string, CommandRegistration>;
+	sentMessages: SentMessage[];
+} {
+	const commands = new Map<string, CommandRegistration>();
+	const sentMessages: SentMessage[] = [];
+
+	const pi = {
+		registerCommand: (name: string, options: CommandRegistration) => {
+			commands.set(name, options);
+		},
+		registerTool: () => undefined,
+		appendEntry: (customType: string, data?: unknown) => {
+			sessionManager.appendCustomEntry(customType, data);
+		},
+		sendMessage: (message: SentMessage) => {
+			sentMessages.push(message);
+		},
+	} as unknown as ExtensionAPI;
+
+	return { pi, commands, sentMessages };
+}
+
+function getModeCommand(commands: Map<string, CommandRegistration>): CommandRegistration {
+	const command = commands.get("readcache-mode");
+	if (!command) {
+		throw new Error("readcache-mode command not registered");
+	}
+	return command;
+}
+
+describe("integration: readcache mode", () => {
+	it("/readcache-mode off returns baseline reads and drops trust until turned back on", async () => {
+		const cwd = await mkdtemp(join(tmpdir(), "pi-readcache-mode-"));
+		await writeFile(join(cwd, "sample.txt"), "alpha\nbeta\ngamma", "utf-8");
+
+		const sessionManager = SessionManager.inMemory(cwd);
+		const runtimeState = createReplayRuntimeState();
+		const tool = createReadOverrideTool(runtimeState);
+		const harness = createExtensionHarness(sessionManager);
+		registerReadcacheCommands(harness.pi, runtimeState);
+		const modeCommand = getModeCommand(harness.commands);
+		const ctx = asContext(cwd, sessionManager);
+		const commandCtx = asCommandContext(cwd, sessionManager);
+
+		appendReadResult(sessionManager, "call-1", await tool.execute("call-1", { path: "sample.txt" }, undefined, undefined, ctx));
+
+		await modeCommand.handler("off", commandCtx);
+		expect(harness.sentMessages.at(-1)?.content).toContain("mode set to off");
+
+		const offRead = await tool.execute("call-2", { path: "sample.txt" }, undefined, undefined, ctx);
+		expect(offRead.details?.readcache?.mode).toBe("full");
+		expect(offRead.details?.readcache?.debug?.reason).toBe("mode_off");
+		expect(getText(offRead)).toContain("alpha\nbeta\ngamma");
+		appendReadResult(sessionManager, "call-2", offRead);
+
+		await modeCommand.handler("on", commandCtx);
+		const onRead = await tool.execute("call-3", { path: "sample.txt" }, undefined, undefined, ctx);
+		expect(onRead.details?.readcache?.mode).toBe("full");
+		expect(onRead.details?.readcache?.debug?.reason).toBe("no_base_hash");
+		appendReadResult(sessionManager, "call-3", onRead);
+
+		const cachedRead = await tool.execute("call-4", { path: "sample.txt" }, undefined, undefined, ctx);
+		expect(cachedRead.details?.readcache?.mode).toBe("unchanged");
+	});
+
+	it("/readcache-mode paused keeps trust warm and follows tree navigation", async () => {
+		const cwd = await mkdtemp(join(tmpdir(), "pi-readcache-mode-"));
+		await writeFile(join(cwd, "sample.txt"), "one\ntwo\nthree", "utf-8");
+
+		const sessionManager = SessionManager.inMemory(cwd);
+		const runtimeState = createReplayRuntimeState();
+		const tool = createReadOverrideTool(runtimeState);
+		const harness = createExtensionHarness(sessionManager);
+		registerReadcacheCommands(harness.pi, runtimeState);
+		const modeCommand = getModeCommand(harness.commands);
+		const ctx = asContext(cwd, sessionManager);
+		const commandCtx = asCommandContext(cwd, sessionManager);
+
+		const anchorId = appendReadResult(
+			sessionManager,
+			"call-1",
+			await tool.execute("call-1", { path: "sample.txt" }, undefined, undefined, ctx),
+		);
+
+		await modeCommand.handler("paused", commandCtx);
+		const pausedRead = await tool.execute("call-2", { path: "sample.txt" }, undefined, undefined, ctx);
+		expect(pausedRead.details?.readcache?.debug?.reason).toBe("mode_paused");
+		expect(getText(pausedRead)).toContain("one\ntwo\nthree");
+		appendReadResult(sessionManager, "call-2", pausedRead);
+
+		await modeCommand.handler("", commandCtx);
+		expect(harness.sentMessages.at(-1)?.content).toContain("mode: paused");
+
+		sessionManager.branch(anchorId);
+		const branchRead = await tool.execute("call-3", { path: "sample.txt" }, undefined, undefined, ctx);
+		expect(branchRead.details?.readcache?.mode).toBe("unchanged");
+
+		await modeCommand.handler("paused", commandCtx);
+		await modeCommand.handler("on", commandCtx);
+		const resumedRead = await tool.execute("call-4", { path: "sample.txt" }, undefined, undefined, ctx);
+		expect(resumedRead.details?.readcache?.mode).toBe("unchanged");
+	});
+
+	it("rejects unknown modes", async () => {
+		const cwd = await mkdtemp(join(tmpdir(), "pi-readcache-mode-"));
+		const sessionManager = SessionManager.inMemory(cwd);
+		const harness = createExtensionHarness(sessionManager);
+		registerReadcacheCommands(harness.pi, createReplayRuntimeState());
+
+		await expect(getModeCommand(harness.commands).handler("sleep", asCommandContext(cwd, sessionManager))).rejects.toThrow(
+			/Invalid readcache mode/,
+		);
+	});
+});
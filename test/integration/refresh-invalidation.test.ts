@@ -283,6 +283,62 @@ describe("integration: refresh invalidation", () => {
 		expect(rangeReadAgain.details?.readcache?.mode).toBe("unchanged_range");
 	});
 
+	it("does not report moved content into a range that a refresh still blocks", async () => {
+		const cwd = await mkdtemp(join(tmpdir(), "pi-readcache-refresh-moved-"));
+		const filePath = join(cwd, "sample.txt");
+		const initialLines = Array.from({ length: 200 }, (_, index) => `line ${index + 1}`);
+		await writeFile(filePath, initialLines.join("\n"), "utf-8");
+
+		const sessionManager = SessionManager.inMemory(cwd);
+		const runtimeState = createReplayRuntimeState();
+		const readTool = createReadOverrideTool(runtimeState);
+		const harness = createExtensionHarness(sessionManager);
+		registerReadcacheCommands(harness.pi, runtimeState);
+
+		const refreshTool = harness.tools.get("readcache_refresh");
+		if (!refreshTool) {
+			throw new Error("expected readcache_refresh tool registration");
+		}
+
+		const ctx = asContext(cwd, sessionManager);
+
+		appendReadResult(
+			sessionManager,
+			"read-m1",
+			await readTool.execute("read-m1", { path: "sample.txt" }, undefined, undefined, ctx),
+		);
+		await refreshTool.definition.execute(
+			"refresh-m1",
+			{ path: "sample.txt", offset: 101, limit: 21 },
+			undefined,
+			undefined,
+			ctx,
+		);
+		expect(listInvalidations(sessionManager)[0]?.scopeKey).toBe("r:101:121");
+
+		await writeFile(filePath, ["inserted header line", ...initialLines].join("\n"), "utf-8");
+
+		const shiftedRangeRead = await readTool.execute(
+			"read-m2",
+			{ path: "sample.txt", offset: 100, limit: 21 },
+			undefined,
+			undefined,
+			ctx,
+		);
+		expect(shiftedRangeRead.details?.readcache?.mode).not.toBe("moved_range");
+		expect(shiftedRangeRead.details?.readcache?.scopeKey).toBe("r:100:120");
+		appendReadResult(sessionManager, "read-m2", shiftedRangeRead);
+
+		const blockedRangeRead = await readTool.execute(
+			"read-m3",
+			{ path: "sample.txt", offset: 101, limit: 21 },
+			undefined,
+			undefined,
+			ctx,
+		);
+		expect(blockedRangeRead.details?.readcache?.mode).toBe("full");
+	});
+
 	it("readcache_refresh tool uses the same persistent invalidation semantics as the command", async () => {
 		const cwd = await mkdtemp(join(tmpdir(), "pi-readcache-refresh-tool-"));
 		await writeFile(join(cwd, "sample.txt"), "one\ntwo\nthree", "utf-8");
@@ -8,7 +8,8 @@ import {
 	type ExtensionContext,
 	type ToolDefinition,
 } from "@mariozechner/pi-coding-agent";
-import { describe, expect, it } from "vitest";
+import { describe, expect, it, vi } from "vitest";
+import { appendReplayCheckpointIfDue } from "../../src/checkpoint.js";
 import { registerReadcacheCommands } from "../../src/commands.js";
 import { READCACHE_CUSTOM_TYPE } from "../../src/constants.js";
 import { createReplayRuntimeState } from "../../src/replay.js";
@@ -150,6 +151,44 @@ describe("integration: restart and resume", () => {
 		expect(resumedUnchanged.details?.readcache?.mode).toBe("unchanged");
 	});
 
+	it("resumes trust from a persisted replay checkpoint without replaying the whole branch", async () => {
+		const cwd = await mkdtemp(join(tmpdir(), "pi-readcache-checkpoint-cwd-"));
+		const sessionDir = await mkdtemp(join(tmpdir(), "pi-readcache-checkpoint-session-"));
+		await writeFile(join(cwd, "sample.txt"), "alpha\nbeta\ngamma", "utf-8");
+
+		const sessionManager = SessionManager.create(cwd, sessionDir);
+		appendAssistantSeed(sessionManager, "seed assistant turn for persistence");
+		const runtimeState = createReplayRuntimeState();
+		const readTool = createReadOverrideTool(runtimeState);
+		const harness = createExtensionHarness(sessionManager);
+		const ctx = asContext(cwd, sessionManager);
+
+		const firstRead = await readTool.execute("read-1", { path: "sample.txt" }, undefined, undefined, ctx);
+		appendReadResult(sessionManager, "read-1", firstRead);
+		expect(appendReplayCheckpointIfDue(harness.pi, runtimeState, sessionManager, 10)).toBe(false);
+		expect(appendReplayCheckpointIfDue(harness.pi, runtimeState, sessionManager, 2)).toBe(true);
+		expect(appendReplayCheckpointIfDue(harness.pi, runtimeState, sessionManager, 2)).toBe(false);
+
+		const sessionFile = sessionManager.getSessionFile();
+		if (!sessionFile) {
+			throw new Error("expected persisted session file");
+		}
+		expect(await readFile(sessionFile, "utf-8")).toContain('"kind":"checkpoint"');
+
+		const resumedSessionManager = SessionManager.open(sessionFile, sessionDir);
+		const getBranch = vi.spyOn(resumedSessionManager, "getBranch");
+		const resumedReadTool = createReadOverrideTool(createReplayRuntimeState());
+		const resumedRead = await resumedReadTool.execute(
+			"read-2",
+			{ path: "sample.txt" },
+			undefined,
+			undefined,
+			asContext(cwd, resumedSessionManager),
+		);
+		expect(resumedRead.details?.readcache?.mode).toBe("unchanged");
+		expect(getBranch).not.toHaveBeenCalled();
+	});
+
 	it("keeps replay knowledge isolated when switching between sessions", async () => {
 		const cwd = await mkdtemp(join(tmpdir(), "pi-readcache-switch-cwd-"));
 		const sessionDirA = await mkdtemp(join(tmpdir(), "pi-readcache-switch-a-"));
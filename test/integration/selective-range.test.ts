@@ -71,7 +71,7 @@ describe("integration: selective range behavior", () => {
 		expect(getText(secondRangeRead)).toContain("[readcache: unchanged in lines 3-5 of 12]");
 	});
 
-	it("keeps unchanged_range for outside edits and falls back when the requested range changed", async () => {
+	it("keeps unchanged_range for outside edits and emits a slice diff when the requested range changed", async () => {
 		const cwd = await mkdtemp(join(tmpdir(), "pi-readcache-range-"));
 		const filePath = join(cwd, "sample.txt");
 		const initialLines = Array.from({ length: 400 }, (_, index) => `line ${index + 1}`);
@@ -99,11 +99,18 @@ describe("integration: selective range behavior", () => {
 		appendReadResult(sessionManager, "call-range-2", unchangedRange);
 
 		const changedRange = await tool.execute("call-range-3", { path: "sample.txt:100-349" }, undefined, undefined, ctx);
-		expect(changedRange.details?.readcache?.mode).toBe("baseline_fallback");
-		expect(getText(changedRange)).toContain("line 300 updated");
+		expect(changedRange.details?.readcache?.mode).toBe("diff_range");
+		expect(changedRange.details?.readcache?.debug).toMatchObject({ reason: "diff_emitted", scope: "range" });
+		expect(getText(changedRange)).toContain("[readcache: 1 lines changed in lines 100-349 of 400]");
+		expect(getText(changedRange)).toContain("@@ -297,7 +297,7 @@");
+		expect(getText(changedRange)).toContain("-line 300\n+line 300 updated");
+		appendReadResult(sessionManager, "call-range-3", changedRange);
+
+		const repeatedRange = await tool.execute("call-range-4", { path: "sample.txt:100-349" }, undefined, undefined, ctx);
+		expect(repeatedRange.details?.readcache?.mode).toBe("unchanged_range");
 	});
 
-	it("treats line insertions before a requested range as range-changed fallback", async () => {
+	it("reports moved content when lines are inserted before a requested range", async () => {
 		const cwd = await mkdtemp(join(tmpdir(), "pi-readcache-range-"));
 		const filePath = join(cwd, "sample.txt");
 		const initialLines = Array.from({ length: 200 }, (_, index) => `line ${index + 1}`);
@@ -127,7 +134,89 @@ describe("integration: selective range behavior", () => {
 			undefined,
 			ctx,
 		);
-		expect(shiftedRangeRead.details?.readcache?.mode).toBe("baseline_fallback");
-		expect(getText(shiftedRangeRead)).toContain("line 99");
+		expect(shiftedRangeRead.details?.readcache).toMatchObject({
+			mode: "moved_range",
+			scopeKey: "r:101:121",
+			movedFromScopeKey: "r:100:120",
+			rangeStart: 101,
+			rangeEnd: 121,
+		});
+		expect(shiftedRangeRead.details?.readcache?.debug?.reason).toBe("range_slice_moved");
+		expect(getText(shiftedRangeRead)).toBe("[readcache: lines 100-120 content unchanged, now at 101-121]");
+		appendReadResult(sessionManager, "call-insert-2", shiftedRangeRead);
+
+		const movedScopeRead = await tool.execute("call-insert-3", { path: "sample.txt:101-121" }, undefined, undefined, ctx);
+		expect(movedScopeRead.details?.readcache?.mode).toBe("unchanged_range");
+		expect(movedScopeRead.details?.readcache?.debug?.reason).toBe("hash_match");
+	});
+
+	it("falls back to a slice diff when shifted content was also edited", async () => {
+		const cwd = await mkdtemp(join(tmpdir(), "pi-readcache-range-"));
+		const filePath = join(cwd, "sample.txt");
+		const initialLines = Array.from({ length: 200 }, (_, index) => `line ${index + 1}`);
+		await writeFile(filePath, initialLines.join("\n"), "utf-8");
+
+		const sessionManager = SessionManager.inMemory(cwd);
+		const tool = createReadOverrideTool(createReplayRuntimeState());
+		const ctx = asContext(cwd, sessionManager);
+
+		appendReadResult(
+			sessionManager,
+			"call-shift-1",
+			await tool.execute("call-shift-1", { path: "sample.txt:100-160" }, undefined, undefined, ctx),
+		);
+
+		const shifted = ["inserted header line", ...initialLines];
+		shifted[110] = "line 110 updated";
+		await writeFile(filePath, shifted.join("\n"), "utf-8");
+
+		const shiftedRangeRead = await tool.execute("call-shift-2", { path: "sample.txt:100-160" }, undefined, undefined, ctx);
+		expect(shiftedRangeRead.details?.readcache?.mode).toBe("diff_range");
+		expect(getText(shiftedRangeRead)).toContain("+line 99");
+	});
+
+	it("serves contained ranges and composed full reads from earlier range trust", async () => {
+		const cwd = await mkdtemp(join(tmpdir(), "pi-readcache-range-"));
+		const filePath = join(cwd, "sample.txt");
+		const initialLines = Array.from({ length: 500 }, (_, index) => `line ${index + 1}`);
+		await writeFile(filePath, initialLines.join("\n"), "utf-8");
+
+		const sessionManager = SessionManager.inMemory(cwd);
+		const tool = createReadOverrideTool(createReplayRuntimeState());
+		const ctx = asContext(cwd, sessionManager);
+
+		const wideRead = await tool.execute("call-compose-1", { path: "sample.txt:1-400" }, undefined, undefined, ctx);
+		expect(wideRead.details?.readcache?.mode).toBe("full");
+		appendReadResult(sessionManager, "call-compose-1", wideRead);
+
+		const containedRead = await tool.execute("call-compose-2", { path: "sample.txt:50-120" }, undefined, undefined, ctx);
+		expect(containedRead.details?.readcache?.mode).toBe("unchanged_range");
+		expect(getText(containedRead)).toBe("[readcache: unchanged in lines 50-120 of 500]");
+		appendReadResult(sessionManager, "call-compose-2", containedRead);
+
+		const tailRead = await tool.execute("call-compose-3", { path: "sample.txt:401-500" }, undefined, undefined, ctx);
+		expect(tailRead.details?.readcache?.mode).toBe("full");
+		appendReadResult(sessionManager, "call-compose-3", tailRead);
+
+		const composedRead = await tool.execute("call-compose-4", { path: "sample.txt" }, undefined, undefined, ctx);
+		expect(composedRead.details?.readcache?.mode).toBe("unchanged");
+		expect(getText(composedRead)).toBe("[readcache: unchanged, 500 lines]");
+		appendReadResult(sessionManager, "call-compose-4", composedRead);
+
+		const replayedTool = createReadOverrideTool(createReplayRuntimeState());
+		const replayedRead = await replayedTool.execute("call-compose-5", { path: "sample.txt" }, undefined, undefined, ctx);
+		expect(replayedRead.details?.readcache?.mode).toBe("unchanged");
+
+		await writeFile(filePath, initialLines.map((line, index) => (index === 9 ? "line 10 updated" : line)).join("\n"), "utf-8");
+		const changedTool = createReadOverrideTool(createReplayRuntimeState());
+		const changedContainedRead = await changedTool.execute(
+			"call-compose-6",
+			{ path: "sample.txt:5-60" },
+			undefined,
+			undefined,
+			ctx,
+		);
+		expect(changedContainedRead.details?.readcache?.mode).toBe("diff_range");
+		expect(getText(changedContainedRead)).toContain("+line 10 updated");
 	});
 });
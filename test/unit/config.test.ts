@@ -0,0 +1,127 @@
+import { mkdir, mkdtemp, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+import {
+	DEFAULT_READCACHE_CONFIG,
+	loadReadcacheConfig,
+	mergeReadcacheConfig,
+	parseReadcacheConfig,
+} from "../../src/config.js";
+import { READCACHE_CONFIG_FILE } from "../../src/constants.js";
+
+async function writeConfig(root: string, value: unknown): Promise<void> {
+	await mkdir(join(root, ".pi/readcache"), { recursive: true });
+	const raw = typeof value === "string" ? value : JSON.stringify(value);
+	await writeFile(join(root, READCACHE_CONFIG_FILE), raw, "utf-8");
+}
+
+describe("config", () => {
+	it("returns defaults when no config files exist", async () => {
+		const repoRoot = await mkdtemp(join(tmpdir(), "pi-readcache-config-"));
+		const homeDir = await mkdtemp(join(tmpdir(), "pi-readcache-home-"));
+
+		const loaded = await loadReadcacheConfig(repoRoot, homeDir);
+		expect(loaded.config).toEqual(DEFAULT_READCACHE_CONFIG);
+		expect(loaded.sources).toEqual([]);
+		expect(loaded.errors).toEqual([]);
+	});
+
+	it("merges project config over user config over defaults", async () => {
+		const repoRoot = await mkdtemp(join(tmpdir(), "pi-readcache-config-"));
+		const homeDir = await mkdtemp(join(tmpdir(), "pi-readcache-home-"));
+		await writeConfig(homeDir, { diff: { maxFileLines: 500, maxDiffToBaseRatio: 0.5 }, objectMaxAgeMs: 1000 });
+		await writeConfig(repoRoot, { diff: { maxDiffToBaseRatio: 0.7 }, excludedPathPatterns: ["*.secret"] });
+
+		const loaded = await loadReadcacheConfig(repoRoot, homeDir);
+		expect(loaded.errors).toEqual([]);
+		expect(loaded.sources).toEqual([join(homeDir, READCACHE_CONFIG_FILE), join(repoRoot, READCACHE_CONFIG_FILE)]);
+		expect(loaded.config).toEqual({
+			...DEFAULT_READCACHE_CONFIG,
+			diff: {
+				...DEFAULT_READCACHE_CONFIG.diff,
+				maxFileLines: 500,
+				maxDiffToBaseRatio: 0.7,
+			},
+			objectMaxAgeMs: 1000,
+			excludedPathPatterns: ["*.secret"],
+		});
+	});
+
+	it("reports invalid config files and falls back to defaults for them", async () => {
+		const repoRoot = await mkdtemp(join(tmpdir(), "pi-readcache-config-"));
+		const homeDir = await mkdtemp(join(tmpdir(), "pi-readcache-home-"));
+		await writeConfig(homeDir, "{ not json");
+		await writeConfig(repoRoot, { diff: { maxFileBytes: -1 } });
+
+		const loaded = await loadReadcacheConfig(repoRoot, homeDir);
+		expect(loaded.config).toEqual(DEFAULT_READCACHE_CONFIG);
+		expect(loaded.sources).toEqual([]);
+		expect(loaded.errors).toHaveLength(2);
+		expect(loaded.errors[0]).toMatch(/Invalid JSON/);
+		expect(loaded.errors[1]).toMatch(/\/diff\/maxFileBytes/);
+	});
+
+	it("rejects unknown keys", () => {
+		expect(parseReadcacheConfig({ objectMaxAgeMs: 10 }).error).toBeUndefined();
+		expect(parseReadcacheConfig({ maxDiffBytes: 10 }).error).toBeDefined();
+		expect(parseReadcacheConfig({ diff: { ratio: 0.5 } }).error).toBeDefined();
+		expect(parseReadcacheConfig([]).error).toBeDefined();
+	});
+
+	it("appends extra exclusion patterns to the inherited list", () => {
+		const userLayer = mergeReadcacheConfig(DEFAULT_READCACHE_CONFIG, { extraExcludedPathPatterns: ["secrets/**"] });
+		const projectLayer = mergeReadcacheConfig(userLayer, { extraExcludedPathPatterns: ["!.env.example"] });
+		expect(projectLayer.excludedPathPatterns).toEqual([
+			...DEFAULT_READCACHE_CONFIG.excludedPathPatterns,
+			"secrets/**",
+			"!.env.example",
+		]);
+
+		const replaced = mergeReadcacheConfig(projectLayer, { excludedPathPatterns: ["*.pem"] });
+		expect(replaced.excludedPathPatterns).toEqual(["*.pem"]);
+	});
+
+	it("appends path policy rules from each config layer in order", () => {
+		const userLayer = mergeReadcacheConfig(DEFAULT_READCACHE_CONFIG, { pathPolicies: { "*.lock": "always_full" } });
+		const projectLayer = mergeReadcacheConfig(userLayer, {
+			pathPolicies: { "schemas/**": "no_diff", "yarn.lock": "default" },
+		});
+		expect(projectLayer.pathPolicies).toEqual([
+			{ pattern: "*.lock", policy: "always_full" },
+			{ pattern: "schemas/**", policy: "no_diff" },
+			{ pattern: "yarn.lock", policy: "default" },
+		]);
+		expect(parseReadcacheConfig({ pathPolicies: { "*.lock": "sometimes" } }).error).toMatch(/pathPolicies/);
+	});
+
+	it("keeps the watcher off unless a layer enables it", () => {
+		expect(DEFAULT_READCACHE_CONFIG.watch).toBe(false);
+		const enabled = mergeReadcacheConfig(DEFAULT_READCACHE_CONFIG, { watch: true });
+		expect(enabled.watch).toBe(true);
+		expect(mergeReadcacheConfig(enabled, {}).watch).toBe(true);
+	});
+
+	it("keeps objects in the repo store unless a layer selects the user store", () => {
+		expect(DEFAULT_READCACHE_CONFIG.objectStore).toBe("repo");
+		expect(mergeReadcacheConfig(DEFAULT_READCACHE_CONFIG, { objectStore: "user" }).objectStore).toBe("user");
+		expect(parseReadcacheConfig({ objectStore: "global" }).error).toMatch(/objectStore/);
+	});
+
+	it("bounds the replay memo unless a layer overrides it", () => {
+		expect(DEFAULT_READCACHE_CONFIG.memoMaxEntries).toBe(256);
+		expect(mergeReadcacheConfig(DEFAULT_READCACHE_CONFIG, { memoMaxEntries: 32 }).memoMaxEntries).toBe(32);
+		expect(parseReadcacheConfig({ memoMaxEntries: 0 }).error).toMatch(/memoMaxEntries/);
+	});
+
+	it("keeps the compaction barrier strict unless a layer relaxes it", () => {
+		expect(DEFAULT_READCACHE_CONFIG.compactionBarrier).toBe("strict");
+		expect(mergeReadcacheConfig(DEFAULT_READCACHE_CONFIG, { compactionBarrier: "relaxed" }).compactionBarrier).toBe("relaxed");
+		expect(parseReadcacheConfig({ compactionBarrier: "loose" }).error).toMatch(/compactionBarrier/);
+	});
+
+	it("keeps unspecified tunables when merging", () => {
+		const merged = mergeReadcacheConfig(DEFAULT_READCACHE_CONFIG, {});
+		expect(merged).toEqual(DEFAULT_READCACHE_CONFIG);
+	});
+});
@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+import { applyTextDelta, encodeTextDelta, isTextDeltaOps } from "../../src/delta.js";
+
+describe("delta", () => {
+	it("round-trips line edits, insertions, and deletions", () => {
+		const base = ["alpha", "beta", "gamma", "delta", "epsilon"].join("\n");
+		const text = ["header", "alpha", "BETA", "gamma", "epsilon", ""].join("\n");
+
+		const ops = encodeTextDelta(base, text);
+		expect(isTextDeltaOps(ops)).toBe(true);
+		expect(applyTextDelta(base, ops)).toBe(text);
+		expect(applyTextDelta(base, encodeTextDelta(base, base))).toBe(base);
+		expect(applyTextDelta("", encodeTextDelta("", text))).toBe(text);
+	});
+
+	it("rejects deltas that do not match their base", () => {
+		const ops = encodeTextDelta("one\ntwo\n", "one\nTWO\n");
+		expect(() => applyTextDelta("one\n", ops)).toThrow(/does not match/);
+		expect(() => applyTextDelta("one\ntwo\nthree\n", ops)).toThrow(/does not match/);
+		expect(isTextDeltaOps([1, "x", 0])).toBe(false);
+		expect(isTextDeltaOps([1.5])).toBe(false);
+	});
+});
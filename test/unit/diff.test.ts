@@ -1,5 +1,5 @@
 import { describe, expect, it } from "vitest";
-import { computeUnifiedDiff, isDiffUseful } from "../../src/diff.js";
+import { computeRangeUnifiedDiff, computeUnifiedDiff, isDiffUseful } from "../../src/diff.js";
 
 describe("diff", () => {
 	it("computes deterministic unified diffs for full-scope changes", () => {
@@ -17,6 +17,21 @@ describe("diff", () => {
 		expect(diff?.diffText.startsWith("===")).toBe(false);
 	});
 
+	it("computes range diffs with absolute line numbers in hunk headers", () => {
+		const baseSlice = ["line 20", "line 21", "line 22", "line 23", "line 24"].join("\n");
+		const currentSlice = ["line 20", "line 21", "line 22 updated", "line 23", "line 24"].join("\n");
+
+		const diff = computeRangeUnifiedDiff(baseSlice, currentSlice, "sample.txt", 20);
+		expect(diff).toBeDefined();
+		expect(diff?.diffText).toContain("@@ -20,5 +20,5 @@");
+		expect(diff?.diffText).toContain("+line 22 updated");
+		expect(diff?.diffText).not.toContain("No newline at end of file");
+		expect(diff?.changedLines).toBe(1);
+
+		expect(computeRangeUnifiedDiff(baseSlice, baseSlice, "sample.txt", 20)).toBeUndefined();
+		expect(() => computeRangeUnifiedDiff(baseSlice, currentSlice, "sample.txt", 0)).toThrow();
+	});
+
 	it("returns undefined when there are no line-level hunks", () => {
 		const diff = computeUnifiedDiff("same\ntext", "same\ntext", "sample.txt");
 		expect(diff).toBeUndefined();
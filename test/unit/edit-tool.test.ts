@@ -0,0 +1,92 @@
+import { mkdtemp, readFile, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { SessionManager, type AgentToolResult, type ExtensionContext } from "@mariozechner/pi-coding-agent";
+import { describe, expect, it } from "vitest";
+import { createEditOverrideTool } from "../../src/edit-tool.js";
+import { createReplayRuntimeState } from "../../src/replay.js";
+import { createReadOverrideTool } from "../../src/tool.js";
+import type { ReadToolDetailsExt } from "../../src/types.js";
+
+function appendReadResult(
+	sessionManager: SessionManager,
+	toolCallId: string,
+	result: AgentToolResult<ReadToolDetailsExt | undefined>,
+): void {
+	sessionManager.appendMessage({
+		role: "toolResult",
+		toolCallId,
+		toolName: "read",
+		content: result.content,
+		details: result.details,
+		isError: false,
+		timestamp: Date.now(),
+	});
+}
+
+async function setup(text: string) {
+	const cwd = await mkdtemp(join(tmpdir(), "pi-readcache-edit-"));
+	const filePath = join(cwd, "sample.txt");
+	await writeFile(filePath, text, "utf-8");
+	const sessionManager = SessionManager.inMemory(cwd);
+	const runtimeState = createReplayRuntimeState();
+	const ctx = { cwd, sessionManager } as unknown as ExtensionContext;
+	return {
+		filePath,
+		sessionManager,
+		ctx,
+		readTool: createReadOverrideTool(runtimeState),
+		editTool: createEditOverrideTool(runtimeState),
+	};
+}
+
+describe("edit-tool", () => {
+	it("delegates successful edits to the baseline edit tool", async () => {
+		const { filePath, ctx, editTool } = await setup("alpha\nbeta\ngamma");
+
+		const result = await editTool.execute("edit-1", { path: "sample.txt", oldText: "beta", newText: "BETA" }, undefined, undefined, ctx);
+		expect(result.content[0]).toMatchObject({ type: "text", text: "Successfully replaced text in sample.txt." });
+		expect(await readFile(filePath, "utf-8")).toBe("alpha\nBETA\ngamma");
+	});
+
+	it("reports drift from the last trusted content when oldText is missing", async () => {
+		const lines = Array.from({ length: 30 }, (_, index) => `line ${index + 1}`);
+		const { filePath, sessionManager, ctx, readTool, editTool } = await setup(lines.join("\n"));
+		appendReadResult(sessionManager, "read-1", await readTool.execute("read-1", { path: "sample.txt" }, undefined, undefined, ctx));
+
+		lines[11] = "line 12 changed elsewhere";
+		await writeFile(filePath, lines.join("\n"), "utf-8");
+
+		const attempt = editTool.execute(
+			"edit-1",
+			{ path: "sample.txt", oldText: "line 12\n", newText: "line twelve\n" },
+			undefined,
+			undefined,
+			ctx,
+		);
+		await expect(attempt).rejects.toThrow(/Could not find the exact text/);
+		await expect(attempt).rejects.toThrow(/\[readcache: sample\.txt changed since you last read it; 1 lines differ\]/);
+		await expect(attempt).rejects.toThrow(/\+line 12 changed elsewhere/);
+	});
+
+	it("says the file is unchanged when oldText never matched the trusted content", async () => {
+		const { sessionManager, ctx, readTool, editTool } = await setup("alpha\nbeta\ngamma");
+		appendReadResult(sessionManager, "read-1", await readTool.execute("read-1", { path: "sample.txt" }, undefined, undefined, ctx));
+
+		await expect(
+			editTool.execute("edit-1", { path: "sample.txt", oldText: "delta", newText: "DELTA" }, undefined, undefined, ctx),
+		).rejects.toThrow(/sample\.txt is unchanged since you last read it/);
+	});
+
+	it("keeps the baseline error when there is no trust or the failure is not a mismatch", async () => {
+		const { ctx, editTool } = await setup("alpha\nbeta\nbeta");
+
+		const untrusted = editTool.execute("edit-1", { path: "sample.txt", oldText: "delta", newText: "DELTA" }, undefined, undefined, ctx);
+		await expect(untrusted).rejects.toThrow(/Could not find the exact text in sample\.txt/);
+		await expect(untrusted).rejects.not.toThrow(/readcache/);
+
+		await expect(
+			editTool.execute("edit-2", { path: "sample.txt", oldText: "beta", newText: "BETA" }, undefined, undefined, ctx),
+		).rejects.toThrow(/^Found 2 occurrences/);
+	});
+});
@@ -0,0 +1,72 @@
+import type { SessionEntry } from "@mariozechner/pi-coding-agent";
+import { describe, expect, it } from "vitest";
+import { buildDerivedTrustV1, buildReadCacheMetaV1 } from "../../src/meta.js";
+import { collectReplayWindowHashes } from "../../src/gc.js";
+
+const HASH_A = "a".repeat(64);
+const HASH_B = "b".repeat(64);
+const HASH_C = "c".repeat(64);
+const HASH_D = "d".repeat(64);
+
+function readEntry(id: string, parentId: string | null, servedHash: string): SessionEntry {
+	return {
+		type: "message",
+		id,
+		parentId,
+		timestamp: new Date(0).toISOString(),
+		message: {
+			role: "toolResult",
+			toolCallId: id,
+			toolName: "read",
+			content: [{ type: "text", text: "content" }],
+			details: {
+				readcache: buildReadCacheMetaV1({
+					pathKey: "/repo/a.ts",
+					scopeKey: "full",
+					servedHash,
+					mode: "full",
+					totalLines: 1,
+					rangeStart: 1,
+					rangeEnd: 1,
+					bytes: 7,
+				}),
+			},
+			isError: false,
+			timestamp: 0,
+		},
+	} as SessionEntry;
+}
+
+function compactionEntry(id: string, parentId: string): SessionEntry {
+	return {
+		type: "compaction",
+		id,
+		parentId,
+		timestamp: new Date(0).toISOString(),
+		summary: "compact",
+		firstKeptEntryId: parentId,
+		tokensBefore: 10,
+	} as SessionEntry;
+}
+
+describe("gc", () => {
+	it("collects served hashes from every leaf's replay window", () => {
+		const entries: SessionEntry[] = [
+			readEntry("1", null, HASH_A),
+			compactionEntry("2", "1"),
+			readEntry("3", "2", HASH_B),
+			readEntry("4", "1", HASH_C),
+			{
+				type: "custom",
+				id: "5",
+				parentId: "3",
+				timestamp: new Date(0).toISOString(),
+				customType: "pi-readcache",
+				data: buildDerivedTrustV1("write", "/repo/b.ts", HASH_D, undefined, 1),
+			} as SessionEntry,
+		];
+
+		expect([...collectReplayWindowHashes(entries)].sort()).toEqual([HASH_A, HASH_B, HASH_C, HASH_D]);
+		expect([...collectReplayWindowHashes(entries.slice(0, 3))].sort()).toEqual([HASH_B]);
+	});
+});
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_EXCLUDED_PATH_PATTERNS } from "../../src/constants.js";
+import { compilePathPattern, compilePathPatterns, matchPathPatterns, toPatternPath } from "../../src/glob.js";
+
+function matchedSource(path: string, patterns: readonly string[]): string | undefined {
+	const matched = matchPathPatterns(path, compilePathPatterns(patterns));
+	if (!matched || matched.negated) {
+		return undefined;
+	}
+	return matched.source;
+}
+
+describe("glob", () => {
+	it("matches patterns without a slash against the basename at any depth", () => {
+		expect(matchedSource(".env.local", [".env*"])).toBe(".env*");
+		expect(matchedSource("config/.env.production", [".env*"])).toBe(".env*");
+		expect(matchedSource("certs/server.PEM", ["*.pem"])).toBe("*.pem");
+		expect(matchedSource("home/.ssh/id_rsa", ["id_rsa"])).toBe("id_rsa");
+		expect(matchedSource("src/envoy.ts", [".env*"])).toBeUndefined();
+	});
+
+	it("keeps the default sensitive-path patterns behaving as basename matches", () => {
+		for (const path of [".env", "a/b/.npmrc", "keys/client.p12", "deploy/id_ed25519"]) {
+			expect(matchedSource(path, DEFAULT_EXCLUDED_PATH_PATTERNS)).toBeDefined();
+		}
+		expect(matchedSource("src/index.ts", DEFAULT_EXCLUDED_PATH_PATTERNS)).toBeUndefined();
+	});
+
+	it("anchors patterns containing a slash to the repo root", () => {
+		expect(matchedSource("secrets/prod/api.json", ["secrets/**"])).toBe("secrets/**");
+		expect(matchedSource("nested/secrets/api.json", ["secrets/**"])).toBeUndefined();
+		expect(matchedSource("build/out.js", ["/build"])).toBe("/build");
+		expect(matchedSource("src/build/out.js", ["/build"])).toBeUndefined();
+	});
+
+	it("supports ** segments in leading and middle positions", () => {
+		expect(matchedSource("test/fixtures/a.golden", ["**/fixtures/*.golden"])).toBe("**/fixtures/*.golden");
+		expect(matchedSource("fixtures/a.golden", ["**/fixtures/*.golden"])).toBe("**/fixtures/*.golden");
+		expect(matchedSource("test/fixtures/deep/a.golden", ["**/fixtures/*.golden"])).toBeUndefined();
+		expect(matchedSource("a/x/y/z/b.txt", ["a/**/b.txt"])).toBe("a/**/b.txt");
+		expect(matchedSource("a/b.txt", ["a/**/b.txt"])).toBe("a/**/b.txt");
+	});
+
+	it("matches directory patterns against ancestors only", () => {
+		expect(matchedSource("vault/keys.txt", ["vault/"])).toBe("vault/");
+		expect(matchedSource("a/vault/keys.txt", ["vault/"])).toBe("vault/");
+		expect(matchedSource("vault", ["vault/"])).toBeUndefined();
+		expect(matchedSource("vault", ["vault"])).toBe("vault");
+	});
+
+	it("lets the last matching pattern win, including negations", () => {
+		const patterns = [".env*", "!.env.example"];
+		expect(matchedSource(".env", patterns)).toBe(".env*");
+		expect(matchedSource(".env.example", patterns)).toBeUndefined();
+		expect(matchPathPatterns(".env.example", compilePathPatterns(patterns))?.negated).toBe(true);
+		expect(matchedSource("secrets/public.txt", ["secrets/**", "!secrets/public.txt"])).toBeUndefined();
+	});
+
+	it("supports ? wildcards, character classes, and escapes", () => {
+		expect(matchedSource("log1.txt", ["log?.txt"])).toBe("log?.txt");
+		expect(matchedSource("log12.txt", ["log?.txt"])).toBeUndefined();
+		expect(matchedSource("key-b.pem", ["key-[a-c].pem"])).toBe("key-[a-c].pem");
+		expect(matchedSource("key-d.pem", ["key-[!a-c].pem"])).toBe("key-[!a-c].pem");
+		expect(matchedSource("!important", ["\\!important"])).toBe("\\!important");
+		expect(matchedSource("a+b(1).txt", ["a+b(1).txt"])).toBe("a+b(1).txt");
+	});
+
+	it("ignores empty patterns and computes repo-relative paths", () => {
+		expect(compilePathPattern("!")).toBeUndefined();
+		expect(compilePathPattern("/")).toBeUndefined();
+		expect(toPatternPath("/repo/src/a.ts", "/repo")).toBe("src/a.ts");
+		expect(toPatternPath("/other/a.pem", "/repo")).toBe("../other/a.pem");
+		expect(matchedSource("../other/a.pem", ["*.pem"])).toBe("*.pem");
+		expect(matchedSource("../other/a.pem", ["other/*.pem"])).toBeUndefined();
+	});
+});
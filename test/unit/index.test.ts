@@ -23,9 +23,13 @@ describe("index extension wiring", () => {
 		registerExtension(api);
 
 		expect(registeredTools).toContain("read");
+		expect(registeredTools).toContain("edit");
 		expect(registeredTools).toContain("readcache_refresh");
 		expect(registeredCommands).toContain("readcache-status");
 		expect(registeredCommands).toContain("readcache-refresh");
+		expect(registeredCommands).toContain("readcache-mode");
+		expect(registeredCommands).toContain("readcache-gc");
+		expect(registeredCommands).toContain("readcache-fsck");
 
 		expect(eventHandlers.has("session_start")).toBe(true);
 		expect(eventHandlers.has("session_compact")).toBe(true);
@@ -33,5 +37,10 @@ describe("index extension wiring", () => {
 		expect(eventHandlers.has("session_fork")).toBe(true);
 		expect(eventHandlers.has("session_switch")).toBe(true);
 		expect(eventHandlers.has("session_shutdown")).toBe(true);
+		expect(eventHandlers.has("tool_call")).toBe(true);
+		expect(eventHandlers.has("tool_result")).toBe(true);
+		expect(eventHandlers.has("context")).toBe(true);
+		expect(eventHandlers.has("before_agent_start")).toBe(true);
+		expect(eventHandlers.has("turn_end")).toBe(true);
 	});
 });
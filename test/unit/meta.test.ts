@@ -2,11 +2,23 @@ import type { SessionEntry } from "@mariozechner/pi-coding-agent";
 import { describe, expect, it } from "vitest";
 import { SCOPE_FULL } from "../../src/constants.js";
 import {
+	buildCheckpointV1,
+	buildCompactionManifestV1,
+	buildDerivedTrustV1,
 	buildInvalidationV1,
+	buildModeChangeV1,
 	buildReadCacheMetaV1,
+	extractCheckpointFromSessionEntry,
+	extractCompactionManifestFromSessionEntry,
+	extractDerivedTrustFromSessionEntry,
 	extractInvalidationFromSessionEntry,
+	extractModeChangeFromSessionEntry,
 	extractReadMetaFromSessionEntry,
+	isReadCacheCheckpointV1,
+	isReadCacheCompactionManifestV1,
+	isReadCacheDerivedTrustV1,
 	isReadCacheInvalidationV1,
+	isReadCacheModeChangeV1,
 	isReadCacheMetaV1,
 } from "../../src/meta.js";
 
@@ -84,6 +96,55 @@ describe("meta", () => {
 				baseHash: undefined,
 			}),
 		).toBe(false);
+		expect(
+			isReadCacheMetaV1({
+				...meta,
+				mode: "diff_range",
+				scopeKey: "r:5:7",
+				rangeStart: 5,
+				rangeEnd: 7,
+				baseHash: "def",
+			}),
+		).toBe(true);
+		expect(
+			isReadCacheMetaV1({
+				...meta,
+				mode: "diff_range",
+				baseHash: "def",
+			}),
+		).toBe(false);
+		expect(
+			isReadCacheMetaV1({
+				...meta,
+				mode: "moved_range",
+				scopeKey: "r:6:8",
+				movedFromScopeKey: "r:5:7",
+				rangeStart: 6,
+				rangeEnd: 8,
+				baseHash: "def",
+			}),
+		).toBe(true);
+		expect(
+			isReadCacheMetaV1({
+				...meta,
+				mode: "moved_range",
+				scopeKey: "r:6:8",
+				rangeStart: 6,
+				rangeEnd: 8,
+				baseHash: "def",
+			}),
+		).toBe(false);
+		expect(
+			isReadCacheMetaV1({
+				...meta,
+				mode: "unchanged_range",
+				scopeKey: "r:6:8",
+				movedFromScopeKey: "r:5:7",
+				rangeStart: 6,
+				rangeEnd: 8,
+				baseHash: "def",
+			}),
+		).toBe(false);
 		expect(
 			isReadCacheMetaV1({
 				...meta,
@@ -100,6 +161,95 @@ describe("meta", () => {
 		expect(isReadCacheInvalidationV1({ ...payload, kind: "other" })).toBe(false);
 	});
 
+	it("validates mode change payloads", () => {
+		const payload = buildModeChangeV1("paused", 1234);
+		expect(isReadCacheModeChangeV1(payload)).toBe(true);
+		expect(isReadCacheModeChangeV1({ ...payload, mode: "sleeping" })).toBe(false);
+		expect(isReadCacheModeChangeV1({ ...payload, at: 0 })).toBe(false);
+		expect(isReadCacheInvalidationV1(payload)).toBe(false);
+	});
+
+	it("validates derived trust payloads", () => {
+		const write = buildDerivedTrustV1("write", "/tmp/file.txt", "abc", undefined, 1234);
+		const edit = buildDerivedTrustV1("edit", "/tmp/file.txt", "def", "abc", 1234);
+		expect(isReadCacheDerivedTrustV1(write)).toBe(true);
+		expect(isReadCacheDerivedTrustV1(edit)).toBe(true);
+		expect(isReadCacheDerivedTrustV1({ ...edit, baseHash: undefined })).toBe(false);
+		expect(isReadCacheDerivedTrustV1({ ...write, source: "bash" })).toBe(false);
+		expect(isReadCacheDerivedTrustV1({ ...write, servedHash: "" })).toBe(false);
+
+		const entry: SessionEntry = {
+			type: "custom",
+			id: "derived",
+			parentId: null,
+			timestamp: new Date().toISOString(),
+			customType: "pi-readcache",
+			data: edit,
+		};
+		expect(extractDerivedTrustFromSessionEntry(entry)).toEqual(edit);
+		expect(extractDerivedTrustFromSessionEntry({ ...entry, customType: "other" })).toBeUndefined();
+		expect(extractInvalidationFromSessionEntry(entry)).toBeUndefined();
+	});
+
+	it("validates replay checkpoint payloads", () => {
+		const payload = buildCheckpointV1(
+			"on",
+			3,
+			[
+				["/tmp/file.txt", "full", "a".repeat(64), 1],
+				["/tmp/file.txt", "r:2:4", "b".repeat(64), 3],
+			],
+			[["/tmp/other.txt", "r:1:5"]],
+			false,
+			1234,
+		);
+		expect(isReadCacheCheckpointV1(payload)).toBe(true);
+		expect(payload).not.toHaveProperty("relaxed");
+		expect(isReadCacheCheckpointV1(buildCheckpointV1("off", 0, [], [], false, 1234))).toBe(true);
+		expect(isReadCacheCheckpointV1(buildCheckpointV1("on", 0, [], [], true, 1234))).toBe(true);
+		expect(isReadCacheCheckpointV1({ ...payload, relaxed: false })).toBe(false);
+		expect(isReadCacheCheckpointV1({ ...payload, mode: "off" })).toBe(false);
+		expect(isReadCacheCheckpointV1({ ...payload, seq: 2 })).toBe(false);
+		expect(isReadCacheCheckpointV1({ ...payload, trust: [["/tmp/file.txt", "r:4:2", "a".repeat(64), 1]] })).toBe(false);
+		expect(isReadCacheCheckpointV1({ ...payload, trust: [["", "full", "a".repeat(64), 1]] })).toBe(false);
+		expect(isReadCacheCheckpointV1({ ...payload, trust: [["/tmp/file.txt", "full", "a".repeat(64)]] })).toBe(false);
+		expect(isReadCacheCheckpointV1({ ...payload, blocked: [["/tmp/other.txt", "full"]] })).toBe(false);
+		expect(isReadCacheCheckpointV1({ ...payload, at: 0 })).toBe(false);
+
+		const entry: SessionEntry = {
+			type: "custom",
+			id: "checkpoint",
+			parentId: null,
+			timestamp: new Date().toISOString(),
+			customType: "pi-readcache",
+			data: payload,
+		};
+		expect(extractCheckpointFromSessionEntry(entry)).toEqual(payload);
+		expect(extractCheckpointFromSessionEntry({ ...entry, customType: "other" })).toBeUndefined();
+		expect(extractModeChangeFromSessionEntry(entry)).toBeUndefined();
+	});
+
+	it("validates compaction manifest payloads", () => {
+		const payload = buildCompactionManifestV1("compact", [["/tmp/file.txt", "full", "a".repeat(64)]], 1234);
+		expect(isReadCacheCompactionManifestV1(payload)).toBe(true);
+		expect(isReadCacheCompactionManifestV1({ ...payload, compactionId: "" })).toBe(false);
+		expect(isReadCacheCompactionManifestV1({ ...payload, carried: [["/tmp/file.txt", "r:4:2", "a".repeat(64)]] })).toBe(false);
+		expect(isReadCacheCompactionManifestV1({ ...payload, carried: [["/tmp/file.txt", "full", ""]] })).toBe(false);
+		expect(isReadCacheCompactionManifestV1({ ...payload, at: 0 })).toBe(false);
+
+		const entry: SessionEntry = {
+			type: "custom",
+			id: "manifest",
+			parentId: "compact",
+			timestamp: new Date().toISOString(),
+			customType: "pi-readcache",
+			data: payload,
+		};
+		expect(extractCompactionManifestFromSessionEntry(entry)).toEqual(payload);
+		expect(extractCompactionManifestFromSessionEntry({ ...entry, customType: "other" })).toBeUndefined();
+		expect(extractCheckpointFromSessionEntry(entry)).toBeUndefined();
+	});
+
 	it("extracts read metadata from session entries safely", () => {
 		const meta = buildReadCacheMetaV1({
 			pathKey: "/tmp/file.txt",
@@ -172,4 +322,19 @@ describe("meta", () => {
 		expect(extractInvalidationFromSessionEntry(entry)).toEqual(payload);
 		expect(extractInvalidationFromSessionEntry(ignored)).toBeUndefined();
 	});
+
+	it("extracts mode change entries from custom entries", () => {
+		const payload = buildModeChangeV1("off", 1234);
+		const entry: SessionEntry = {
+			type: "custom",
+			id: "5",
+			parentId: "4",
+			timestamp: new Date().toISOString(),
+			customType: "pi-readcache",
+			data: payload,
+		};
+
+		expect(extractModeChangeFromSessionEntry(entry)).toEqual(payload);
+		expect(extractInvalidationFromSessionEntry(entry)).toBeUndefined();
+	});
 });
@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import {
+	parseObjectIndex,
+	snapshotObjectIndexRecords,
+	summarizeStorageByPath,
+	type ObjectIndexRecordV1,
+} from "../../src/object-index.js";
+
+const HASH_A = "a".repeat(64);
+const HASH_B = "b".repeat(64);
+
+function serialize(records: readonly ObjectIndexRecordV1[]): string {
+	return records.map((record) => JSON.stringify(record)).join("\n");
+}
+
+describe("object-index", () => {
+	it("folds put, use, and delete records into live entries", () => {
+		const content = serialize([
+			{ v: 1, op: "put", hash: HASH_A, kind: "keyframe", bytes: 40, logicalBytes: 100, pathKey: "/repo/a.ts", at: 10 },
+			{ v: 1, op: "put", hash: HASH_B, kind: "delta", bytes: 8, logicalBytes: 101, pathKey: "/repo/a.ts", at: 20 },
+			{ v: 1, op: "use", hash: HASH_A, at: 30 },
+			{ v: 1, op: "use", hash: HASH_A, at: 25 },
+			{ v: 1, op: "delete", hash: HASH_B, kind: "delta", at: 40 },
+		]);
+
+		const index = parseObjectIndex(content);
+		expect(index.records).toBe(5);
+		expect([...index.entries.values()]).toEqual([
+			{
+				hash: HASH_A,
+				kind: "keyframe",
+				bytes: 40,
+				logicalBytes: 100,
+				pathKey: "/repo/a.ts",
+				firstSeenAt: 10,
+				lastUsedAt: 30,
+			},
+		]);
+	});
+
+	it("skips torn and invalid lines left by interrupted appends", () => {
+		const valid = { v: 1, op: "put", hash: HASH_A, kind: "plain", bytes: 5, logicalBytes: 5, at: 1 };
+		const content = [
+			JSON.stringify(valid),
+			JSON.stringify({ ...valid, kind: "unknown" }),
+			JSON.stringify({ v: 2, op: "use", hash: HASH_A, at: 2 }),
+			'{"v":1,"op":"use","ha',
+		].join("\n");
+
+		const index = parseObjectIndex(content);
+		expect(index.records).toBe(1);
+		expect(index.entries.get(`${HASH_A}:plain`)).toMatchObject({ firstSeenAt: 1, lastUsedAt: 1 });
+	});
+
+	it("snapshots entries into records that parse back to the same state", () => {
+		const original = parseObjectIndex(
+			serialize([
+				{ v: 1, op: "put", hash: HASH_A, kind: "keyframe", bytes: 40, logicalBytes: 100, at: 10 },
+				{ v: 1, op: "use", hash: HASH_A, at: 30 },
+				{ v: 1, op: "put", hash: HASH_B, kind: "plain", bytes: 9, logicalBytes: 9, pathKey: "/repo/b.ts", at: 20 },
+			]),
+		);
+
+		const snapshot = snapshotObjectIndexRecords(original.entries.values());
+		expect(snapshot).toHaveLength(3);
+		expect(parseObjectIndex(serialize(snapshot)).entries).toEqual(original.entries);
+	});
+
+	it("tracks last use per origin and drops an origin's claim on release until it uses the object again", () => {
+		const records: ObjectIndexRecordV1[] = [
+			{ v: 1, op: "put", hash: HASH_A, kind: "keyframe", bytes: 40, logicalBytes: 100, origins: ["/repo-a"], at: 10 },
+			{ v: 1, op: "use", hash: HASH_A, origin: "/repo-b", at: 30 },
+			{ v: 1, op: "release", hash: HASH_A, origin: "/repo-a", at: 40 },
+		];
+		const released = parseObjectIndex(serialize(records)).entries;
+		expect(released.get(`${HASH_A}:keyframe`)).toMatchObject({
+			origins: ["/repo-b"],
+			lastUsedByOrigin: { "/repo-b": 30 },
+			lastUsedAt: 30,
+		});
+		expect(parseObjectIndex(serialize(snapshotObjectIndexRecords(released.values()))).entries).toEqual(released);
+
+		const stale = parseObjectIndex(
+			serialize([...records.slice(0, 2), { v: 1, op: "release", hash: HASH_A, origin: "/repo-b", at: 20 }]),
+		);
+		expect(stale.entries.get(`${HASH_A}:keyframe`)?.origins).toEqual(["/repo-a", "/repo-b"]);
+
+		const reclaimed = parseObjectIndex(serialize([...records, { v: 1, op: "use", hash: HASH_A, origin: "/repo-a", at: 50 }]));
+		expect(reclaimed.entries.get(`${HASH_A}:keyframe`)).toMatchObject({
+			origins: ["/repo-a", "/repo-b"],
+			lastUsedByOrigin: { "/repo-a": 50, "/repo-b": 30 },
+		});
+	});
+
+	it("ranks origin paths by on-disk bytes", () => {
+		const index = parseObjectIndex(
+			serialize([
+				{ v: 1, op: "put", hash: HASH_A, kind: "keyframe", bytes: 40, logicalBytes: 100, pathKey: "/repo/a.ts", at: 1 },
+				{ v: 1, op: "put", hash: HASH_B, kind: "keyframe", bytes: 70, logicalBytes: 90, pathKey: "/repo/b.ts", at: 1 },
+				{ v: 1, op: "put", hash: "c".repeat(64), kind: "delta", bytes: 35, logicalBytes: 99, pathKey: "/repo/a.ts", at: 1 },
+				{ v: 1, op: "put", hash: "d".repeat(64), kind: "plain", bytes: 5, logicalBytes: 5, at: 1 },
+			]),
+		);
+
+		expect(summarizeStorageByPath(index.entries.values(), 2)).toEqual([
+			{ pathKey: "/repo/a.ts", objects: 2, bytes: 75, logicalBytes: 199 },
+			{ pathKey: "/repo/b.ts", objects: 1, bytes: 70, logicalBytes: 90 },
+		]);
+		expect(summarizeStorageByPath(index.entries.values(), 5).at(-1)).toEqual({
+			pathKey: undefined,
+			objects: 1,
+			bytes: 5,
+			logicalBytes: 5,
+		});
+	});
+});
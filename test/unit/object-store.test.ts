@@ -1,16 +1,44 @@
-import { mkdtemp, stat, utimes } from "node:fs/promises";
+import { chmod, mkdir, mkdtemp, readdir, readFile, stat, unlink, utimes, writeFile } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
-import { describe, expect, it } from "vitest";
+import { gunzipSync, gzipSync } from "node:zlib";
+import { describe, expect, it, vi } from "vitest";
+import { READCACHE_DELTA_MAX_CHAIN } from "../../src/constants.js";
 import {
+	checkObjectStore,
+	collectGarbageObjects,
+	deltaObjectPathForHash,
+	evictObjectsOverQuota,
+	evictObjectsOverQuotaIfDue,
+	getStorageByPath,
 	getStoreStats,
 	hashText,
+	hasObject,
 	loadObject,
 	objectPathForHash,
 	persistObjectIfAbsent,
+	plainObjectPathForHash,
 	pruneObjectsOlderThan,
+	readObject,
 } from "../../src/object-store.js";
 
+async function atTime<T>(ms: number, action: () => Promise<T>): Promise<T> {
+	vi.useFakeTimers({ toFake: ["Date"] });
+	vi.setSystemTime(ms);
+	try {
+		return await action();
+	} finally {
+		vi.useRealTimers();
+	}
+}
+
+async function createStoreRoot(): Promise<string> {
+	const repoRoot = await mkdtemp(join(tmpdir(), "pi-readcache-store-"));
+	// Create the index up front so aged writes are not folded into a rebuild from file mtimes.
+	await getStoreStats(repoRoot);
+	return repoRoot;
+}
+
 describe("object-store", () => {
 	it("persists and loads content by hash", async () => {
 		const repoRoot = await mkdtemp(join(tmpdir(), "pi-readcache-store-"));
@@ -53,22 +81,50 @@ describe("object-store", () => {
 		const stats = await getStoreStats(repoRoot);
 		expect(stats.objects).toBe(2);
 		expect(stats.bytes).toBeGreaterThan(0);
+		expect(stats.logicalBytes).toBe(one.length + two.length);
 	});
 
-	it("prunes object files older than max age", async () => {
+	it("stores objects gzip-compressed and reports logical vs on-disk size", async () => {
 		const repoRoot = await mkdtemp(join(tmpdir(), "pi-readcache-store-"));
+		const text = Array.from({ length: 500 }, (_, index) => `export const value${index} = ${index};`).join("\n");
+		const hash = hashText(text);
+
+		const persisted = await persistObjectIfAbsent(repoRoot, hash, text);
+		expect(persisted.path.endsWith(`sha256-${hash}.txt.gz`)).toBe(true);
+		expect(gunzipSync(await readFile(persisted.path)).toString("utf-8")).toBe(text);
+
+		const stats = await getStoreStats(repoRoot);
+		expect(stats.logicalBytes).toBe(Buffer.byteLength(text, "utf-8"));
+		expect(stats.bytes).toBeLessThan(stats.logicalBytes / 2);
+	});
+
+	it("reads legacy uncompressed objects and does not rewrite them", async () => {
+		const repoRoot = await mkdtemp(join(tmpdir(), "pi-readcache-store-"));
+		const text = "legacy plain object";
+		const hash = hashText(text);
+		const legacyPath = plainObjectPathForHash(repoRoot, hash);
+		await mkdir(join(repoRoot, ".pi/readcache/objects"), { recursive: true });
+		await writeFile(legacyPath, text, "utf-8");
+
+		expect(await loadObject(repoRoot, hash)).toBe(text);
+		const persisted = await persistObjectIfAbsent(repoRoot, hash, text);
+		expect(persisted).toEqual({ hash, path: legacyPath, written: false });
+
+		const stats = await getStoreStats(repoRoot);
+		expect(stats).toEqual({ objects: 1, bytes: text.length, logicalBytes: text.length });
+	});
+
+	it("prunes object files older than max age", async () => {
+		const repoRoot = await createStoreRoot();
 		const freshText = "fresh";
 		const staleText = "stale";
 		const freshHash = hashText(freshText);
 		const staleHash = hashText(staleText);
 
+		const nowMs = Date.now();
 		await persistObjectIfAbsent(repoRoot, freshHash, freshText);
-		await persistObjectIfAbsent(repoRoot, staleHash, staleText);
-
+		await atTime(nowMs - 25 * 60 * 60 * 1000, () => persistObjectIfAbsent(repoRoot, staleHash, staleText));
 		const stalePath = objectPathForHash(repoRoot, staleHash);
-		const nowMs = Date.now();
-		const staleMs = nowMs - 25 * 60 * 60 * 1000;
-		await utimes(stalePath, staleMs / 1000, staleMs / 1000);
 
 		const result = await pruneObjectsOlderThan(repoRoot, 24 * 60 * 60 * 1000, nowMs);
 		expect(result.scanned).toBe(2);
@@ -77,4 +133,407 @@ describe("object-store", () => {
 		expect(await loadObject(repoRoot, freshHash)).toBe(freshText);
 		await expect(stat(stalePath)).rejects.toMatchObject({ code: "ENOENT" });
 	});
+
+	it("stores later versions as deltas against their base and rebuilds them on load", async () => {
+		const repoRoot = await mkdtemp(join(tmpdir(), "pi-readcache-store-"));
+		const versions = Array.from({ length: READCACHE_DELTA_MAX_CHAIN + 2 }, (_, version) =>
+			Array.from({ length: 200 }, (_, index) => (index === version ? `changed ${version}` : `line ${index}`)).join("\n"),
+		);
+
+		const paths: string[] = [];
+		let previousHash: string | undefined;
+		for (const text of versions) {
+			const hash = hashText(text);
+			const persisted = await persistObjectIfAbsent(repoRoot, hash, text, previousHash ? { deltaBaseHash: previousHash } : {});
+			paths.push(persisted.path);
+			previousHash = hash;
+		}
+
+		expect(paths[0]).toBe(objectPathForHash(repoRoot, hashText(versions[0] ?? "")));
+		expect(paths[1]).toBe(deltaObjectPathForHash(repoRoot, hashText(versions[1] ?? "")));
+		expect(paths[READCACHE_DELTA_MAX_CHAIN]).toBe(deltaObjectPathForHash(repoRoot, hashText(versions[READCACHE_DELTA_MAX_CHAIN] ?? "")));
+		const keyframeIndex = READCACHE_DELTA_MAX_CHAIN + 1;
+		expect(paths[keyframeIndex]).toBe(objectPathForHash(repoRoot, hashText(versions[keyframeIndex] ?? "")));
+
+		for (const text of versions) {
+			expect(await loadObject(repoRoot, hashText(text))).toBe(text);
+		}
+
+		const stats = await getStoreStats(repoRoot);
+		expect(stats.logicalBytes).toBe(versions.reduce((total, text) => total + Buffer.byteLength(text, "utf-8"), 0));
+		expect(stats.bytes).toBeLessThan(stats.logicalBytes / 5);
+	});
+
+	it("stores a keyframe when the delta base is missing", async () => {
+		const repoRoot = await mkdtemp(join(tmpdir(), "pi-readcache-store-"));
+		const text = "no base available";
+		const hash = hashText(text);
+
+		const persisted = await persistObjectIfAbsent(repoRoot, hash, text, { deltaBaseHash: hashText("missing") });
+		expect(persisted.path).toBe(objectPathForHash(repoRoot, hash));
+		expect(await loadObject(repoRoot, hash)).toBe(text);
+	});
+
+	it("keeps stale delta bases that surviving objects depend on", async () => {
+		const repoRoot = await createStoreRoot();
+		const base = Array.from({ length: 100 }, (_, index) => `line ${index}`).join("\n");
+		const middle = base.replace("line 10", "line ten");
+		const head = middle.replace("line 20", "line twenty");
+		const unrelated = "unrelated stale object";
+
+		const nowMs = Date.now();
+		await atTime(nowMs - 25 * 60 * 60 * 1000, async () => {
+			await persistObjectIfAbsent(repoRoot, hashText(base), base);
+			await persistObjectIfAbsent(repoRoot, hashText(middle), middle, { deltaBaseHash: hashText(base) });
+			await persistObjectIfAbsent(repoRoot, hashText(unrelated), unrelated);
+		});
+		await persistObjectIfAbsent(repoRoot, hashText(head), head, { deltaBaseHash: hashText(middle) });
+
+		const result = await pruneObjectsOlderThan(repoRoot, 24 * 60 * 60 * 1000, nowMs);
+		expect(result).toMatchObject({ scanned: 4, deleted: 1 });
+		expect(await loadObject(repoRoot, hashText(unrelated))).toBeUndefined();
+		expect(await loadObject(repoRoot, hashText(head))).toBe(head);
+
+		const second = await pruneObjectsOlderThan(repoRoot, 24 * 60 * 60 * 1000, Date.now() + 25 * 60 * 60 * 1000);
+		expect(second.deleted).toBe(3);
+	});
+
+	it("evicts least recently used objects until the store fits its quota", async () => {
+		const repoRoot = await createStoreRoot();
+		const texts = ["first object", "second object", "third object"];
+		const nowMs = Date.now();
+		for (const [index, text] of texts.entries()) {
+			await atTime(nowMs - (10 - index) * 60_000, () => persistObjectIfAbsent(repoRoot, hashText(text), text));
+		}
+
+		expect(await loadObject(repoRoot, hashText("first object"))).toBe("first object");
+
+		const before = await getStoreStats(repoRoot);
+		const result = await evictObjectsOverQuota(repoRoot, before.bytes - 1);
+		expect(result).toMatchObject({ scanned: 3, deleted: 1, bytesBefore: before.bytes, quotaBytes: before.bytes - 1 });
+		expect(result.bytesAfter).toBeLessThanOrEqual(before.bytes - 1);
+		expect(await loadObject(repoRoot, hashText("second object"))).toBeUndefined();
+		expect(await loadObject(repoRoot, hashText("first object"))).toBe("first object");
+		expect(await loadObject(repoRoot, hashText("third object"))).toBe("third object");
+
+		expect((await evictObjectsOverQuota(repoRoot, 0)).deleted).toBe(0);
+	});
+
+	it("keeps an object that is persisted again on unchanged re-reads ahead of idle objects", async () => {
+		const repoRoot = await createStoreRoot();
+		const reread = "object re-read as unchanged";
+		const idle = "object nobody reads again";
+		const nowMs = Date.now();
+		await atTime(nowMs - 30 * 60_000, () => persistObjectIfAbsent(repoRoot, hashText(reread), reread));
+		await atTime(nowMs - 20 * 60_000, () => persistObjectIfAbsent(repoRoot, hashText(idle), idle));
+		for (const minutesAgo of [10, 5, 1]) {
+			const again = await atTime(nowMs - minutesAgo * 60_000, () =>
+				persistObjectIfAbsent(repoRoot, hashText(reread), reread),
+			);
+			expect(again.written).toBe(false);
+		}
+
+		const before = await getStoreStats(repoRoot);
+		expect((await evictObjectsOverQuota(repoRoot, before.bytes - 1)).deleted).toBe(1);
+		expect(await loadObject(repoRoot, hashText(reread))).toBe(reread);
+		expect(await loadObject(repoRoot, hashText(idle))).toBeUndefined();
+	});
+
+	it("never evicts a delta base before the deltas that depend on it", async () => {
+		const repoRoot = await createStoreRoot();
+		const base = Array.from({ length: 100 }, (_, index) => `line ${index}`).join("\n");
+		const head = base.replace("line 10", "line ten");
+		await atTime(Date.now() - 60 * 60_000, () => persistObjectIfAbsent(repoRoot, hashText(base), base));
+		await persistObjectIfAbsent(repoRoot, hashText(head), head, { deltaBaseHash: hashText(base) });
+
+		const headBytes = (await stat(deltaObjectPathForHash(repoRoot, hashText(head)))).size;
+		const before = await getStoreStats(repoRoot);
+		const result = await evictObjectsOverQuota(repoRoot, before.bytes - headBytes);
+		expect(result.deleted).toBe(1);
+		expect(await loadObject(repoRoot, hashText(head))).toBeUndefined();
+		expect(await loadObject(repoRoot, hashText(base))).toBe(base);
+	});
+
+	it("evicts opportunistically after writes at most once per interval", async () => {
+		const repoRoot = await createStoreRoot();
+		const stale = "stale object for opportunistic eviction";
+		const stalePath = (
+			await atTime(Date.now() - 60 * 60_000, () => persistObjectIfAbsent(repoRoot, hashText(stale), stale))
+		).path;
+
+		const fresh = "fresh object written with a quota";
+		await persistObjectIfAbsent(repoRoot, hashText(fresh), fresh, { quotaBytes: 1 + (await stat(stalePath)).size });
+		await vi.waitFor(async () => {
+			await expect(stat(stalePath)).rejects.toMatchObject({ code: "ENOENT" });
+		});
+		expect(await loadObject(repoRoot, hashText(fresh))).toBe(fresh);
+
+		expect(await evictObjectsOverQuotaIfDue(repoRoot, 1)).toBeUndefined();
+	});
+
+	it("collects unreferenced objects while keeping referenced delta chains and recent writes", async () => {
+		const repoRoot = await mkdtemp(join(tmpdir(), "pi-readcache-store-"));
+		const base = Array.from({ length: 100 }, (_, index) => `line ${index}`).join("\n");
+		const head = base.replace("line 10", "line ten");
+		const orphan = "orphaned object";
+		const recent = "recently written object";
+		await persistObjectIfAbsent(repoRoot, hashText(base), base);
+		await persistObjectIfAbsent(repoRoot, hashText(head), head, { deltaBaseHash: hashText(base) });
+		await persistObjectIfAbsent(repoRoot, hashText(orphan), orphan);
+
+		const nowMs = Date.now();
+		const oldSeconds = (nowMs - 60 * 60_000) / 1000;
+		for (const path of [
+			objectPathForHash(repoRoot, hashText(base)),
+			deltaObjectPathForHash(repoRoot, hashText(head)),
+			objectPathForHash(repoRoot, hashText(orphan)),
+		]) {
+			await utimes(path, oldSeconds, oldSeconds);
+		}
+		await persistObjectIfAbsent(repoRoot, hashText(recent), recent);
+
+		const referenced = new Set([hashText(head), hashText("not stored")]);
+		const dryRun = await collectGarbageObjects(repoRoot, referenced, { dryRun: true, nowMs });
+		expect(dryRun).toMatchObject({ scanned: 4, referenced: 1, retainedBases: 1, retainedRecent: 1, deleted: 1, dryRun: true });
+		expect(await loadObject(repoRoot, hashText(orphan))).toBe(orphan);
+
+		await utimes(objectPathForHash(repoRoot, hashText(orphan)), oldSeconds, oldSeconds);
+		const applied = await collectGarbageObjects(repoRoot, referenced, { nowMs });
+		expect(applied).toMatchObject({ deleted: 1, dryRun: false });
+		expect(await loadObject(repoRoot, hashText(orphan))).toBeUndefined();
+		expect(await loadObject(repoRoot, hashText(head))).toBe(head);
+		expect(await loadObject(repoRoot, hashText(recent))).toBe(recent);
+	});
+
+	it("verifies object hashes on load and reports corruption separately from missing objects", async () => {
+		const repoRoot = await mkdtemp(join(tmpdir(), "pi-readcache-store-"));
+		const text = "original object";
+		const hash = hashText(text);
+		await persistObjectIfAbsent(repoRoot, hash, text);
+		expect(await readObject(repoRoot, hash)).toEqual({ status: "found", text });
+
+		await writeFile(objectPathForHash(repoRoot, hash), gzipSync(Buffer.from("tampered object", "utf-8")));
+		expect(await readObject(repoRoot, hash)).toEqual({ status: "corrupt" });
+		expect(await loadObject(repoRoot, hash)).toBeUndefined();
+
+		await writeFile(objectPathForHash(repoRoot, hash), "not gzip at all", "utf-8");
+		expect(await readObject(repoRoot, hash)).toEqual({ status: "corrupt" });
+		expect(await readObject(repoRoot, hashText("never stored"))).toEqual({ status: "missing" });
+	});
+
+	it("fsck quarantines corrupt objects and dependents, removes stale temp files, and fixes permissions", async () => {
+		const repoRoot = await mkdtemp(join(tmpdir(), "pi-readcache-store-"));
+		const base = Array.from({ length: 100 }, (_, index) => `line ${index}`).join("\n");
+		const head = base.replace("line 10", "line ten");
+		const healthy = "healthy object";
+		await persistObjectIfAbsent(repoRoot, hashText(base), base);
+		await persistObjectIfAbsent(repoRoot, hashText(head), head, { deltaBaseHash: hashText(base) });
+		await persistObjectIfAbsent(repoRoot, hashText(healthy), healthy);
+		await writeFile(objectPathForHash(repoRoot, hashText(base)), gzipSync(Buffer.from("corrupted base", "utf-8")));
+		await chmod(objectPathForHash(repoRoot, hashText(healthy)), 0o644);
+		await chmod(join(repoRoot, ".pi/readcache/objects"), 0o755);
+
+		const tmpDir = join(repoRoot, ".pi/readcache/tmp");
+		const nowMs = Date.now();
+		await writeFile(join(tmpDir, "stale.tmp"), "partial", "utf-8");
+		await utimes(join(tmpDir, "stale.tmp"), (nowMs - 60 * 60_000) / 1000, (nowMs - 60 * 60_000) / 1000);
+		await writeFile(join(tmpDir, "inflight.tmp"), "partial", "utf-8");
+
+		const result = await checkObjectStore(repoRoot, { nowMs });
+		expect(result).toEqual({
+			checked: 3,
+			corrupt: 2,
+			dangling: 0,
+			quarantined: 2,
+			tempFilesRemoved: 1,
+			permissionsFixed: 2,
+			indexed: 1,
+		});
+		expect((await readdir(join(repoRoot, ".pi/readcache/quarantine"))).sort()).toEqual(
+			[`sha256-${hashText(base)}.txt.gz`, `sha256-${hashText(head)}.delta.gz`].sort(),
+		);
+		expect(await readdir(tmpDir)).toEqual(["inflight.tmp"]);
+		expect((await stat(objectPathForHash(repoRoot, hashText(healthy)))).mode & 0o777).toBe(0o600);
+		expect((await stat(join(repoRoot, ".pi/readcache/objects"))).mode & 0o777).toBe(0o700);
+		expect(await loadObject(repoRoot, hashText(healthy))).toBe(healthy);
+
+		expect(await checkObjectStore(repoRoot, { nowMs })).toMatchObject({ checked: 1, quarantined: 0, permissionsFixed: 0 });
+	});
+
+	it("prunes and evicts object files whose index records were lost", async () => {
+		const repoRoot = await createStoreRoot();
+		const nowMs = Date.now();
+		const oldSeconds = (nowMs - 60 * 60_000) / 1000;
+		const aged = "aged object missing from the index";
+		const bulky = "large object missing from the index ".repeat(50);
+		const fresh = "fresh indexed object";
+		for (const text of [aged, bulky, fresh]) {
+			await persistObjectIfAbsent(repoRoot, hashText(text), text);
+		}
+		await utimes(objectPathForHash(repoRoot, hashText(aged)), oldSeconds, oldSeconds);
+
+		const indexPath = join(repoRoot, ".pi/readcache/index.jsonl");
+		const lost = [hashText(aged), hashText(bulky)];
+		const withoutLost = (await readFile(indexPath, "utf-8"))
+			.split("\n")
+			.filter((line) => !lost.some((hash) => line.includes(hash)))
+			.join("\n");
+		await writeFile(indexPath, withoutLost, "utf-8");
+
+		expect(await pruneObjectsOlderThan(repoRoot, 30 * 60_000, nowMs)).toMatchObject({ scanned: 3, deleted: 1 });
+		expect(await loadObject(repoRoot, hashText(aged))).toBeUndefined();
+
+		const freshBytes = (await stat(objectPathForHash(repoRoot, hashText(fresh)))).size;
+		await writeFile(indexPath, withoutLost, "utf-8");
+		expect(await evictObjectsOverQuota(repoRoot, freshBytes)).toMatchObject({ deleted: 1, bytesAfter: freshBytes });
+		expect(await loadObject(repoRoot, hashText(bulky))).toBeUndefined();
+		expect(await loadObject(repoRoot, hashText(fresh))).toBe(fresh);
+	});
+
+	it("records object origin and use in an append-only index that stats and fsck rebuild from", async () => {
+		const repoRoot = await createStoreRoot();
+		const large = Array.from({ length: 200 }, (_, index) => `export const large${index} = ${index * 7919};`).join("\n");
+		await persistObjectIfAbsent(repoRoot, hashText(large), large, { pathKey: "/repo/large.ts" });
+		await persistObjectIfAbsent(repoRoot, hashText("small"), "small", { pathKey: "/repo/small.ts" });
+		await persistObjectIfAbsent(repoRoot, hashText("small v2"), "small v2", { pathKey: "/repo/small.ts" });
+		expect(await loadObject(repoRoot, hashText("small"))).toBe("small");
+
+		const indexPath = join(repoRoot, ".pi/readcache/index.jsonl");
+		const records = (await readFile(indexPath, "utf-8"))
+			.trim()
+			.split("\n")
+			.map((line) => JSON.parse(line) as { op: string; hash: string; pathKey?: string });
+		expect(records.filter((record) => record.op === "put").map((record) => record.pathKey)).toEqual([
+			"/repo/large.ts",
+			"/repo/small.ts",
+			"/repo/small.ts",
+		]);
+		expect(records.at(-1)).toMatchObject({ op: "use", hash: hashText("small") });
+
+		const usage = await getStorageByPath(repoRoot, 5);
+		expect(usage.map((entry) => [entry.pathKey, entry.objects])).toEqual([
+			["/repo/large.ts", 1],
+			["/repo/small.ts", 2],
+		]);
+
+		// Stats come from the index, so a file removed behind the store's back counts until fsck rebuilds it.
+		await unlink(objectPathForHash(repoRoot, hashText("small")));
+		expect((await getStoreStats(repoRoot)).objects).toBe(3);
+		expect(await checkObjectStore(repoRoot)).toMatchObject({ checked: 2, indexed: 2 });
+		expect((await getStoreStats(repoRoot)).objects).toBe(2);
+		expect((await getStorageByPath(repoRoot, 5)).map((entry) => [entry.pathKey, entry.objects])).toEqual([
+			["/repo/large.ts", 1],
+			["/repo/small.ts", 1],
+		]);
+
+		await unlink(indexPath);
+		expect((await getStoreStats(repoRoot)).objects).toBe(2);
+		expect((await getStorageByPath(repoRoot, 5)).map((entry) => entry.pathKey)).toEqual([undefined]);
+	});
+
+	it("collects only objects a shared store received from the collecting repo", async () => {
+		const storeRoot = await createStoreRoot();
+		const repoA = "/work/repo-a";
+		const repoB = "/work/repo-b";
+		const oldMs = Date.now() - 60 * 60_000;
+		await atTime(oldMs, async () => {
+			await persistObjectIfAbsent(storeRoot, hashText("only a"), "only a", { origin: repoA });
+			await persistObjectIfAbsent(storeRoot, hashText("only b"), "only b", { origin: repoB });
+			await persistObjectIfAbsent(storeRoot, hashText("both"), "both", { origin: repoA });
+			await readObject(storeRoot, hashText("both"), { origin: repoB });
+		});
+		const oldSeconds = oldMs / 1000;
+		for (const text of ["only a", "only b", "both"]) {
+			await utimes(objectPathForHash(storeRoot, hashText(text)), oldSeconds, oldSeconds);
+		}
+
+		const result = await collectGarbageObjects(storeRoot, new Set(), { origin: repoA });
+		expect(result).toMatchObject({ scanned: 3, retainedShared: 2, released: 1, deleted: 1 });
+		expect(await hasObject(storeRoot, hashText("only a"))).toBe(false);
+		expect(await hasObject(storeRoot, hashText("only b"))).toBe(true);
+		expect(await hasObject(storeRoot, hashText("both"))).toBe(true);
+
+		// Repo A dropped its claim, so the object is repo B's alone once B stops referencing it too.
+		expect(await collectGarbageObjects(storeRoot, new Set([hashText("only b")]), { origin: repoB })).toMatchObject({
+			retainedShared: 0,
+			deleted: 1,
+		});
+		expect(await hasObject(storeRoot, hashText("both"))).toBe(false);
+		expect(await loadObject(storeRoot, hashText("only b"))).toBe("only b");
+	});
+
+	it("leaves the shared index untouched on a dry-run collection", async () => {
+		const storeRoot = await createStoreRoot();
+		const repoA = "/work/repo-a";
+		await persistObjectIfAbsent(storeRoot, hashText("indexed"), "indexed", { origin: repoA });
+		await persistObjectIfAbsent(storeRoot, hashText("unindexed"), "unindexed", { origin: repoA });
+		const indexPath = join(storeRoot, ".pi/readcache/index.jsonl");
+		const [firstRecord] = (await readFile(indexPath, "utf-8")).split("\n");
+		await writeFile(indexPath, `${firstRecord}\n`, "utf-8");
+
+		expect(await collectGarbageObjects(storeRoot, new Set(), { origin: repoA, dryRun: true })).toMatchObject({
+			scanned: 2,
+			dryRun: true,
+		});
+		expect(await readFile(indexPath, "utf-8")).toBe(`${firstRecord}\n`);
+	});
+
+	it("prunes and evicts only objects the maintaining repo owns in a shared store", async () => {
+		const storeRoot = await createStoreRoot();
+		const repoA = "/work/repo-a";
+		const repoB = "/work/repo-b";
+		const large = "object only repo b uses ".repeat(40);
+		await atTime(Date.now() - 60 * 60_000, async () => {
+			await persistObjectIfAbsent(storeRoot, hashText("only a"), "only a", { origin: repoA });
+			await persistObjectIfAbsent(storeRoot, hashText("only b"), "only b", { origin: repoB });
+			await persistObjectIfAbsent(storeRoot, hashText("both"), "both", { origin: repoA });
+			await readObject(storeRoot, hashText("both"), { origin: repoB });
+		});
+		await persistObjectIfAbsent(storeRoot, hashText(large), large, { origin: repoB });
+
+		// Repo B's quota counts and evicts only B's own objects, never one it shares with repo A.
+		const onlyBBytes = (await stat(objectPathForHash(storeRoot, hashText("only b")))).size;
+		const largeBytes = (await stat(objectPathForHash(storeRoot, hashText(large)))).size;
+		expect(await evictObjectsOverQuota(storeRoot, largeBytes, { origin: repoB })).toMatchObject({
+			deleted: 1,
+			bytesBefore: onlyBBytes + largeBytes,
+			bytesAfter: largeBytes,
+		});
+		expect(await hasObject(storeRoot, hashText("only b"))).toBe(false);
+
+		// Repo A ages out everything immediately, repo B keeps a day: A only drops its claim on the shared object.
+		expect(await pruneObjectsOlderThan(storeRoot, 0, Date.now() + 1000, { origin: repoA })).toMatchObject({
+			scanned: 3,
+			deleted: 1,
+			released: 1,
+		});
+		expect(await pruneObjectsOlderThan(storeRoot, 24 * 60 * 60_000, Date.now(), { origin: repoB })).toMatchObject({
+			deleted: 0,
+			released: 0,
+		});
+		expect(await hasObject(storeRoot, hashText("only a"))).toBe(false);
+		expect(await hasObject(storeRoot, hashText("both"))).toBe(true);
+		expect(await hasObject(storeRoot, hashText(large))).toBe(true);
+
+		// Once repo B ages it out as well, the object both repos read is deleted.
+		expect(await pruneObjectsOlderThan(storeRoot, 0, Date.now() + 1000, { origin: repoB })).toMatchObject({
+			deleted: 2,
+			released: 0,
+		});
+		expect(await hasObject(storeRoot, hashText("both"))).toBe(false);
+	});
+
+	it("refuses to prune while another live process holds the store lock", async () => {
+		const repoRoot = await createStoreRoot();
+		await persistObjectIfAbsent(repoRoot, hashText("locked"), "locked");
+		const lockPath = join(repoRoot, ".pi/readcache/store.lock");
+		await writeFile(lockPath, JSON.stringify({ pid: process.pid, acquiredAt: Date.now() }), "utf-8");
+
+		await expect(pruneObjectsOlderThan(repoRoot, 0, Date.now() + 1000)).rejects.toThrow(/locked by pid/);
+		expect(await loadObject(repoRoot, hashText("locked"))).toBe("locked");
+
+		await unlink(lockPath);
+		expect((await pruneObjectsOlderThan(repoRoot, 0, Date.now() + 1000)).deleted).toBe(1);
+		await expect(stat(lockPath)).rejects.toMatchObject({ code: "ENOENT" });
+	});
 });
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { resolvePathPolicy } from "../../src/policy.js";
+import type { PathPolicyRule } from "../../src/types.js";
+
+describe("policy", () => {
+	it("returns undefined when no rule matches", () => {
+		expect(resolvePathPolicy("/repo/src/a.ts", "/repo", [])).toBeUndefined();
+		expect(resolvePathPolicy("/repo/src/a.ts", "/repo", [{ pattern: "*.lock", policy: "always_full" }])).toBeUndefined();
+	});
+
+	it("lets the last matching rule win", () => {
+		const rules: PathPolicyRule[] = [
+			{ pattern: "*.lock", policy: "always_full" },
+			{ pattern: "schemas/**", policy: "no_diff" },
+			{ pattern: "schemas/legacy/*.json", policy: "unchanged_only" },
+			{ pattern: "yarn.lock", policy: "default" },
+		];
+
+		expect(resolvePathPolicy("/repo/Cargo.lock", "/repo", rules)).toEqual(rules[0]);
+		expect(resolvePathPolicy("/repo/schemas/v2/api.json", "/repo", rules)).toEqual(rules[1]);
+		expect(resolvePathPolicy("/repo/schemas/legacy/api.json", "/repo", rules)).toEqual(rules[2]);
+		expect(resolvePathPolicy("/repo/yarn.lock", "/repo", rules)).toEqual(rules[3]);
+	});
+
+	it("treats a negated final match as no rule", () => {
+		const rules: PathPolicyRule[] = [
+			{ pattern: "generated/**", policy: "always_full" },
+			{ pattern: "!generated/small.ts", policy: "always_full" },
+		];
+		expect(resolvePathPolicy("/repo/generated/big.ts", "/repo", rules)?.policy).toBe("always_full");
+		expect(resolvePathPolicy("/repo/generated/small.ts", "/repo", rules)).toBeUndefined();
+	});
+});
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { SCOPE_FULL } from "../../src/constants.js";
+import {
+	buildRangeIndex,
+	findComposedFullTrust,
+	findContainingRangeTrust,
+	parseRangeScope,
+	selectLatestTrust,
+} from "../../src/range-index.js";
+import type { ScopeKey, ScopeTrust } from "../../src/types.js";
+
+function scopes(entries: Array<[ScopeKey, string, number]>): Map<ScopeKey, ScopeTrust> {
+	return new Map(entries.map(([scopeKey, hash, seq]) => [scopeKey, { hash, seq }]));
+}
+
+describe("range-index", () => {
+	it("parses range scopes and orders intervals by start", () => {
+		expect(parseRangeScope("r:12:40")).toEqual({ start: 12, end: 40 });
+		const index = buildRangeIndex(
+			scopes([
+				["r:50:60", "a", 1],
+				[SCOPE_FULL, "a", 2],
+				["r:1:10", "a", 3],
+				["r:1:20", "a", 4],
+			]),
+		);
+		expect(index.map((interval) => interval.scopeKey)).toEqual(["r:1:20", "r:1:10", "r:50:60"]);
+	});
+
+	it("finds the newest containing range, optionally for a specific hash", () => {
+		const index = buildRangeIndex(
+			scopes([
+				["r:1:400", "a", 1],
+				["r:40:200", "b", 2],
+				["r:60:70", "c", 3],
+			]),
+		);
+		expect(findContainingRangeTrust(index, 50, 120)).toEqual({ hash: "b", seq: 2 });
+		expect(findContainingRangeTrust(index, 50, 120, "a")).toEqual({ hash: "a", seq: 1 });
+		expect(findContainingRangeTrust(index, 30, 120, "b")).toBeUndefined();
+		expect(findContainingRangeTrust(index, 300, 500)).toBeUndefined();
+	});
+
+	it("composes full coverage from adjacent or overlapping ranges of one hash", () => {
+		const index = buildRangeIndex(
+			scopes([
+				["r:1:100", "a", 1],
+				["r:90:150", "a", 4],
+				["r:151:200", "a", 2],
+				["r:101:200", "b", 3],
+			]),
+		);
+		expect(findComposedFullTrust(index, "a", 200)).toEqual({ hash: "a", seq: 4 });
+		expect(findComposedFullTrust(index, "a", 201)).toBeUndefined();
+		expect(findComposedFullTrust(index, "b", 200)).toBeUndefined();
+
+		const gapped = buildRangeIndex(
+			scopes([
+				["r:1:100", "a", 1],
+				["r:102:200", "a", 2],
+			]),
+		);
+		expect(findComposedFullTrust(gapped, "a", 200)).toBeUndefined();
+	});
+
+	it("selects the latest defined trust", () => {
+		expect(selectLatestTrust(undefined, { hash: "a", seq: 2 }, { hash: "b", seq: 5 })).toEqual({ hash: "b", seq: 5 });
+		expect(selectLatestTrust(undefined, undefined)).toBeUndefined();
+	});
+});
@@ -1,18 +1,32 @@
 import type { ExtensionContext, SessionEntry } from "@mariozechner/pi-coding-agent";
 import { describe, expect, it } from "vitest";
 import { SCOPE_FULL } from "../../src/constants.js";
-import { buildInvalidationV1, buildReadCacheMetaV1 } from "../../src/meta.js";
+import {
+	buildCheckpointV1,
+	buildCompactionManifestV1,
+	buildDerivedTrustV1,
+	buildInvalidationV1,
+	buildModeChangeV1,
+	buildReadCacheMetaV1,
+} from "../../src/meta.js";
 import {
 	applyInvalidation,
 	applyReadMetaTransition,
 	buildKnowledgeForLeaf,
+	buildReplayCheckpointForLeaf,
+	clearReplayRuntimeState,
 	createReplayRuntimeState,
 	findReplayStartIndex,
+	getReadcacheModeForLeaf,
+	getReplayMemoStats,
 	isRangeScopeBlockedByInvalidation,
 	overlaySet,
+	replayKeptRegionKnowledge,
 	replayKnowledgeFromBranch,
+	setReplayCompactionBarrier,
+	setReplayMemoMaxEntries,
 } from "../../src/replay.js";
-import type { KnowledgeMap, ReadCacheMetaV1, ScopeKey } from "../../src/types.js";
+import type { KnowledgeMap, ReadCacheMetaV1, ReadCacheRuntimeMode, ScopeKey } from "../../src/types.js";
 
 type SessionManagerView = ExtensionContext["sessionManager"];
 
@@ -63,6 +77,17 @@ function createInvalidationEntry(id: string, parentId: string | null, pathKey: s
 	};
 }
 
+function createModeEntry(id: string, parentId: string | null, mode: ReadCacheRuntimeMode): SessionEntry {
+	return {
+		type: "custom",
+		id,
+		parentId,
+		timestamp: new Date().toISOString(),
+		customType: "pi-readcache",
+		data: buildModeChangeV1(mode, Date.now()),
+	};
+}
+
 function createCompactionEntry(id: string, parentId: string | null, firstKeptEntryId: string): SessionEntry {
 	return {
 		type: "compaction",
@@ -75,6 +100,17 @@ function createCompactionEntry(id: string, parentId: string | null, firstKeptEnt
 	};
 }
 
+function createCheckpointEntry(id: string, parentId: string | null, data: unknown): SessionEntry {
+	return {
+		type: "custom",
+		id,
+		parentId,
+		timestamp: new Date().toISOString(),
+		customType: "pi-readcache",
+		data,
+	};
+}
+
 function createSessionManagerStub(state: {
 	sessionId: string;
 	leafId: string | null;
@@ -259,6 +295,134 @@ describe("replay", () => {
 		expect(knowledge.get(path)?.get(scope)).toEqual({ hash: "b".repeat(64), seq: 2 });
 	});
 
+	it("applies_diff_range_only_with_matching_anchor", () => {
+		const path = "/tmp/file.txt";
+		const scope = "r:2:4" as const;
+		const knowledge: KnowledgeMap = new Map();
+		const diffRangeMeta = createMeta({
+			pathKey: path,
+			scopeKey: scope,
+			servedHash: "b".repeat(64),
+			baseHash: "a".repeat(64),
+			mode: "diff_range",
+			rangeStart: 2,
+			rangeEnd: 4,
+		});
+
+		applyReadMetaTransition(knowledge, diffRangeMeta, 1);
+		expect(knowledge.get(path)).toBeUndefined();
+
+		applyReadMetaTransition(
+			knowledge,
+			createMeta({ pathKey: path, scopeKey: scope, servedHash: "a".repeat(64), mode: "full", rangeStart: 2, rangeEnd: 4 }),
+			2,
+		);
+		applyReadMetaTransition(knowledge, diffRangeMeta, 3);
+		expect(knowledge.get(path)?.get(scope)).toEqual({ hash: "b".repeat(64), seq: 3 });
+	});
+
+	it("applies_moved_range_to_new_scope_with_matching_source_anchor", () => {
+		const path = "/tmp/file.txt";
+		const sourceScope = "r:2:4" as const;
+		const movedScope = "r:5:7" as const;
+		const knowledge: KnowledgeMap = new Map();
+		const movedMeta = buildReadCacheMetaV1({
+			pathKey: path,
+			scopeKey: movedScope,
+			servedHash: "b".repeat(64),
+			baseHash: "a".repeat(64),
+			movedFromScopeKey: sourceScope,
+			mode: "moved_range",
+			totalLines: 10,
+			rangeStart: 5,
+			rangeEnd: 7,
+			bytes: 100,
+		});
+
+		applyReadMetaTransition(knowledge, movedMeta, 1);
+		expect(knowledge.get(path)).toBeUndefined();
+
+		applyReadMetaTransition(
+			knowledge,
+			createMeta({ pathKey: path, scopeKey: sourceScope, servedHash: "a".repeat(64), mode: "full", rangeStart: 2, rangeEnd: 4 }),
+			2,
+		);
+		applyReadMetaTransition(knowledge, movedMeta, 3);
+		expect(knowledge.get(path)?.get(movedScope)).toEqual({ hash: "b".repeat(64), seq: 3 });
+		expect(knowledge.get(path)?.get(sourceScope)).toEqual({ hash: "a".repeat(64), seq: 2 });
+	});
+
+	it("applies_range_transitions_anchored_by_a_containing_range", () => {
+		const path = "/tmp/file.txt";
+		const knowledge: KnowledgeMap = new Map();
+
+		applyReadMetaTransition(
+			knowledge,
+			createMeta({ pathKey: path, scopeKey: "r:1:400", servedHash: "a".repeat(64), mode: "full", totalLines: 500, rangeStart: 1, rangeEnd: 400 }),
+			1,
+		);
+		applyReadMetaTransition(
+			knowledge,
+			createMeta({
+				pathKey: path,
+				scopeKey: "r:50:120",
+				servedHash: "b".repeat(64),
+				baseHash: "a".repeat(64),
+				mode: "diff_range",
+				totalLines: 500,
+				rangeStart: 50,
+				rangeEnd: 120,
+			}),
+			2,
+		);
+		applyReadMetaTransition(
+			knowledge,
+			createMeta({
+				pathKey: path,
+				scopeKey: "r:350:450",
+				servedHash: "b".repeat(64),
+				baseHash: "a".repeat(64),
+				mode: "diff_range",
+				totalLines: 500,
+				rangeStart: 350,
+				rangeEnd: 450,
+			}),
+			3,
+		);
+
+		expect(knowledge.get(path)?.get("r:50:120")).toEqual({ hash: "b".repeat(64), seq: 2 });
+		expect(knowledge.get(path)?.has("r:350:450")).toBe(false);
+	});
+
+	it("applies_unchanged_full_only_when_ranges_compose_the_whole_file", () => {
+		const path = "/tmp/file.txt";
+		const knowledge: KnowledgeMap = new Map();
+		const unchangedMeta = createMeta({
+			pathKey: path,
+			scopeKey: SCOPE_FULL,
+			servedHash: "a".repeat(64),
+			baseHash: "a".repeat(64),
+			mode: "unchanged",
+			totalLines: 10,
+		});
+
+		applyReadMetaTransition(
+			knowledge,
+			createMeta({ pathKey: path, scopeKey: "r:1:6", servedHash: "a".repeat(64), mode: "full", rangeStart: 1, rangeEnd: 6 }),
+			1,
+		);
+		applyReadMetaTransition(knowledge, unchangedMeta, 2);
+		expect(knowledge.get(path)?.has(SCOPE_FULL)).toBe(false);
+
+		applyReadMetaTransition(
+			knowledge,
+			createMeta({ pathKey: path, scopeKey: "r:7:10", servedHash: "a".repeat(64), mode: "full", rangeStart: 7, rangeEnd: 10 }),
+			3,
+		);
+		applyReadMetaTransition(knowledge, unchangedMeta, 4);
+		expect(knowledge.get(path)?.get(SCOPE_FULL)).toEqual({ hash: "a".repeat(64), seq: 4 });
+	});
+
 	it("applies_unchanged_range_with_matching_full_anchor", () => {
 		const path = "/tmp/file.txt";
 		const scope = "r:2:4" as const;
@@ -451,4 +615,483 @@ describe("replay", () => {
 		state.branch = [];
 		expect(buildKnowledgeForLeaf(sessionManager, runtime).size).toBe(0);
 	});
+
+	it("mode_off_drops_trust_and_ignores_reads_until_turned_back_on", () => {
+		const path = "/tmp/file.txt";
+		const entries: SessionEntry[] = [
+			createReadEntry("e1", null, createMeta({ pathKey: path, scopeKey: SCOPE_FULL, servedHash: "a".repeat(64), mode: "full" })),
+			createModeEntry("e2", "e1", "off"),
+			createReadEntry("e3", "e2", createMeta({ pathKey: path, scopeKey: SCOPE_FULL, servedHash: "b".repeat(64), mode: "full" })),
+		];
+
+		expect(replayKnowledgeFromBranch(entries, 0).size).toBe(0);
+
+		entries.push(
+			createModeEntry("e4", "e3", "on"),
+			createReadEntry("e5", "e4", createMeta({ pathKey: path, scopeKey: SCOPE_FULL, servedHash: "c".repeat(64), mode: "full" })),
+		);
+		expect(replayKnowledgeFromBranch(entries, 0).get(path)?.get(SCOPE_FULL)?.hash).toBe("c".repeat(64));
+	});
+
+	it("derived_write_trust_applies_unconditionally_and_edit_trust_requires_full_anchor", () => {
+		const path = "/tmp/file.txt";
+		const derivedEntry = (id: string, parentId: string | null, data: unknown): SessionEntry => ({
+			type: "custom",
+			id,
+			parentId,
+			timestamp: new Date().toISOString(),
+			customType: "pi-readcache",
+			data,
+		});
+
+		const unanchoredEdit: SessionEntry[] = [
+			createReadEntry(
+				"e1",
+				null,
+				createMeta({ pathKey: path, scopeKey: "r:1:5", servedHash: "a".repeat(64), mode: "full", rangeStart: 1, rangeEnd: 5 }),
+			),
+			derivedEntry("e2", "e1", buildDerivedTrustV1("edit", path, "b".repeat(64), "a".repeat(64), 1)),
+		];
+		expect(replayKnowledgeFromBranch(unanchoredEdit, 0).get(path)?.has(SCOPE_FULL)).toBe(false);
+
+		const anchoredEdit: SessionEntry[] = [
+			createReadEntry("e1", null, createMeta({ pathKey: path, scopeKey: SCOPE_FULL, servedHash: "a".repeat(64), mode: "full" })),
+			derivedEntry("e2", "e1", buildDerivedTrustV1("edit", path, "b".repeat(64), "a".repeat(64), 1)),
+		];
+		expect(replayKnowledgeFromBranch(anchoredEdit, 0).get(path)?.get(SCOPE_FULL)).toEqual({ hash: "b".repeat(64), seq: 2 });
+
+		const write: SessionEntry[] = [
+			createInvalidationEntry("e1", null, path, "r:1:5"),
+			derivedEntry("e2", "e1", buildDerivedTrustV1("write", path, "c".repeat(64), undefined, 1)),
+		];
+		expect(replayKnowledgeFromBranch(write, 0).get(path)?.get(SCOPE_FULL)).toEqual({ hash: "c".repeat(64), seq: 1 });
+	});
+
+	it("mode_paused_keeps_tracking_trust", () => {
+		const path = "/tmp/file.txt";
+		const entries: SessionEntry[] = [
+			createModeEntry("e1", null, "paused"),
+			createReadEntry("e2", "e1", createMeta({ pathKey: path, scopeKey: SCOPE_FULL, servedHash: "a".repeat(64), mode: "full" })),
+		];
+
+		expect(replayKnowledgeFromBranch(entries, 0).get(path)?.get(SCOPE_FULL)?.hash).toBe("a".repeat(64));
+	});
+
+	it("benchmark: extends the parent leaf's memo with constant work as the session grows", () => {
+		const paths = Array.from({ length: 8 }, (_, index) => `/tmp/file-${index}.txt`);
+		const runtime = createReplayRuntimeState();
+		const branch: SessionEntry[] = [];
+		const byId = new Map<string, SessionEntry>();
+		let leafId: string | null = null;
+		let entryLookups = 0;
+		let fullReplays = 0;
+		const sessionManager: SessionManagerView = {
+			...createSessionManagerStub({ sessionId: "session-1", leafId: null, branch }),
+			getLeafId: () => leafId,
+			getEntry: (id: string) => {
+				entryLookups += 1;
+				return byId.get(id);
+			},
+			getBranch: () => {
+				fullReplays += 1;
+				return branch;
+			},
+		};
+		const appendRead = (index: number): void => {
+			const entry = createReadEntry(
+				`e${index}`,
+				leafId,
+				createMeta({
+					pathKey: paths[index % paths.length] as string,
+					scopeKey: SCOPE_FULL,
+					servedHash: index.toString(16).padStart(64, "0"),
+					mode: "full",
+				}),
+			);
+			branch.push(entry);
+			byId.set(entry.id, entry);
+			leafId = entry.id;
+		};
+
+		const lookupsPerRead: number[] = [];
+		for (let step = 0; step < 2_500; step += 1) {
+			appendRead(step * 2);
+			appendRead(step * 2 + 1);
+			const before = entryLookups;
+			buildKnowledgeForLeaf(sessionManager, runtime);
+			lookupsPerRead.push(entryLookups - before);
+		}
+
+		expect(fullReplays).toBe(1);
+		expect(new Set(lookupsPerRead.slice(1))).toEqual(new Set([2]));
+		expect(buildKnowledgeForLeaf(sessionManager, runtime)).toEqual(replayKnowledgeFromBranch(branch, 0));
+	});
+
+	it("replays from scratch instead of extending an ancestor across a compaction", () => {
+		const path = "/tmp/file.txt";
+		const runtime = createReplayRuntimeState();
+		const fullBranch: SessionEntry[] = [
+			createReadEntry("e1", null, createMeta({ pathKey: path, scopeKey: SCOPE_FULL, servedHash: "a".repeat(64), mode: "full" })),
+			createCompactionEntry("e2", "e1", "e1"),
+			createReadEntry("e3", "e2", createMeta({ pathKey: "/tmp/other.txt", scopeKey: SCOPE_FULL, servedHash: "b".repeat(64), mode: "full" })),
+		];
+		const state: { sessionId: string; leafId: string | null; branch: SessionEntry[] } = {
+			sessionId: "session-1",
+			leafId: "e1",
+			branch: fullBranch.slice(0, 1),
+		};
+		const sessionManager = createSessionManagerStub(state);
+
+		expect(buildKnowledgeForLeaf(sessionManager, runtime).has(path)).toBe(true);
+
+		state.leafId = "e3";
+		state.branch = fullBranch;
+		const knowledge = buildKnowledgeForLeaf(sessionManager, runtime);
+		expect(knowledge.has(path)).toBe(false);
+		expect(knowledge.get("/tmp/other.txt")?.get(SCOPE_FULL)).toEqual({ hash: "b".repeat(64), seq: 1 });
+	});
+
+	it("layers overlay trust over the memo without copying untouched paths", () => {
+		const runtime = createReplayRuntimeState();
+		const state: { sessionId: string; leafId: string | null; branch: SessionEntry[] } = {
+			sessionId: "session-1",
+			leafId: "e2",
+			branch: [
+				createReadEntry("e1", null, createMeta({ pathKey: "/tmp/a.txt", scopeKey: SCOPE_FULL, servedHash: "a".repeat(64), mode: "full" })),
+				createReadEntry("e2", "e1", createMeta({ pathKey: "/tmp/b.txt", scopeKey: SCOPE_FULL, servedHash: "b".repeat(64), mode: "full" })),
+			],
+		};
+		const sessionManager = createSessionManagerStub(state);
+
+		const memoView = buildKnowledgeForLeaf(sessionManager, runtime);
+		expect(buildKnowledgeForLeaf(sessionManager, runtime)).toBe(memoView);
+
+		overlaySet(runtime, sessionManager, "/tmp/b.txt", "r:1:5", "c".repeat(64));
+		overlaySet(runtime, sessionManager, "/tmp/new.txt", SCOPE_FULL, "d".repeat(64));
+		const layered = buildKnowledgeForLeaf(sessionManager, runtime);
+
+		expect(layered.get("/tmp/a.txt")).toBe(memoView.get("/tmp/a.txt"));
+		expect([...(layered.get("/tmp/b.txt")?.keys() ?? [])]).toEqual([SCOPE_FULL, "r:1:5"]);
+		expect([...layered.keys()]).toEqual(["/tmp/a.txt", "/tmp/b.txt", "/tmp/new.txt"]);
+		expect(layered.size).toBe(3);
+		expect(memoView.get("/tmp/b.txt")?.has("r:1:5")).toBe(false);
+		expect(memoView.has("/tmp/new.txt")).toBe(false);
+	});
+
+	it("shares unchanged paths with the ancestor memo when extending to a new leaf", () => {
+		const runtime = createReplayRuntimeState();
+		const branch: SessionEntry[] = [
+			createReadEntry("e1", null, createMeta({ pathKey: "/tmp/a.txt", scopeKey: SCOPE_FULL, servedHash: "a".repeat(64), mode: "full" })),
+			createReadEntry("e2", "e1", createMeta({ pathKey: "/tmp/b.txt", scopeKey: SCOPE_FULL, servedHash: "b".repeat(64), mode: "full" })),
+			createInvalidationEntry("e3", "e2", "/tmp/b.txt", SCOPE_FULL),
+		];
+		const state: { sessionId: string; leafId: string | null; branch: SessionEntry[] } = {
+			sessionId: "session-1",
+			leafId: "e2",
+			branch: branch.slice(0, 2),
+		};
+		const sessionManager = createSessionManagerStub(state);
+
+		const parent = buildKnowledgeForLeaf(sessionManager, runtime);
+		state.leafId = "e3";
+		state.branch = branch;
+		const child = buildKnowledgeForLeaf(sessionManager, runtime);
+
+		expect(child.get("/tmp/a.txt")).toBe(parent.get("/tmp/a.txt"));
+		expect(child.has("/tmp/b.txt")).toBe(false);
+		expect(parent.get("/tmp/b.txt")?.get(SCOPE_FULL)).toEqual({ hash: "b".repeat(64), seq: 2 });
+	});
+
+	it("indexes children incrementally and only when the overlay has trust to discard", () => {
+		const path = "/tmp/file.txt";
+		const runtime = createReplayRuntimeState();
+		const state: { sessionId: string; leafId: string | null; branch: SessionEntry[] } = {
+			sessionId: "session-1",
+			leafId: "e1",
+			branch: [
+				createReadEntry("e1", null, createMeta({ pathKey: path, scopeKey: SCOPE_FULL, servedHash: "a".repeat(64), mode: "full" })),
+			],
+		};
+		let entriesCalls = 0;
+		const sessionManager: SessionManagerView = {
+			...createSessionManagerStub(state),
+			getEntries: () => {
+				entriesCalls += 1;
+				return state.branch;
+			},
+		};
+
+		buildKnowledgeForLeaf(sessionManager, runtime);
+		expect(entriesCalls).toBe(0);
+
+		overlaySet(runtime, sessionManager, path, SCOPE_FULL, "b".repeat(64));
+		expect(buildKnowledgeForLeaf(sessionManager, runtime).get(path)?.get(SCOPE_FULL)?.hash).toBe("b".repeat(64));
+		expect(entriesCalls).toBe(1);
+
+		// A child appended under the leaf the overlay belongs to makes that overlay stale.
+		state.branch = [
+			...state.branch,
+			createReadEntry("e2", "e1", createMeta({ pathKey: path, scopeKey: SCOPE_FULL, servedHash: "b".repeat(64), mode: "full" })),
+		];
+		expect(buildKnowledgeForLeaf(sessionManager, runtime).get(path)?.get(SCOPE_FULL)?.hash).toBe("a".repeat(64));
+		expect(entriesCalls).toBe(2);
+		expect(buildKnowledgeForLeaf(sessionManager, runtime).get(path)?.get(SCOPE_FULL)?.hash).toBe("a".repeat(64));
+		expect(entriesCalls).toBe(2);
+	});
+
+	it("bounds the memo with least-recently-used eviction and counts hits and misses", () => {
+		const runtime = createReplayRuntimeState(2);
+		const branch: SessionEntry[] = ["a", "b", "c"].map((letter, index) =>
+			createReadEntry(
+				`e${index + 1}`,
+				index === 0 ? null : `e${index}`,
+				createMeta({ pathKey: `/tmp/${letter}.txt`, scopeKey: SCOPE_FULL, servedHash: letter.repeat(64), mode: "full" }),
+			),
+		);
+		const state: { sessionId: string; leafId: string | null; branch: SessionEntry[] } = {
+			sessionId: "session-1",
+			leafId: "e1",
+			branch: branch.slice(0, 1),
+		};
+		const sessionManager = createSessionManagerStub(state);
+		const visit = (leafId: string) => {
+			state.leafId = leafId;
+			return buildKnowledgeForLeaf(sessionManager, runtime);
+		};
+
+		visit("e1");
+		state.branch = branch;
+		visit("e2");
+		visit("e1");
+		visit("e3");
+		expect(getReplayMemoStats(runtime)).toMatchObject({ entries: 2, maxEntries: 2, hits: 1, misses: 3, extended: 2, evictions: 1 });
+
+		// e2 was least recently used, so it is rebuilt from its still-memoized parent.
+		expect(visit("e2").get("/tmp/b.txt")?.get(SCOPE_FULL)).toEqual({ hash: "b".repeat(64), seq: 2 });
+		expect(getReplayMemoStats(runtime)).toMatchObject({ entries: 2, hits: 1, misses: 4, extended: 3, evictions: 2 });
+
+		setReplayMemoMaxEntries(runtime, 1);
+		expect(getReplayMemoStats(runtime)).toMatchObject({ entries: 1, maxEntries: 1, evictions: 3 });
+	});
+
+	it("counts repeated lookups of the same leaf as one memo lookup", () => {
+		const runtime = createReplayRuntimeState();
+		const path = "/tmp/file.txt";
+		const state: { sessionId: string; leafId: string | null; branch: SessionEntry[] } = {
+			sessionId: "session-1",
+			leafId: "e2",
+			branch: [
+				createReadEntry("e1", null, createMeta({ pathKey: path, scopeKey: SCOPE_FULL, servedHash: "a".repeat(64), mode: "full" })),
+				createModeEntry("e2", "e1", "on"),
+			],
+		};
+		const sessionManager = createSessionManagerStub(state);
+
+		// A read checks the mode and then builds knowledge; a context refresh builds it twice more.
+		getReadcacheModeForLeaf(sessionManager, runtime);
+		buildKnowledgeForLeaf(sessionManager, runtime);
+		buildKnowledgeForLeaf(sessionManager, runtime);
+		buildKnowledgeForLeaf(sessionManager, runtime);
+		expect(getReplayMemoStats(runtime)).toMatchObject({ hits: 0, misses: 1 });
+
+		state.leafId = "e1";
+		buildKnowledgeForLeaf(sessionManager, runtime);
+		state.leafId = "e2";
+		getReadcacheModeForLeaf(sessionManager, runtime);
+		buildKnowledgeForLeaf(sessionManager, runtime);
+		expect(getReplayMemoStats(runtime)).toMatchObject({ hits: 1, misses: 2 });
+	});
+
+	it("estimates the memo footprint once per shared path map and keeps counters across clears", () => {
+		const runtime = createReplayRuntimeState();
+		const paths = Array.from({ length: 20 }, (_, index) => `/tmp/file-${index}.txt`);
+		const branch: SessionEntry[] = paths.map((path, index) =>
+			createReadEntry(
+				`e${index + 1}`,
+				index === 0 ? null : `e${index}`,
+				createMeta({ pathKey: path, scopeKey: SCOPE_FULL, servedHash: index.toString(16).padStart(64, "0"), mode: "full" }),
+			),
+		);
+		const state: { sessionId: string; leafId: string | null; branch: SessionEntry[] } = {
+			sessionId: "session-1",
+			leafId: "e19",
+			branch: branch.slice(0, 19),
+		};
+		const sessionManager = createSessionManagerStub(state);
+
+		buildKnowledgeForLeaf(sessionManager, runtime);
+		const single = getReplayMemoStats(runtime).estimatedBytes;
+		expect(single).toBeGreaterThan(0);
+
+		state.leafId = "e20";
+		state.branch = branch;
+		buildKnowledgeForLeaf(sessionManager, runtime);
+		const extended = getReplayMemoStats(runtime).estimatedBytes;
+		expect(extended).toBeGreaterThan(single);
+		expect(extended).toBeLessThan(single * 2);
+
+		clearReplayRuntimeState(runtime);
+		expect(getReplayMemoStats(runtime)).toMatchObject({ entries: 0, estimatedBytes: 0, misses: 2, extended: 1 });
+	});
+
+	it("starts replay from the nearest valid checkpoint after the compaction barrier", () => {
+		const path = "/tmp/file.txt";
+		const seeded = "/tmp/seeded.txt";
+		const checkpoint = buildCheckpointV1("paused", 5, [[seeded, SCOPE_FULL, "c".repeat(64), 5]], [[path, "r:2:4"]], false, 1234);
+		const entries: SessionEntry[] = [
+			createReadEntry("e1", null, createMeta({ pathKey: path, scopeKey: SCOPE_FULL, servedHash: "a".repeat(64), mode: "full" })),
+			createCheckpointEntry("e2", "e1", checkpoint),
+			createReadEntry("e3", "e2", createMeta({ pathKey: path, scopeKey: "r:2:4", servedHash: "b".repeat(64), mode: "full", rangeStart: 2, rangeEnd: 4 })),
+		];
+
+		const knowledge = replayKnowledgeFromBranch(entries, 0);
+		expect(knowledge.get(seeded)?.get(SCOPE_FULL)).toEqual({ hash: "c".repeat(64), seq: 5 });
+		expect(knowledge.get(path)?.has(SCOPE_FULL)).toBe(false);
+		expect(knowledge.get(path)?.get("r:2:4")).toEqual({ hash: "b".repeat(64), seq: 6 });
+
+		const withCompaction = [...entries, createCompactionEntry("e4", "e3", "e3")];
+		expect(replayKnowledgeFromBranch(withCompaction, findReplayStartIndex(withCompaction).startIndex).size).toBe(0);
+
+		const invalid = [entries[0] as SessionEntry, createCheckpointEntry("e2", "e1", { ...checkpoint, seq: 1 })];
+		expect(replayKnowledgeFromBranch(invalid, 0).get(path)?.get(SCOPE_FULL)?.hash).toBe("a".repeat(64));
+	});
+
+	it("seeds trust across a compaction only from a manifest directly under it", () => {
+		const path = "/tmp/file.txt";
+		const manifest = buildCompactionManifestV1("e2", [[path, SCOPE_FULL, "a".repeat(64)]], 1234);
+		const entries: SessionEntry[] = [
+			createReadEntry("e1", null, createMeta({ pathKey: path, scopeKey: SCOPE_FULL, servedHash: "a".repeat(64), mode: "full" })),
+			createCompactionEntry("e2", "e1", "e1"),
+		];
+
+		const strict = replayKnowledgeFromBranch(entries, findReplayStartIndex(entries).startIndex);
+		expect(strict.size).toBe(0);
+
+		const relaxed = [...entries, createCheckpointEntry("e3", "e2", manifest)];
+		const relaxedStart = findReplayStartIndex(relaxed).startIndex;
+		expect(replayKnowledgeFromBranch(relaxed, relaxedStart, "relaxed").get(path)?.get(SCOPE_FULL)).toEqual({
+			hash: "a".repeat(64),
+			seq: 1,
+		});
+		expect(replayKnowledgeFromBranch(relaxed, relaxedStart).size).toBe(0);
+
+		const detached = [...entries, createModeEntry("e3", "e2", "on"), createCheckpointEntry("e4", "e3", manifest)];
+		expect(replayKnowledgeFromBranch(detached, findReplayStartIndex(detached).startIndex, "relaxed").size).toBe(0);
+
+		const off = [createModeEntry("e0", null, "off"), { ...entries[1], parentId: "e0" } as SessionEntry, createCheckpointEntry("e3", "e2", manifest)];
+		expect(replayKnowledgeFromBranch(off, findReplayStartIndex(off).startIndex, "relaxed").size).toBe(0);
+	});
+
+	it("ignores manifests and checkpoints holding their trust once the barrier is strict again", () => {
+		const path = "/tmp/file.txt";
+		const other = "/tmp/other.txt";
+		const runtime = createReplayRuntimeState();
+		setReplayCompactionBarrier(runtime, "relaxed");
+		const branch: SessionEntry[] = [
+			createReadEntry("e1", null, createMeta({ pathKey: path, scopeKey: SCOPE_FULL, servedHash: "a".repeat(64), mode: "full" })),
+			createCompactionEntry("e2", "e1", "e1"),
+			createCheckpointEntry("e3", "e2", buildCompactionManifestV1("e2", [[path, SCOPE_FULL, "a".repeat(64)]], 1234)),
+			createReadEntry("e4", "e3", createMeta({ pathKey: other, scopeKey: SCOPE_FULL, servedHash: "b".repeat(64), mode: "full" })),
+		];
+		const state: { sessionId: string; leafId: string | null; branch: SessionEntry[] } = {
+			sessionId: "session-1",
+			leafId: "e4",
+			branch,
+		};
+		const sessionManager = createSessionManagerStub(state);
+
+		expect(buildKnowledgeForLeaf(sessionManager, runtime).get(path)?.get(SCOPE_FULL)?.hash).toBe("a".repeat(64));
+		const checkpoint = buildReplayCheckpointForLeaf(sessionManager, runtime, 1);
+		expect(checkpoint?.relaxed).toBe(true);
+		branch.push(createCheckpointEntry("e5", "e4", checkpoint));
+		state.leafId = "e5";
+		expect(buildKnowledgeForLeaf(sessionManager, runtime).get(path)?.get(SCOPE_FULL)?.hash).toBe("a".repeat(64));
+
+		setReplayCompactionBarrier(runtime, "strict");
+		const strictKnowledge = buildKnowledgeForLeaf(sessionManager, runtime);
+		expect(strictKnowledge.has(path)).toBe(false);
+		expect(strictKnowledge.get(other)?.get(SCOPE_FULL)?.hash).toBe("b".repeat(64));
+		expect(buildReplayCheckpointForLeaf(sessionManager, runtime, 1)).not.toHaveProperty("relaxed");
+	});
+
+	it("replays the kept region without anchors from before it", () => {
+		const path = "/tmp/file.txt";
+		const other = "/tmp/other.txt";
+		const entries: SessionEntry[] = [
+			createReadEntry("e1", null, createMeta({ pathKey: path, scopeKey: SCOPE_FULL, servedHash: "a".repeat(64), mode: "full" })),
+			createReadEntry(
+				"e2",
+				"e1",
+				createMeta({ pathKey: path, scopeKey: SCOPE_FULL, servedHash: "b".repeat(64), mode: "diff", baseHash: "a".repeat(64) }),
+			),
+			createReadEntry("e3", "e2", createMeta({ pathKey: other, scopeKey: SCOPE_FULL, servedHash: "c".repeat(64), mode: "full" })),
+		];
+
+		const kept = replayKeptRegionKnowledge(entries, "e2");
+		expect(kept.has(path)).toBe(false);
+		expect(kept.get(other)?.get(SCOPE_FULL)?.hash).toBe("c".repeat(64));
+		expect(replayKeptRegionKnowledge(entries, "missing").size).toBe(0);
+	});
+
+	it("seeds a cold memo from a checkpoint on the active path without a full replay", () => {
+		const path = "/tmp/file.txt";
+		const runtime = createReplayRuntimeState();
+		const branch: SessionEntry[] = [
+			createReadEntry("e1", null, createMeta({ pathKey: path, scopeKey: SCOPE_FULL, servedHash: "a".repeat(64), mode: "full" })),
+			createReadEntry(
+				"e2",
+				"e1",
+				createMeta({ pathKey: path, scopeKey: SCOPE_FULL, servedHash: "a".repeat(64), baseHash: "a".repeat(64), mode: "unchanged" }),
+			),
+		];
+		const state: { sessionId: string; leafId: string | null; branch: SessionEntry[] } = {
+			sessionId: "session-1",
+			leafId: "e2",
+			branch,
+		};
+		const writer = createSessionManagerStub(state);
+
+		expect(buildReplayCheckpointForLeaf(writer, runtime, 3)).toBeUndefined();
+		const checkpoint = buildReplayCheckpointForLeaf(writer, runtime, 2);
+		expect(checkpoint).toMatchObject({ kind: "checkpoint", mode: "on", seq: 2, trust: [[path, SCOPE_FULL, "a".repeat(64), 2]] });
+
+		branch.push(createCheckpointEntry("e3", "e2", checkpoint));
+		state.leafId = "e3";
+		expect(buildReplayCheckpointForLeaf(writer, runtime, 1)).toBeUndefined();
+
+		let fullReplays = 0;
+		const restarted: SessionManagerView = {
+			...writer,
+			getBranch: () => {
+				fullReplays += 1;
+				return branch;
+			},
+		};
+		const restartedRuntime = createReplayRuntimeState();
+		expect(buildKnowledgeForLeaf(restarted, restartedRuntime).get(path)?.get(SCOPE_FULL)).toEqual({ hash: "a".repeat(64), seq: 2 });
+		expect(fullReplays).toBe(0);
+	});
+
+	it("carries the latest mode across the compaction barrier and follows the active leaf", () => {
+		const path = "/tmp/file.txt";
+		const runtime = createReplayRuntimeState();
+		const fullBranch: SessionEntry[] = [
+			createReadEntry("e1", null, createMeta({ pathKey: path, scopeKey: SCOPE_FULL, servedHash: "a".repeat(64), mode: "full" })),
+			createModeEntry("e2", "e1", "paused"),
+			createCompactionEntry("e3", "e2", "e1"),
+			createReadEntry("e4", "e3", createMeta({ pathKey: path, scopeKey: SCOPE_FULL, servedHash: "b".repeat(64), mode: "full" })),
+		];
+		const state: { sessionId: string; leafId: string | null; branch: SessionEntry[] } = {
+			sessionId: "session-1",
+			leafId: "e4",
+			branch: fullBranch,
+		};
+		const sessionManager = createSessionManagerStub(state);
+
+		expect(getReadcacheModeForLeaf(sessionManager, runtime)).toBe("paused");
+
+		state.leafId = "e1";
+		state.branch = fullBranch.slice(0, 1);
+		expect(getReadcacheModeForLeaf(sessionManager, runtime)).toBe("on");
+	});
 });
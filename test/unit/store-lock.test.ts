@@ -0,0 +1,80 @@
+import { mkdir, mkdtemp, readdir, readFile, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+import { isProcessAlive, withStoreLock } from "../../src/store-lock.js";
+
+async function createLockRoot(): Promise<{ storeRoot: string; lockPath: string }> {
+	const storeRoot = await mkdtemp(join(tmpdir(), "pi-readcache-lock-"));
+	await mkdir(join(storeRoot, ".pi/readcache"), { recursive: true });
+	return { storeRoot, lockPath: join(storeRoot, ".pi/readcache/store.lock") };
+}
+
+describe("store-lock", () => {
+	it("serializes holders and releases the lock when the action settles", async () => {
+		const { storeRoot, lockPath } = await createLockRoot();
+
+		await withStoreLock(storeRoot, async () => {
+			expect(JSON.parse(await readFile(lockPath, "utf-8"))).toMatchObject({ pid: process.pid });
+			await expect(withStoreLock(storeRoot, async () => "second")).rejects.toThrow(/locked by pid/);
+		});
+
+		await expect(
+			withStoreLock(storeRoot, async () => {
+				throw new Error("action failed");
+			}),
+		).rejects.toThrow("action failed");
+		expect(await withStoreLock(storeRoot, async () => "reacquired")).toBe("reacquired");
+	});
+
+	it("reclaims locks left by dead processes or held past the stale timeout", async () => {
+		const { storeRoot, lockPath } = await createLockRoot();
+
+		await writeFile(lockPath, JSON.stringify({ pid: 424242, acquiredAt: Date.now() }), "utf-8");
+		expect(await withStoreLock(storeRoot, async () => "dead owner", { isAlive: () => false })).toBe("dead owner");
+
+		await writeFile(lockPath, JSON.stringify({ pid: process.pid, acquiredAt: Date.now() - 60_000 }), "utf-8");
+		expect(await withStoreLock(storeRoot, async () => "stale owner", { staleMs: 1000 })).toBe("stale owner");
+
+		await writeFile(lockPath, "", "utf-8");
+		await expect(withStoreLock(storeRoot, async () => "unreadable")).rejects.toThrow(/another process/);
+	});
+
+	it("lets only one of several concurrent reclaimers take over a stale lock", async () => {
+		const { storeRoot, lockPath } = await createLockRoot();
+		await writeFile(lockPath, JSON.stringify({ pid: 424242, acquiredAt: Date.now() }), "utf-8");
+
+		let holders = 0;
+		let maxHolders = 0;
+		const attempt = () =>
+			withStoreLock(
+				storeRoot,
+				async () => {
+					holders += 1;
+					maxHolders = Math.max(maxHolders, holders);
+					await new Promise((resolve) => setTimeout(resolve, 50));
+					holders -= 1;
+				},
+				{ isAlive: (pid) => pid !== 424242 },
+			);
+		const results = await Promise.allSettled([attempt(), attempt(), attempt()]);
+		expect(results.filter((result) => result.status === "fulfilled")).toHaveLength(1);
+		expect(maxHolders).toBe(1);
+		expect(await readdir(join(storeRoot, ".pi/readcache"))).toEqual([]);
+	});
+
+	it("leaves a lock that another holder took over in place on release", async () => {
+		const { storeRoot, lockPath } = await createLockRoot();
+		const takeover = JSON.stringify({ pid: 424242, acquiredAt: Date.now() + 1 });
+
+		await withStoreLock(storeRoot, async () => {
+			await writeFile(lockPath, takeover, "utf-8");
+		});
+		expect(await readFile(lockPath, "utf-8")).toBe(takeover);
+		expect(await readdir(join(storeRoot, ".pi/readcache"))).toEqual(["store.lock"]);
+	});
+
+	it("detects live processes", () => {
+		expect(isProcessAlive(process.pid)).toBe(true);
+	});
+});
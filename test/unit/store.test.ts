@@ -0,0 +1,145 @@
+import { access, mkdtemp, readFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, expect, it, vi } from "vitest";
+import { DEFAULT_READCACHE_CONFIG, type ReadcacheConfig } from "../../src/config.js";
+import { hashText, objectPathForHash } from "../../src/object-store.js";
+import {
+	createConfiguredObjectStoreProvider,
+	createFilesystemObjectStore,
+	createMemoryObjectStore,
+	type ReadcacheObjectStore,
+} from "../../src/store.js";
+
+const backends: Array<[string, () => Promise<ReadcacheObjectStore>]> = [
+	["filesystem", async () => createFilesystemObjectStore(await mkdtemp(join(tmpdir(), "pi-readcache-store-")))],
+	["memory", async () => createMemoryObjectStore()],
+];
+
+describe.each(backends)("%s object store", (_name, createStore) => {
+	it("puts, gets, and reports objects by hash", async () => {
+		const store = await createStore();
+		const text = "object store contract";
+		const hash = hashText(text);
+
+		expect(await store.has(hash)).toBe(false);
+		expect(await store.get(hash)).toEqual({ status: "missing" });
+		expect(await store.put(hash, text, { pathKey: "/repo/a.ts" })).toEqual({ hash, written: true });
+		expect(await store.put(hash, text)).toEqual({ hash, written: false });
+		expect(await store.has(hash)).toBe(true);
+		expect(await store.get(hash)).toEqual({ status: "found", text });
+
+		expect(await store.stats()).toMatchObject({ objects: 1, logicalBytes: text.length });
+		expect(await store.usageByPath(5)).toMatchObject([{ pathKey: "/repo/a.ts", objects: 1 }]);
+	});
+
+	it("prunes objects not used within the max age", async () => {
+		const store = await createStore();
+		const nowMs = Date.now();
+		await store.stats();
+		vi.useFakeTimers({ toFake: ["Date"] });
+		try {
+			vi.setSystemTime(nowMs - 2 * 60 * 60_000);
+			await store.put(hashText("stale"), "stale");
+		} finally {
+			vi.useRealTimers();
+		}
+		await store.put(hashText("fresh"), "fresh");
+
+		expect(await store.prune({ maxAgeMs: 60 * 60_000, nowMs })).toEqual({ scanned: 2, deleted: 1 });
+		expect(await store.has(hashText("stale"))).toBe(false);
+		expect(await store.get(hashText("fresh"))).toEqual({ status: "found", text: "fresh" });
+	});
+
+	it("counts persisting an existing object again as a use", async () => {
+		const store = await createStore();
+		const nowMs = Date.now();
+		await store.stats();
+		vi.useFakeTimers({ toFake: ["Date"] });
+		try {
+			vi.setSystemTime(nowMs - 2 * 60 * 60_000);
+			await store.put(hashText("idle"), "idle");
+			await store.put(hashText("reread"), "reread");
+		} finally {
+			vi.useRealTimers();
+		}
+		expect(await store.put(hashText("reread"), "reread")).toEqual({ hash: hashText("reread"), written: false });
+
+		expect(await store.prune({ maxAgeMs: 60 * 60_000, nowMs })).toEqual({ scanned: 2, deleted: 1 });
+		expect(await store.has(hashText("idle"))).toBe(false);
+		expect(await store.has(hashText("reread"))).toBe(true);
+	});
+});
+
+describe("memory object store", () => {
+	it("evicts least recently used objects over the quota", async () => {
+		const store = createMemoryObjectStore();
+		await store.put(hashText("first"), "first");
+		await store.put(hashText("second"), "second");
+		await store.get(hashText("first"));
+
+		await store.put(hashText("third"), "third", { quotaBytes: "first".length + "third".length });
+		expect(await store.has(hashText("second"))).toBe(false);
+		expect(await store.has(hashText("first"))).toBe(true);
+		expect(await store.has(hashText("third"))).toBe(true);
+
+		await store.put(hashText("first"), "first");
+		await store.put(hashText("fourth"), "fourth", { quotaBytes: "first".length + "fourth".length });
+		expect(await store.has(hashText("third"))).toBe(false);
+		expect(await store.has(hashText("first"))).toBe(true);
+	});
+
+	it("rejects text that does not match its hash", async () => {
+		const store = createMemoryObjectStore();
+		await expect(store.put(hashText("expected"), "actual")).rejects.toThrow(/does not match/);
+	});
+});
+
+describe("configured object store", () => {
+	it("places objects under the user-level store and records the repo they came from", async () => {
+		const homeDir = await mkdtemp(join(tmpdir(), "pi-readcache-home-"));
+		const repoRoot = await mkdtemp(join(tmpdir(), "pi-readcache-repo-"));
+		let config: ReadcacheConfig = { ...DEFAULT_READCACHE_CONFIG, objectStore: "user" };
+		const getStore = createConfiguredObjectStoreProvider(() => config, homeDir);
+
+		const text = "vendored dependency source";
+		await getStore(repoRoot).put(hashText(text), text, { pathKey: join(repoRoot, "vendor/lib.ts") });
+		await expect(access(objectPathForHash(homeDir, hashText(text)))).resolves.toBeUndefined();
+		await expect(access(objectPathForHash(repoRoot, hashText(text)))).rejects.toMatchObject({ code: "ENOENT" });
+		expect(await readFile(join(homeDir, ".pi/readcache/index.jsonl"), "utf-8")).toContain(`"origins":["${repoRoot}"]`);
+
+		const otherRepo = await mkdtemp(join(tmpdir(), "pi-readcache-repo-"));
+		expect(await getStore(otherRepo).prune({ maxAgeMs: 0, quotaBytes: 1, nowMs: Date.now() + 1000 })).toMatchObject({
+			deleted: 0,
+		});
+		expect(await getStore(repoRoot).has(hashText(text))).toBe(true);
+
+		config = { ...config, objectStore: "repo" };
+		expect(await getStore(repoRoot).has(hashText(text))).toBe(false);
+	});
+
+	it("reports the bytes each repo owns in the user-level store apart from the store-wide total", async () => {
+		const homeDir = await mkdtemp(join(tmpdir(), "pi-readcache-home-"));
+		const repoRoot = await mkdtemp(join(tmpdir(), "pi-readcache-repo-"));
+		const otherRepo = await mkdtemp(join(tmpdir(), "pi-readcache-repo-"));
+		const getStore = createConfiguredObjectStoreProvider(() => ({ ...DEFAULT_READCACHE_CONFIG, objectStore: "user" }), homeDir);
+
+		const own = "only this repo reads this file";
+		const other = "the other repo reads a somewhat longer file than this one";
+		const both = "both repos read this file";
+		await getStore(repoRoot).put(hashText(own), own);
+		await getStore(otherRepo).put(hashText(other), other);
+		await getStore(repoRoot).put(hashText(both), both);
+		await getStore(otherRepo).put(hashText(both), both);
+
+		const stats = await getStore(repoRoot).stats();
+		const otherStats = await getStore(otherRepo).stats();
+		expect(stats.objects).toBe(3);
+		expect(stats.ownedBytes).toBeGreaterThan(0);
+		expect(stats.ownedBytes).toBeLessThan(stats.bytes);
+		expect(otherStats.bytes).toBe(stats.bytes);
+		expect(otherStats.ownedBytes).toBeGreaterThan(stats.ownedBytes ?? 0);
+		expect((stats.ownedBytes ?? 0) + (otherStats.ownedBytes ?? 0)).toBeLessThan(stats.bytes);
+		expect((await createFilesystemObjectStore(repoRoot).stats()).ownedBytes).toBeUndefined();
+	});
+});
@@ -1,5 +1,5 @@
 import { describe, expect, it } from "vitest";
-import { compareSlices, estimateTokens, sliceByLineRange, splitLines, truncateForReadcache } from "../../src/text.js";
+import { compareSlices, estimateTokens, findShiftedSlice, sliceByLineRange, splitLines, truncateForReadcache } from "../../src/text.js";
 
 describe("text", () => {
 	it("splits text into lines", () => {
@@ -23,6 +23,15 @@ describe("text", () => {
 		expect(compareSlices(oldText, newText, 1, 2)).toBe(false);
 	});
 
+	it("finds the nearest position of a shifted slice", () => {
+		const text = "header\na\nb\nc\nd\nb\nc";
+		expect(findShiftedSlice("b\nc", text, 2)).toBe(3);
+		expect(findShiftedSlice("b\nc", text, 5)).toBe(6);
+		expect(findShiftedSlice("b\nc", text, 7)).toBe(6);
+		expect(findShiftedSlice("b\nx", text, 2)).toBeUndefined();
+		expect(findShiftedSlice("\n", text, 2)).toBeUndefined();
+	});
+
 	it("estimates tokens from utf-8 size", () => {
 		expect(estimateTokens("")).toBe(0);
 		expect(estimateTokens("abcd")).toBe(1);
@@ -1,9 +1,13 @@
-import { mkdtemp, unlink, writeFile } from "node:fs/promises";
+import { access, mkdir, mkdtemp, stat, unlink, writeFile } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
+import { gzipSync } from "node:zlib";
 import { SessionManager, type AgentToolResult, type ExtensionContext } from "@mariozechner/pi-coding-agent";
 import { describe, expect, it } from "vitest";
-import { objectPathForHash } from "../../src/object-store.js";
+import { DEFAULT_READCACHE_CONFIG, type ReadcacheConfig } from "../../src/config.js";
+import { hashBytes, objectPathForHash } from "../../src/object-store.js";
+import { buildKnowledgeForLeaf, createReplayRuntimeState } from "../../src/replay.js";
+import { createMemoryObjectStore } from "../../src/store.js";
 import { createReadOverrideTool } from "../../src/tool.js";
 import type { ReadToolDetailsExt } from "../../src/types.js";
 
@@ -166,6 +170,31 @@ describe("tool", () => {
 		expect(diffText).toContain("+line 200 :: changed text payload");
 	});
 
+	it("persists and diffs against an injected object store", async () => {
+		const cwd = await mkdtemp(join(tmpdir(), "pi-readcache-tool-"));
+		const filePath = join(cwd, "sample.txt");
+		const lines = Array.from({ length: 50 }, (_, index) => `line ${index + 1} :: original`);
+		await writeFile(filePath, lines.join("\n"), "utf-8");
+
+		const store = createMemoryObjectStore();
+		const tool = createReadOverrideTool(createReplayRuntimeState(), undefined, () => store);
+		const sessionManager = SessionManager.inMemory(cwd);
+		const ctx = { cwd, sessionManager } as unknown as ExtensionContext;
+
+		const firstRead = await tool.execute("call-store-1", { path: "sample.txt" }, undefined, undefined, ctx);
+		appendReadResult(sessionManager, "call-store-1", firstRead);
+		expect(await store.has(firstRead.details?.readcache?.servedHash ?? "")).toBe(true);
+		expect(await store.usageByPath(1)).toMatchObject([{ pathKey: filePath, objects: 1 }]);
+
+		const changed = [...lines];
+		changed[24] = "line 25 :: changed";
+		await writeFile(filePath, changed.join("\n"), "utf-8");
+		const secondRead = await tool.execute("call-store-2", { path: "sample.txt" }, undefined, undefined, ctx);
+		expect(secondRead.details?.readcache?.mode).toBe("diff");
+		expect((await store.stats()).objects).toBe(2);
+		await expect(access(join(cwd, ".pi/readcache"))).rejects.toMatchObject({ code: "ENOENT" });
+	});
+
 	it("falls back to baseline diff mode for oversized full-file changes", async () => {
 		const cwd = await mkdtemp(join(tmpdir(), "pi-readcache-tool-"));
 		const filePath = join(cwd, "sample.txt");
@@ -190,23 +219,181 @@ describe("tool", () => {
 		});
 	});
 
-	it("bypasses readcache metadata for excluded sensitive paths", async () => {
+	it("applies configured diff limits and exclusion patterns", async () => {
 		const cwd = await mkdtemp(join(tmpdir(), "pi-readcache-tool-"));
-		const paths = [".env.local", "server.key", ".npmrc", "id_ed25519"];
-		for (const path of paths) {
+		const filePath = join(cwd, "sample.txt");
+		const lines = Array.from({ length: 300 }, (_, index) => `line ${index + 1} :: original text payload`);
+		await writeFile(filePath, lines.join("\n"), "utf-8");
+		await writeFile(join(cwd, "notes.secret"), "classified", "utf-8");
+
+		const config: ReadcacheConfig = {
+			...DEFAULT_READCACHE_CONFIG,
+			diff: { ...DEFAULT_READCACHE_CONFIG.diff, maxDiffToBaseRatio: 0.001 },
+			excludedPathPatterns: ["*.secret"],
+		};
+		const tool = createReadOverrideTool(createReplayRuntimeState(), () => config);
+		const sessionManager = SessionManager.inMemory(cwd);
+		const ctx = { cwd, sessionManager } as unknown as ExtensionContext;
+
+		const excluded = await tool.execute("call-6a", { path: "notes.secret" }, undefined, undefined, ctx);
+		expect(excluded.details?.readcache?.debug).toMatchObject({ reason: "path_excluded", excludedBy: "*.secret" });
+
+		const firstRead = await tool.execute("call-6b", { path: "sample.txt" }, undefined, undefined, ctx);
+		appendReadResult(sessionManager, "call-6b", firstRead);
+
+		const changed = [...lines];
+		changed[199] = "line 200 :: changed text payload";
+		await writeFile(filePath, changed.join("\n"), "utf-8");
+
+		const secondRead = await tool.execute("call-6c", { path: "sample.txt" }, undefined, undefined, ctx);
+		expect(secondRead.details?.readcache?.mode).toBe("baseline_fallback");
+		expect(secondRead.details?.readcache?.debug?.reason).toBe("diff_not_useful");
+	});
+
+	it("bypasses readcache trust for excluded sensitive paths and records the matching pattern", async () => {
+		const cwd = await mkdtemp(join(tmpdir(), "pi-readcache-tool-"));
+		const paths: Array<[string, string]> = [
+			[".env.local", ".env*"],
+			["server.key", "*.key"],
+			[".npmrc", ".npmrc"],
+			["id_ed25519", "id_ed25519"],
+		];
+		for (const [path] of paths) {
 			await writeFile(join(cwd, path), `sensitive:${path}`, "utf-8");
 		}
 
-		const tool = createReadOverrideTool();
+		const runtimeState = createReplayRuntimeState();
+		const tool = createReadOverrideTool(runtimeState);
 		const sessionManager = SessionManager.inMemory(cwd);
 		const ctx = { cwd, sessionManager } as unknown as ExtensionContext;
 
-		for (const path of paths) {
+		for (const [path, pattern] of paths) {
 			const result = await tool.execute(`call-7-${path}`, { path }, undefined, undefined, ctx);
-			expect(result.details?.readcache).toBeUndefined();
+			appendReadResult(sessionManager, `call-7-${path}`, result);
+			expect(result.details?.readcache?.mode).toBe("full");
+			expect(result.details?.readcache?.debug).toMatchObject({ reason: "path_excluded", excludedBy: pattern });
+			expect(result.details?.readcache?.servedHash).toBeUndefined();
+
+			const hash = hashBytes(Buffer.from(`sensitive:${path}`, "utf-8"));
+			expect(JSON.stringify(sessionManager.getEntries())).not.toContain(hash);
+			await expect(stat(objectPathForHash(cwd, hash))).rejects.toMatchObject({ code: "ENOENT" });
+			expect(buildKnowledgeForLeaf(sessionManager, runtimeState).has(join(cwd, path))).toBe(false);
+
+			const repeated = await tool.execute(`call-7-${path}-again`, { path }, undefined, undefined, ctx);
+			expect(repeated.details?.readcache?.debug?.reason).toBe("path_excluded");
+			const text = repeated.content[0] && repeated.content[0].type === "text" ? repeated.content[0].text : "";
+			expect(text).toContain(`sensitive:${path}`);
 		}
 	});
 
+	it("matches excluded paths before readcache reads their content", async () => {
+		const cwd = await mkdtemp(join(tmpdir(), "pi-readcache-tool-"));
+		// Not valid UTF-8: readcache would give up on this file if it read the content before checking exclusions.
+		await writeFile(join(cwd, "binary.key"), Buffer.from([0x73, 0x65, 0x63, 0xff, 0xfe, 0x0a]));
+		const tool = createReadOverrideTool(createReplayRuntimeState());
+		const ctx = { cwd, sessionManager: SessionManager.inMemory(cwd) } as unknown as ExtensionContext;
+
+		const excluded = await tool.execute("call-7c", { path: "binary.key", offset: 1, limit: 1 }, undefined, undefined, ctx);
+		expect(excluded.details?.readcache).toEqual({
+			v: 1,
+			pathKey: join(cwd, "binary.key"),
+			mode: "full",
+			debug: { reason: "path_excluded", scope: "range", baseHashFound: false, diffAttempted: false, excludedBy: "*.key" },
+		});
+	});
+
+	it("honors directory globs and negations from extra exclusion patterns", async () => {
+		const cwd = await mkdtemp(join(tmpdir(), "pi-readcache-tool-"));
+		await mkdir(join(cwd, "secrets"), { recursive: true });
+		await writeFile(join(cwd, "secrets", "token.txt"), "token", "utf-8");
+		await writeFile(join(cwd, ".env.example"), "EXAMPLE=1", "utf-8");
+
+		const config: ReadcacheConfig = {
+			...DEFAULT_READCACHE_CONFIG,
+			excludedPathPatterns: [...DEFAULT_READCACHE_CONFIG.excludedPathPatterns, "secrets/**", "!.env.example"],
+		};
+		const tool = createReadOverrideTool(createReplayRuntimeState(), () => config);
+		const sessionManager = SessionManager.inMemory(cwd);
+		const ctx = { cwd, sessionManager } as unknown as ExtensionContext;
+
+		const secret = await tool.execute("call-7a", { path: "secrets/token.txt" }, undefined, undefined, ctx);
+		expect(secret.details?.readcache?.debug).toMatchObject({ reason: "path_excluded", excludedBy: "secrets/**" });
+
+		const example = await tool.execute("call-7b", { path: ".env.example" }, undefined, undefined, ctx);
+		expect(example.details?.readcache?.debug?.reason).toBe("no_base_hash");
+	});
+
+	it("honors per-path caching policies", async () => {
+		const cwd = await mkdtemp(join(tmpdir(), "pi-readcache-tool-"));
+		const lines = Array.from({ length: 300 }, (_, index) => `line ${index + 1} :: original text payload`);
+		for (const name of ["audit.lock", "schema.json", "legacy.json"]) {
+			await writeFile(join(cwd, name), lines.join("\n"), "utf-8");
+		}
+
+		const config: ReadcacheConfig = {
+			...DEFAULT_READCACHE_CONFIG,
+			pathPolicies: [
+				{ pattern: "*.lock", policy: "always_full" },
+				{ pattern: "*.json", policy: "no_diff" },
+				{ pattern: "legacy.json", policy: "unchanged_only" },
+			],
+		};
+		const tool = createReadOverrideTool(createReplayRuntimeState(), () => config);
+		const sessionManager = SessionManager.inMemory(cwd);
+		const ctx = { cwd, sessionManager } as unknown as ExtensionContext;
+
+		const readAndAppend = async (toolCallId: string, params: { path: string; offset?: number; limit?: number }) => {
+			const result = await tool.execute(toolCallId, params, undefined, undefined, ctx);
+			appendReadResult(sessionManager, toolCallId, result);
+			return result;
+		};
+
+		await readAndAppend("call-p1", { path: "audit.lock" });
+		const repeatedLock = await readAndAppend("call-p2", { path: "audit.lock" });
+		expect(repeatedLock.details?.readcache?.mode).toBe("full");
+		expect(repeatedLock.details?.readcache?.debug).toMatchObject({
+			reason: "path_policy",
+			policy: "always_full",
+			policyPattern: "*.lock",
+		});
+
+		await readAndAppend("call-p3", { path: "schema.json" });
+		await readAndAppend("call-p4", { path: "legacy.json" });
+		const unchangedLegacy = await readAndAppend("call-p5", { path: "legacy.json" });
+		expect(unchangedLegacy.details?.readcache?.mode).toBe("unchanged");
+
+		const changed = [...lines];
+		changed[199] = "line 200 :: changed text payload";
+		await writeFile(join(cwd, "schema.json"), changed.join("\n"), "utf-8");
+		await writeFile(join(cwd, "legacy.json"), changed.join("\n"), "utf-8");
+
+		const schemaRange = await readAndAppend("call-p6", { path: "schema.json", offset: 1, limit: 10 });
+		expect(schemaRange.details?.readcache?.mode).toBe("unchanged_range");
+
+		const schemaFull = await readAndAppend("call-p7", { path: "schema.json" });
+		expect(schemaFull.details?.readcache?.mode).toBe("baseline_fallback");
+		expect(schemaFull.details?.readcache?.debug).toMatchObject({
+			reason: "path_policy",
+			policy: "no_diff",
+			policyPattern: "*.json",
+		});
+
+		const legacyRange = await readAndAppend("call-p8", { path: "legacy.json", offset: 1, limit: 10 });
+		expect(legacyRange.details?.readcache?.mode).toBe("unchanged_range");
+
+		const legacyChangedRange = await readAndAppend("call-p9", { path: "legacy.json", offset: 195, limit: 10 });
+		expect(legacyChangedRange.details?.readcache?.mode).toBe("baseline_fallback");
+		expect(legacyChangedRange.details?.readcache?.debug).toMatchObject({
+			reason: "path_policy",
+			policy: "unchanged_only",
+			policyPattern: "legacy.json",
+		});
+
+		await writeFile(join(cwd, "legacy.json"), ["inserted header line", ...changed].join("\n"), "utf-8");
+		const legacyMovedRange = await readAndAppend("call-p10", { path: "legacy.json", offset: 20, limit: 10 });
+		expect(legacyMovedRange.details?.readcache?.mode).toBe("moved_range");
+	});
+
 	it("falls back to baseline for non-UTF8 file payloads", async () => {
 		const cwd = await mkdtemp(join(tmpdir(), "pi-readcache-tool-"));
 		await writeFile(join(cwd, "binary.bin"), Buffer.from([0xff, 0xfe, 0x00, 0xf8]));
@@ -260,6 +447,30 @@ describe("tool", () => {
 		expect(text).toContain("TWO");
 	});
 
+	it("treats a base object whose content does not match its hash as corrupt", async () => {
+		const cwd = await mkdtemp(join(tmpdir(), "pi-readcache-tool-"));
+		const filePath = join(cwd, "sample.txt");
+		await writeFile(filePath, "one\ntwo\nthree", "utf-8");
+
+		const tool = createReadOverrideTool();
+		const sessionManager = SessionManager.inMemory(cwd);
+		const ctx = { cwd, sessionManager } as unknown as ExtensionContext;
+
+		const firstRead = await tool.execute("call-12", { path: "sample.txt" }, undefined, undefined, ctx);
+		appendReadResult(sessionManager, "call-12", firstRead);
+		const firstHash = firstRead.details?.readcache?.servedHash;
+		if (!firstHash) {
+			throw new Error("expected served hash");
+		}
+		await writeFile(objectPathForHash(cwd, firstHash), gzipSync(Buffer.from("one\ntampered\nthree", "utf-8")));
+
+		await writeFile(filePath, "one\nTWO\nthree", "utf-8");
+		const secondRead = await tool.execute("call-13", { path: "sample.txt" }, undefined, undefined, ctx);
+
+		expect(secondRead.details?.readcache?.mode).toBe("baseline_fallback");
+		expect(secondRead.details?.readcache?.debug).toMatchObject({ reason: "base_object_corrupt", baseObjectFound: false });
+	});
+
 	it("preserves baseline truncation details when metadata is attached", async () => {
 		const cwd = await mkdtemp(join(tmpdir(), "pi-readcache-tool-"));
 		const lines = Array.from({ length: 2200 }, (_, index) => `line ${index + 1}`);
@@ -0,0 +1,145 @@
+import { EventEmitter } from "node:events";
+import type { FSWatcher } from "node:fs";
+import { mkdtemp, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+import { SCOPE_FULL } from "../../src/constants.js";
+import { createExternalChangeState, detectExternalChanges } from "../../src/external-changes.js";
+import { hashBytes } from "../../src/object-store.js";
+import type { KnowledgeMap } from "../../src/types.js";
+import { createTrackedPathWatcher } from "../../src/watcher.js";
+
+interface FakeHandle {
+	emitter: EventEmitter & { close: () => void };
+	listener: (eventType: string) => void;
+	closed: boolean;
+}
+
+function createFakeWatch(failWith?: (path: string) => string | undefined) {
+	const handles = new Map<string, FakeHandle>();
+	const watch = (path: string, listener: (eventType: string) => void): FSWatcher => {
+		const code = failWith?.(path);
+		if (code) {
+			throw Object.assign(new Error(code), { code });
+		}
+		const emitter = Object.assign(new EventEmitter(), {
+			close: () => {
+				handle.closed = true;
+			},
+		});
+		const handle: FakeHandle = { emitter, listener, closed: false };
+		handles.set(path, handle);
+		return emitter as unknown as FSWatcher;
+	};
+	return { watch, handles };
+}
+
+describe("watcher", () => {
+	it("marks watched paths dirty on change events and bumps their version", () => {
+		const fake = createFakeWatch();
+		const watcher = createTrackedPathWatcher({ watch: fake.watch });
+		watcher.sync(["/repo/a.ts", "/repo/b.ts"]);
+
+		expect(watcher.getVersion("/repo/a.ts")).toBe(0);
+		fake.handles.get("/repo/a.ts")?.listener("change");
+
+		expect(watcher.isDirty("/repo/a.ts")).toBe(true);
+		expect(watcher.isDirty("/repo/b.ts")).toBe(false);
+		expect(watcher.getVersion("/repo/a.ts")).toBe(1);
+		expect(watcher.getStatus()).toEqual({
+			watchedPaths: 2,
+			dirtyPaths: ["/repo/a.ts"],
+			unwatchedPaths: 0,
+			degraded: false,
+		});
+
+		watcher.markClean("/repo/a.ts");
+		expect(watcher.isDirty("/repo/a.ts")).toBe(false);
+	});
+
+	it("re-watches paths replaced by rename on the next sync", () => {
+		const fake = createFakeWatch();
+		const watcher = createTrackedPathWatcher({ watch: fake.watch });
+		watcher.sync(["/repo/a.ts"]);
+		const first = fake.handles.get("/repo/a.ts");
+
+		first?.listener("rename");
+		expect(first?.closed).toBe(true);
+		expect(watcher.getVersion("/repo/a.ts")).toBeUndefined();
+		expect(watcher.isDirty("/repo/a.ts")).toBe(true);
+
+		watcher.sync(["/repo/a.ts"]);
+		expect(fake.handles.get("/repo/a.ts")).not.toBe(first);
+		expect(watcher.getVersion("/repo/a.ts")).toBeGreaterThan(1);
+	});
+
+	it("reports an atomic save once the renamed path is watched again", async () => {
+		const cwd = await mkdtemp(join(tmpdir(), "pi-readcache-watcher-"));
+		const pathKey = join(cwd, "a.ts");
+		await writeFile(pathKey, "v1", "utf-8");
+		const knowledge: KnowledgeMap = new Map([[pathKey, new Map([[SCOPE_FULL, { hash: hashBytes(Buffer.from("v1")), seq: 1 }]])]]);
+		const state = createExternalChangeState();
+		const fake = createFakeWatch();
+		const watcher = createTrackedPathWatcher({ watch: fake.watch });
+
+		watcher.sync(knowledge.keys());
+		expect(await detectExternalChanges(knowledge, state, watcher)).toEqual([]);
+
+		await writeFile(pathKey, "v2", "utf-8");
+		fake.handles.get(pathKey)?.listener("rename");
+		watcher.sync(knowledge.keys());
+
+		expect(await detectExternalChanges(knowledge, state, watcher)).toEqual([
+			{ pathKey, trustedHash: hashBytes(Buffer.from("v1")), kind: "modified" },
+		]);
+	});
+
+	it("does not reuse a version after a path stops being tracked", () => {
+		const fake = createFakeWatch();
+		const watcher = createTrackedPathWatcher({ watch: fake.watch });
+		watcher.sync(["/repo/a.ts"]);
+		const before = watcher.getVersion("/repo/a.ts");
+
+		watcher.sync([]);
+		watcher.sync(["/repo/a.ts"]);
+		expect(watcher.getVersion("/repo/a.ts")).not.toBe(before);
+	});
+
+	it("stops watching paths that are no longer tracked", () => {
+		const fake = createFakeWatch();
+		const watcher = createTrackedPathWatcher({ watch: fake.watch });
+		watcher.sync(["/repo/a.ts", "/repo/b.ts"]);
+		fake.handles.get("/repo/b.ts")?.listener("change");
+
+		watcher.sync(["/repo/a.ts"]);
+		expect(fake.handles.get("/repo/b.ts")?.closed).toBe(true);
+		expect(watcher.getStatus()).toMatchObject({ watchedPaths: 1, dirtyPaths: [] });
+	});
+
+	it("degrades gracefully when the watch limit is reached", () => {
+		const fake = createFakeWatch((path) => (path === "/repo/b.ts" ? "ENOSPC" : undefined));
+		const watcher = createTrackedPathWatcher({ watch: fake.watch });
+		watcher.sync(["/repo/a.ts", "/repo/b.ts", "/repo/c.ts"]);
+
+		expect(watcher.getStatus()).toEqual({
+			watchedPaths: 1,
+			dirtyPaths: [],
+			unwatchedPaths: 2,
+			degraded: true,
+		});
+		expect(watcher.getVersion("/repo/b.ts")).toBeUndefined();
+	});
+
+	it("caps watched paths at maxWatchedPaths and closes all handles on close", () => {
+		const fake = createFakeWatch();
+		const watcher = createTrackedPathWatcher({ watch: fake.watch, maxWatchedPaths: 1 });
+		watcher.sync(["/repo/a.ts", "/repo/b.ts"]);
+		expect(watcher.getStatus()).toMatchObject({ watchedPaths: 1, unwatchedPaths: 1, degraded: true });
+
+		watcher.close();
+		expect(fake.handles.get("/repo/a.ts")?.closed).toBe(true);
+		watcher.sync(["/repo/c.ts"]);
+		expect(watcher.getStatus().watchedPaths).toBe(0);
+	});
+});